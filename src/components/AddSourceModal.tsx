@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { toast } from 'sonner';
 import { CrawlDepth } from '@/types/source';
 import {
@@ -16,10 +16,13 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { cn } from '@/lib/utils';
-import { Globe, Layers, Database, Zap, FileText, Waves, Anchor, Info } from 'lucide-react';
-import type { SuggestionMode } from '@/types/source';
+import { Globe, Layers, Database, Zap, FileText, Waves, Anchor, Info, Upload, X } from 'lucide-react';
+import type { AddSourceOptions, CrawlBudget, FetchStrategy, SuggestionMode } from '@/types/source';
+import { ACCEPTED_SOURCE_FILE_EXTENSIONS, isAcceptedSourceFile } from '@/lib/db/source-files';
+import { DEPTH_PAGE_LIMITS, MAX_CUSTOM_PAGES, findInvalidPathPattern, parsePathPatterns } from '@/lib/sourceScope';
 
 interface AddSourceModalProps {
   open: boolean;
@@ -27,8 +30,10 @@ interface AddSourceModalProps {
   onAddSource: (
     url: string,
     depth: CrawlDepth,
-    options: { sameDomainOnly: boolean; suggestionMode?: SuggestionMode }
+    options: AddSourceOptions
   ) => void | Promise<unknown>;
+  /** When set, the modal offers uploading local files as a source. */
+  onAddFiles?: (files: File[], label: string) => Promise<unknown>;
   
   promptMessage?: string | null;
 }
@@ -42,29 +47,222 @@ const crawlDepthOptions: { value: CrawlDepth; label: string; description: string
 const singularOption = { value: 'singular' as const, label: 'Singular', description: '1 page only, no suggestions', icon: <FileText className="h-4 w-4" /> };
 const dynamicOption = { value: 'dynamic' as const, label: 'Dynamic', description: '1 page, suggest more on demand', icon: <Zap className="h-4 w-4" /> };
 
-export const AddSourceModal = ({ open, onOpenChange, onAddSource, promptMessage }: AddSourceModalProps) => {
+const fetchStrategyOptions: { value: FetchStrategy; label: string }[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'static', label: 'Static' },
+  { value: 'browser', label: 'Browser' },
+];
+
+type BudgetDraft = { maxPages: string; maxLinkDepth: string; maxPagesPerPrefix: string; maxMegabytes: string };
+
+const emptyBudgetDraft: BudgetDraft = { maxPages: '', maxLinkDepth: '', maxPagesPerPrefix: '', maxMegabytes: '' };
+
+const budgetFields: { key: keyof BudgetDraft; label: string }[] = [
+  { key: 'maxPages', label: 'Max pages' },
+  { key: 'maxLinkDepth', label: 'Link depth' },
+  { key: 'maxPagesPerPrefix', label: 'Pages per path' },
+  { key: 'maxMegabytes', label: 'Max MB' },
+];
+
+const positiveInt = (value: string): number | undefined => {
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+};
+
+const budgetFromDraft = (draft: BudgetDraft): CrawlBudget | null => {
+  const megabytes = positiveInt(draft.maxMegabytes);
+  const budget: CrawlBudget = {
+    maxPages: positiveInt(draft.maxPages),
+    maxLinkDepth: positiveInt(draft.maxLinkDepth),
+    maxPagesPerPrefix: positiveInt(draft.maxPagesPerPrefix),
+    maxTotalBytes: megabytes ? megabytes * 1024 * 1024 : undefined,
+  };
+  return Object.values(budget).some((v) => v != null) ? budget : null;
+};
+
+const modeOptions: { value: 'web' | 'files'; label: string; icon: React.ReactNode }[] = [
+  { value: 'web', label: 'Website', icon: <Globe className="h-3.5 w-3.5" /> },
+  { value: 'files', label: 'Upload files', icon: <Upload className="h-3.5 w-3.5" /> },
+];
+
+const defaultFilesLabel = (files: File[]): string => {
+  if (files.length === 0) return '';
+  const first = files[0].name.replace(/\.[^.]+$/, '');
+  return files.length === 1 ? first : `${first} + ${files.length - 1} more`;
+};
+
+const UploadFilesForm = ({
+  onAddFiles,
+  onCancel,
+  onDone,
+}: {
+  onAddFiles: (files: File[], label: string) => Promise<unknown>;
+  onCancel: () => void;
+  onDone: () => void;
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [label, setLabel] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const addFiles = (list: FileList | null) => {
+    const picked = Array.from(list ?? []);
+    const rejected = picked.filter((f) => !isAcceptedSourceFile(f));
+    if (rejected.length > 0) toast.error(`Unsupported file type: ${rejected.map((f) => f.name).join(', ')}`);
+    const accepted = picked.filter(isAcceptedSourceFile);
+    setFiles((prev) => [...prev, ...accepted.filter((f) => !prev.some((p) => p.name === f.name))]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (files.length === 0 || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      await onAddFiles(files, label.trim() || defaultFilesLabel(files));
+      setFiles([]);
+      setLabel('');
+      onDone();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Failed to upload files';
+      toast.error(msg);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6 pt-2">
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Files</Label>
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault();
+            addFiles(e.dataTransfer.files);
+          }}
+          className="w-full flex flex-col items-center gap-2 p-6 rounded-lg border border-dashed border-border bg-background/50 text-muted-foreground hover:border-primary/40 hover:bg-background transition-all"
+        >
+          <Upload className="h-5 w-5" />
+          <span className="text-sm">Drop files or click to choose</span>
+          <span className="text-[10px]">Markdown, TXT, HTML, PDF, DOCX · up to 20 MB each</span>
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ACCEPTED_SOURCE_FILE_EXTENSIONS.join(',')}
+          className="hidden"
+          onChange={(e) => {
+            addFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+        {files.length > 0 && (
+          <ul className="space-y-1">
+            {files.map((file) => (
+              <li key={file.name} className="flex items-center gap-2 text-xs bg-background/50 rounded-md border border-border/50 px-2 py-1.5">
+                <FileText className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                <span className="truncate flex-1">{file.name}</span>
+                <button
+                  type="button"
+                  aria-label={`Remove ${file.name}`}
+                  className="shrink-0 rounded p-0.5 text-muted-foreground hover:text-foreground"
+                  onClick={() => setFiles((prev) => prev.filter((f) => f !== file))}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="files-label" className="text-sm font-medium">
+          Name
+        </Label>
+        <Input
+          id="files-label"
+          type="text"
+          placeholder={defaultFilesLabel(files) || 'Team handbook'}
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          className="bg-background border-border focus:ring-primary"
+        />
+      </div>
+
+      <div className="flex justify-end gap-2 pt-2">
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          disabled={files.length === 0 || isSubmitting}
+          className="bg-primary text-primary-foreground hover:bg-primary/90"
+        >
+          {isSubmitting ? 'Uploading…' : 'Add files'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export const AddSourceModal = ({ open, onOpenChange, onAddSource, onAddFiles, promptMessage }: AddSourceModalProps) => {
+  const [mode, setMode] = useState<'web' | 'files'>('web');
   const [url, setUrl] = useState('');
   const [depth, setDepth] = useState<CrawlDepth>('shallow');
   const [suggestionMode, setSuggestionMode] = useState<SuggestionMode>('surface');
   const [sameDomainOnly, setSameDomainOnly] = useState(true);
+  const [fetchStrategy, setFetchStrategy] = useState<FetchStrategy>('auto');
+  const [useSitemap, setUseSitemap] = useState(false);
+  const [includePaths, setIncludePaths] = useState('');
+  const [excludePaths, setExcludePaths] = useState('');
+  const [customBudget, setCustomBudget] = useState(false);
+  const [budgetDraft, setBudgetDraft] = useState<BudgetDraft>(emptyBudgetDraft);
+  const isMultiPage = depth === 'shallow' || depth === 'medium' || depth === 'deep';
 
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!url.trim() || isSubmitting) return;
+    const includePatterns = isMultiPage ? parsePathPatterns(includePaths) : [];
+    const excludePatterns = isMultiPage ? parsePathPatterns(excludePaths) : [];
+    const invalidPattern = findInvalidPathPattern([...includePatterns, ...excludePatterns]);
+    if (invalidPattern) {
+      toast.error(`Invalid path pattern: ${invalidPattern}`);
+      return;
+    }
+    const crawlBudget = isMultiPage && customBudget ? budgetFromDraft(budgetDraft) : null;
+    if ((crawlBudget?.maxPages ?? 0) > MAX_CUSTOM_PAGES) {
+      toast.error(`Max pages is limited to ${MAX_CUSTOM_PAGES}`);
+      return;
+    }
 
     setIsSubmitting(true);
     try {
       const result = onAddSource(url.trim(), depth, {
         sameDomainOnly,
         suggestionMode: depth === 'dynamic' ? suggestionMode : undefined,
+        fetchStrategy,
+        includePatterns,
+        excludePatterns,
+        useSitemap: isMultiPage && useSitemap,
+        crawlBudget,
       });
       await Promise.resolve(result);
       setUrl('');
       setDepth('shallow');
       setSuggestionMode('surface');
       setSameDomainOnly(true);
+      setFetchStrategy('auto');
+      setUseSitemap(false);
+      setIncludePaths('');
+      setExcludePaths('');
+      setCustomBudget(false);
+      setBudgetDraft(emptyBudgetDraft);
       onOpenChange(false);
     } catch (err) {
       const msg = err instanceof Error ? err.message : 'Failed to add source';
@@ -80,189 +278,317 @@ export const AddSourceModal = ({ open, onOpenChange, onAddSource, promptMessage
         <DialogHeader>
           <DialogTitle className="text-xl font-serif">Add Source</DialogTitle>
           <DialogDescription className="text-muted-foreground">
-            {promptMessage ?? 'Index a website to enable evidence-backed citations'}
+            {promptMessage ?? 'Index a website or your own documents to enable evidence-backed citations'}
           </DialogDescription>
         </DialogHeader>
 
-        <form onSubmit={handleSubmit} className="space-y-6 pt-2">
-          {}
-          <div className="space-y-2">
-            <Label htmlFor="url" className="text-sm font-medium">
-              Starting URL
-            </Label>
-            <Input
-              id="url"
-              type="text"
-              placeholder="https://docs.example.com"
-              value={url}
-              onChange={(e) => setUrl(e.target.value)}
-              className="bg-background border-border focus:ring-primary"
-            />
-          </div>
-
-          {}
-          <div className="space-y-3">
-            <Label className="text-sm font-medium">Crawl Depth</Label>
-            <div className="space-y-2">
-              <div className="grid grid-cols-3 gap-2">
-                {crawlDepthOptions.map((option) => (
-                  <button
-                    key={option.value}
-                    type="button"
-                    onClick={() => setDepth(option.value)}
-                    className={cn(
-                      'flex flex-col items-center gap-2 p-3 rounded-lg border transition-all',
-                      depth === option.value
-                        ? 'border-primary bg-primary/10 text-foreground'
-                        : 'border-border bg-background/50 text-muted-foreground hover:border-border/80 hover:bg-background'
-                    )}
-                  >
-                    <div className={cn(
-                      'p-2 rounded-md',
-                      depth === option.value ? 'bg-primary/20 text-primary' : 'bg-secondary'
-                    )}>
-                      {option.icon}
-                    </div>
-                    <span className="text-sm font-medium">{option.label}</span>
-                    <span className="text-[10px] text-muted-foreground">{option.description}</span>
-                  </button>
-                ))}
-              </div>
+        {onAddFiles && (
+          <div className="grid grid-cols-2 gap-1 p-1 rounded-lg bg-secondary/50">
+            {modeOptions.map((option) => (
               <button
+                key={option.value}
                 type="button"
-                onClick={() => setDepth(singularOption.value)}
+                onClick={() => setMode(option.value)}
                 className={cn(
-                  'w-full flex items-center gap-3 p-3 rounded-lg border transition-all',
-                  depth === singularOption.value
-                    ? 'border-primary bg-primary/10 text-foreground'
-                    : 'border-border bg-background/50 text-muted-foreground hover:border-border/80 hover:bg-background'
+                  'inline-flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium transition-colors',
+                  mode === option.value ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'
                 )}
               >
-                <div className={cn(
-                  'p-2 rounded-md shrink-0',
-                  depth === singularOption.value ? 'bg-primary/20 text-primary' : 'bg-secondary'
-                )}>
-                  {singularOption.icon}
-                </div>
-                <div className="text-left">
-                  <span className="text-sm font-medium">{singularOption.label}</span>
-                  <span className="text-[10px] text-muted-foreground block">{singularOption.description}</span>
-                </div>
+                {option.icon}
+                {option.label}
               </button>
-              <div
-                role="button"
-                tabIndex={0}
-                onClick={() => setDepth(dynamicOption.value)}
-                onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); setDepth(dynamicOption.value); } }}
-                className={cn(
-                  'w-full flex items-center gap-3 p-3 rounded-lg border transition-all cursor-pointer',
-                  depth === dynamicOption.value
-                    ? 'border-primary bg-primary/10 text-foreground'
-                    : 'border-border bg-background/50 text-muted-foreground hover:border-border/80 hover:bg-background'
-                )}
-              >
-                <div className={cn(
-                  'p-2 rounded-md shrink-0',
-                  depth === dynamicOption.value ? 'bg-primary/20 text-primary' : 'bg-secondary'
-                )}>
-                  {dynamicOption.icon}
+            ))}
+          </div>
+        )}
+
+        {onAddFiles && mode === 'files' ? (
+          <UploadFilesForm onAddFiles={onAddFiles} onCancel={() => onOpenChange(false)} onDone={() => onOpenChange(false)} />
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6 pt-2">
+            {}
+            <div className="space-y-2">
+              <Label htmlFor="url" className="text-sm font-medium">
+                Starting URL
+              </Label>
+              <Input
+                id="url"
+                type="text"
+                placeholder="https://docs.example.com"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                className="bg-background border-border focus:ring-primary"
+              />
+            </div>
+
+            {}
+            <div className="space-y-3">
+              <Label className="text-sm font-medium">Crawl Depth</Label>
+              <div className="space-y-2">
+                <div className="grid grid-cols-3 gap-2">
+                  {crawlDepthOptions.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => setDepth(option.value)}
+                      className={cn(
+                        'flex flex-col items-center gap-2 p-3 rounded-lg border transition-all',
+                        depth === option.value
+                          ? 'border-primary bg-primary/10 text-foreground'
+                          : 'border-border bg-background/50 text-muted-foreground hover:border-border/80 hover:bg-background'
+                      )}
+                    >
+                      <div className={cn(
+                        'p-2 rounded-md',
+                        depth === option.value ? 'bg-primary/20 text-primary' : 'bg-secondary'
+                      )}>
+                        {option.icon}
+                      </div>
+                      <span className="text-sm font-medium">{option.label}</span>
+                      <span className="text-[10px] text-muted-foreground">{option.description}</span>
+                    </button>
+                  ))}
                 </div>
-                <div className="text-left flex-1">
-                  <span className="text-sm font-medium">{dynamicOption.label}</span>
-                  <span className="text-[10px] text-muted-foreground block">{dynamicOption.description}</span>
-                  {depth === dynamicOption.value && (
-                    <div className="flex flex-wrap items-center gap-y-2 gap-x-1.5 mt-3" onClick={(e) => e.stopPropagation()}>
-                      <button
-                        type="button"
-                        onClick={() => setSuggestionMode('surface')}
-                        className={cn(
-                          'inline-flex items-center gap-1 px-2.5 py-1.5 rounded-md text-[11px] font-medium border transition-colors',
-                          suggestionMode === 'surface'
-                            ? 'bg-teal-500/15 text-teal-600 dark:text-teal-400 border-teal-500/30'
-                            : 'bg-background/50 text-muted-foreground border-border hover:border-border/80'
-                        )}
-                      >
-                        <Waves className="h-3.5 w-3.5" />
-                        Surface
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() => setSuggestionMode('dive')}
-                        className={cn(
-                          'inline-flex items-center gap-1 px-2.5 py-1.5 rounded-md text-[11px] font-medium border transition-colors',
-                          suggestionMode === 'dive'
-                            ? 'bg-blue-500/15 text-blue-600 dark:text-blue-400 border-blue-500/30'
-                            : 'bg-background/50 text-muted-foreground border-border hover:border-border/80'
-                        )}
-                      >
-                        <Anchor className="h-3.5 w-3.5" />
-                        Dive
-                      </button>
-                      <HoverCard openDelay={200} closeDelay={100}>
-                        <HoverCardTrigger asChild>
-                          <button
-                            type="button"
-                            className="shrink-0 p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
-                            aria-label="Learn about Surface vs Dive"
-                          >
-                            <Info className="h-3.5 w-3.5" />
-                          </button>
-                        </HoverCardTrigger>
-                        <HoverCardContent side="top" align="start" className="w-72 text-xs space-y-2.5 p-3">
-                          <p className="font-medium text-foreground">Surface vs Dive</p>
-                          <p className="text-muted-foreground">
-                            <span className="text-teal-600 dark:text-teal-400 font-medium">Surface</span> - Faster. Uses text near links on pages you&apos;ve added to make suggestions.
-                          </p>
-                          <p className="text-muted-foreground">
-                            <span className="text-blue-600 dark:text-blue-400 font-medium">Dive</span> - Slower. Opens each link and reads its intro for better suggestions.
-                          </p>
-                        </HoverCardContent>
-                      </HoverCard>
-                    </div>
+                <button
+                  type="button"
+                  onClick={() => setDepth(singularOption.value)}
+                  className={cn(
+                    'w-full flex items-center gap-3 p-3 rounded-lg border transition-all',
+                    depth === singularOption.value
+                      ? 'border-primary bg-primary/10 text-foreground'
+                      : 'border-border bg-background/50 text-muted-foreground hover:border-border/80 hover:bg-background'
                   )}
+                >
+                  <div className={cn(
+                    'p-2 rounded-md shrink-0',
+                    depth === singularOption.value ? 'bg-primary/20 text-primary' : 'bg-secondary'
+                  )}>
+                    {singularOption.icon}
+                  </div>
+                  <div className="text-left">
+                    <span className="text-sm font-medium">{singularOption.label}</span>
+                    <span className="text-[10px] text-muted-foreground block">{singularOption.description}</span>
+                  </div>
+                </button>
+                <div
+                  role="button"
+                  tabIndex={0}
+                  onClick={() => setDepth(dynamicOption.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); setDepth(dynamicOption.value); } }}
+                  className={cn(
+                    'w-full flex items-center gap-3 p-3 rounded-lg border transition-all cursor-pointer',
+                    depth === dynamicOption.value
+                      ? 'border-primary bg-primary/10 text-foreground'
+                      : 'border-border bg-background/50 text-muted-foreground hover:border-border/80 hover:bg-background'
+                  )}
+                >
+                  <div className={cn(
+                    'p-2 rounded-md shrink-0',
+                    depth === dynamicOption.value ? 'bg-primary/20 text-primary' : 'bg-secondary'
+                  )}>
+                    {dynamicOption.icon}
+                  </div>
+                  <div className="text-left flex-1">
+                    <span className="text-sm font-medium">{dynamicOption.label}</span>
+                    <span className="text-[10px] text-muted-foreground block">{dynamicOption.description}</span>
+                    {depth === dynamicOption.value && (
+                      <div className="flex flex-wrap items-center gap-y-2 gap-x-1.5 mt-3" onClick={(e) => e.stopPropagation()}>
+                        <button
+                          type="button"
+                          onClick={() => setSuggestionMode('surface')}
+                          className={cn(
+                            'inline-flex items-center gap-1 px-2.5 py-1.5 rounded-md text-[11px] font-medium border transition-colors',
+                            suggestionMode === 'surface'
+                              ? 'bg-teal-500/15 text-teal-600 dark:text-teal-400 border-teal-500/30'
+                              : 'bg-background/50 text-muted-foreground border-border hover:border-border/80'
+                          )}
+                        >
+                          <Waves className="h-3.5 w-3.5" />
+                          Surface
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setSuggestionMode('dive')}
+                          className={cn(
+                            'inline-flex items-center gap-1 px-2.5 py-1.5 rounded-md text-[11px] font-medium border transition-colors',
+                            suggestionMode === 'dive'
+                              ? 'bg-blue-500/15 text-blue-600 dark:text-blue-400 border-blue-500/30'
+                              : 'bg-background/50 text-muted-foreground border-border hover:border-border/80'
+                          )}
+                        >
+                          <Anchor className="h-3.5 w-3.5" />
+                          Dive
+                        </button>
+                        <HoverCard openDelay={200} closeDelay={100}>
+                          <HoverCardTrigger asChild>
+                            <button
+                              type="button"
+                              className="shrink-0 p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+                              aria-label="Learn about Surface vs Dive"
+                            >
+                              <Info className="h-3.5 w-3.5" />
+                            </button>
+                          </HoverCardTrigger>
+                          <HoverCardContent side="top" align="start" className="w-72 text-xs space-y-2.5 p-3">
+                            <p className="font-medium text-foreground">Surface vs Dive</p>
+                            <p className="text-muted-foreground">
+                              <span className="text-teal-600 dark:text-teal-400 font-medium">Surface</span> - Faster. Uses text near links on pages you&apos;ve added to make suggestions.
+                            </p>
+                            <p className="text-muted-foreground">
+                              <span className="text-blue-600 dark:text-blue-400 font-medium">Dive</span> - Slower. Opens each link and reads its intro for better suggestions.
+                            </p>
+                          </HoverCardContent>
+                        </HoverCard>
+                      </div>
+                    )}
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
 
-          {}
-          <div className="space-y-3">
-            <Label className="text-sm font-medium">Options</Label>
-            <div className="flex items-center justify-between bg-background/50 rounded-lg p-3 border border-border/50">
-              <div className="space-y-0.5">
-                <Label htmlFor="domain" className="text-sm font-normal cursor-pointer">
-                  Same domain only
-                </Label>
-                <p className="text-[11px] text-muted-foreground">
-                  Stay within the original domain (recommended)
-                </p>
+            {}
+            <div className="space-y-3">
+              <Label className="text-sm font-medium">Options</Label>
+              <div className="flex items-center justify-between bg-background/50 rounded-lg p-3 border border-border/50">
+                <div className="space-y-0.5">
+                  <Label htmlFor="domain" className="text-sm font-normal cursor-pointer">
+                    Same domain only
+                  </Label>
+                  <p className="text-[11px] text-muted-foreground">
+                    Stay within the original domain (recommended)
+                  </p>
+                </div>
+                <Switch
+                  id="domain"
+                  checked={sameDomainOnly}
+                  onCheckedChange={setSameDomainOnly}
+                />
+              </div>
+              {isMultiPage && (
+                <div className="space-y-3 bg-background/50 rounded-lg p-3 border border-border/50">
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="sitemap" className="text-sm font-normal cursor-pointer">
+                        Seed from sitemap
+                      </Label>
+                      <p className="text-[11px] text-muted-foreground">
+                        Start from the site&apos;s sitemap.xml, useful for documentation sites
+                      </p>
+                    </div>
+                    <Switch id="sitemap" checked={useSitemap} onCheckedChange={setUseSitemap} />
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                      <Label htmlFor="include-paths" className="text-[11px] font-normal text-muted-foreground">
+                        Include paths
+                      </Label>
+                      <Textarea
+                        id="include-paths"
+                        rows={2}
+                        placeholder="/docs/**"
+                        value={includePaths}
+                        onChange={(e) => setIncludePaths(e.target.value)}
+                        className="min-h-0 text-xs font-mono bg-background border-border"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="exclude-paths" className="text-[11px] font-normal text-muted-foreground">
+                        Exclude paths
+                      </Label>
+                      <Textarea
+                        id="exclude-paths"
+                        rows={2}
+                        placeholder={"/blog/**\n/pricing"}
+                        value={excludePaths}
+                        onChange={(e) => setExcludePaths(e.target.value)}
+                        className="min-h-0 text-xs font-mono bg-background border-border"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-[10px] text-muted-foreground">
+                    One per line: globs, or a regex after re: (rei: ignores case). The starting URL is always crawled.
+                  </p>
+                </div>
+              )}
+              {isMultiPage && (
+                <div className="space-y-3 bg-background/50 rounded-lg p-3 border border-border/50">
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="custom-budget" className="text-sm font-normal cursor-pointer">
+                        Custom budget
+                      </Label>
+                      <p className="text-[11px] text-muted-foreground">
+                        Override the {DEPTH_PAGE_LIMITS[depth]}-page preset, up to {MAX_CUSTOM_PAGES} pages
+                      </p>
+                    </div>
+                    <Switch id="custom-budget" checked={customBudget} onCheckedChange={setCustomBudget} />
+                  </div>
+                  {customBudget && (
+                    <div className="grid grid-cols-2 gap-2">
+                      {budgetFields.map((field) => (
+                        <div key={field.key} className="space-y-1">
+                          <Label htmlFor={`budget-${field.key}`} className="text-[11px] font-normal text-muted-foreground">
+                            {field.label}
+                          </Label>
+                          <Input
+                            id={`budget-${field.key}`}
+                            type="number"
+                            min={1}
+                            max={field.key === 'maxPages' ? MAX_CUSTOM_PAGES : undefined}
+                            placeholder={field.key === 'maxPages' ? String(DEPTH_PAGE_LIMITS[depth]) : 'No limit'}
+                            value={budgetDraft[field.key]}
+                            onChange={(e) => setBudgetDraft((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                            className="h-8 text-xs bg-background border-border"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+              <div className="flex items-center justify-between gap-3 bg-background/50 rounded-lg p-3 border border-border/50">
+                <div className="space-y-0.5">
+                  <Label className="text-sm font-normal">Rendering</Label>
+                  <p className="text-[11px] text-muted-foreground">
+                    Auto uses a browser only for pages built with JavaScript
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-1 p-0.5 rounded-md bg-secondary/50">
+                  {fetchStrategyOptions.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => setFetchStrategy(option.value)}
+                      className={cn(
+                        'px-2 py-1 rounded text-[11px] font-medium transition-colors',
+                        fetchStrategy === option.value ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'
+                      )}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
               </div>
-              <Switch
-                id="domain"
-                checked={sameDomainOnly}
-                onCheckedChange={setSameDomainOnly}
-              />
             </div>
-          </div>
 
-          {}
-          <div className="flex justify-end gap-2 pt-2">
-            <Button
-              type="button"
-              variant="ghost"
-              onClick={() => onOpenChange(false)}
-            >
-              Cancel
-            </Button>
-            <Button
-              type="submit"
-              disabled={!url.trim() || isSubmitting}
-              className="bg-primary text-primary-foreground hover:bg-primary/90"
-            >
-              {isSubmitting ? 'Adding…' : 'Add source'}
-            </Button>
-          </div>
-        </form>
+            {}
+            <div className="flex justify-end gap-2 pt-2">
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={!url.trim() || isSubmitting}
+                className="bg-primary text-primary-foreground hover:bg-primary/90"
+              >
+                {isSubmitting ? 'Adding…' : 'Add source'}
+              </Button>
+            </div>
+          </form>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -2,13 +2,14 @@ import { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { toast } from 'sonner';
 import { Conversation, ThoughtProcess } from '@/types/chat';
 import { PanelLeft } from 'lucide-react';
-import { Quote, Source, CrawlDepth } from '@/types/source';
+import { Quote, Source, CrawlDepth, AddSourceOptions } from '@/types/source';
 import { ChatMessage, TypingIndicator } from './ChatMessage';
 import { ThoughtProcessView } from './ThoughtProcessView';
 import { ChatInput, type DisableReason } from './ChatInput';
 import { useQuery } from '@tanstack/react-query';
 import { LATEST_MAIN_CRAWL_JOB_BY_SOURCES } from '@/lib/queryKeys';
 import { crawlJobsApi } from '@/lib/db';
+import { quotaExceededMessage, type QuotaExceeded } from '@shared/quotas';
 import { WelcomeScreen } from './WelcomeScreen';
 import { SourcesBar } from './SourcesBar';
 import { AddSourceModal } from './AddSourceModal';
@@ -25,9 +26,18 @@ interface ChatAreaProps {
   ragStepProgress?: Array<{ current: number; total: number; label: string }>;
   liveThoughtProcess?: ThoughtProcess | null;
   onSendMessage: (message: string, options?: { unfoldMode?: 'unfold' | 'direct' }) => void;
-  onAddSource: (url: string, depth: CrawlDepth, options: { sameDomainOnly: boolean; suggestionMode?: 'surface' | 'dive' }) => Promise<Source | null>;
+  /** Set while the answer being generated can be stopped. */
+  onCancelRun?: () => Promise<void>;
+  /** Set while chat-with-rag refuses new runs because the user is over a quota. */
+  quotaExceeded?: QuotaExceeded | null;
+  onAddSource: (url: string, depth: CrawlDepth, options: AddSourceOptions) => Promise<Source | null>;
+  onAddFileSource?: (files: File[], label: string) => Promise<Source | null>;
   onRemoveSource: (sourceId: string) => void;
   onRecrawlSource: (sourceId: string) => void;
+  onRetryFailedPages?: (sourceId: string) => Promise<void>;
+  onCancelCrawl?: (sourceId: string) => Promise<void>;
+  onPauseCrawl?: (sourceId: string) => Promise<void>;
+  onResumeCrawl?: (sourceId: string) => Promise<void>;
   sidebarOpen: boolean;
   onToggleSidebar?: () => void;
   showSignIn?: boolean;
@@ -47,9 +57,16 @@ export const ChatArea = ({
   ragStepProgress = [],
   liveThoughtProcess = null,
   onSendMessage,
+  onCancelRun,
+  quotaExceeded = null,
   onAddSource,
+  onAddFileSource,
   onRemoveSource,
   onRecrawlSource,
+  onRetryFailedPages,
+  onCancelCrawl,
+  onPauseCrawl,
+  onResumeCrawl,
   sidebarOpen,
   onToggleSidebar,
   showSignIn,
@@ -99,20 +116,30 @@ export const ChatArea = ({
 
   useEffect(() => {
     if (failedInitialSourceIds.length === 0) return;
+    const reason = mainCrawlJobMap.get(failedInitialSourceIds[0])?.error_message;
     failedInitialSourceIds.forEach(sourceId => {
       onRemoveSource(sourceId);
     });
     
-    toast.error('Source failed to load and was removed. Try adding it again.');
-  }, [failedInitialSourceIds, onRemoveSource]);
+    toast.error('Source failed to load and was removed. Try adding it again.', reason ? { description: reason } : undefined);
+  }, [failedInitialSourceIds, mainCrawlJobMap, onRemoveSource]);
 
   const { isDisabled: inputDisabled, disableReason } = useMemo((): { isDisabled: boolean; disableReason: DisableReason } => {
     if (sources.length === 0) return { isDisabled: true, disableReason: 'no_sources' };
     if (isLoading) return { isDisabled: true, disableReason: 'loading' };
+    if (quotaExceeded) return { isDisabled: true, disableReason: 'quota_exceeded' };
     if (addingPageSourceId) return { isDisabled: true, disableReason: 'adding_page' };
     if (!hasReadySource) return { isDisabled: true, disableReason: 'processing' };
     return { isDisabled: false, disableReason: null };
-  }, [sources.length, isLoading, addingPageSourceId, hasReadySource]);
+  }, [sources.length, isLoading, quotaExceeded, addingPageSourceId, hasReadySource]);
+
+  const quotaMessage = useMemo(() => {
+    if (!quotaExceeded) return undefined;
+    const retry = quotaExceeded.retryAt
+      ? ` Try again after ${new Date(quotaExceeded.retryAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.`
+      : '';
+    return quotaExceededMessage(quotaExceeded) + retry;
+  }, [quotaExceeded]);
 
   const openAddSourceModal = useCallback((promptMessage: string | null) => {
     if (showSignIn && onGuestRequired) {
@@ -135,6 +162,7 @@ export const ChatArea = ({
   const [previewOpen, setPreviewOpen] = useState(false);
   const [selectedSourceId, setSelectedSourceId] = useState<string | null>(null);
   const [sourceDrawerOpen, setSourceDrawerOpen] = useState(false);
+  const [highlightQuote, setHighlightQuote] = useState<Quote | null>(null);
 
   const selectedSource = sources.find(s => s.id === selectedSourceId) || null;
 
@@ -159,10 +187,17 @@ export const ChatArea = ({
   };
 
   const handleSourceChipClick = (sourceId: string) => {
+    setHighlightQuote(null);
     setSelectedSourceId(sourceId);
     setSourceDrawerOpen(true);
   };
 
+  const handleViewQuoteInSource = (quote: Quote) => {
+    setHighlightQuote(quote);
+    setSelectedSourceId(quote.sourceId);
+    setSourceDrawerOpen(true);
+  };
+
   const handleKnowledgeTrailClick = (sourceId: string) => {
     
     const quote = allQuotes.find(q => q.sourceId === sourceId);
@@ -173,7 +208,7 @@ export const ChatArea = ({
     }
   };
 
-  const handleAddSource = async (url: string, depth: CrawlDepth, options: { sameDomainOnly: boolean }) => {
+  const handleAddSource = async (url: string, depth: CrawlDepth, options: AddSourceOptions) => {
     const added = await onAddSource(url, depth, options);
     if (added) {
       setAddSourceOpen(false);
@@ -182,6 +217,13 @@ export const ChatArea = ({
     return added;
   };
 
+  const handleAddFileSource = async (files: File[], label: string) => {
+    if (!onAddFileSource) return null;
+    const added = await onAddFileSource(files, label);
+    if (added) setAddSourceOpen(false);
+    return added;
+  };
+
   const handleRemoveSource = (sourceId: string) => {
     onRemoveSource(sourceId);
     setSourceDrawerOpen(false);
@@ -237,6 +279,7 @@ export const ChatArea = ({
                     followUp={followUp}
                     sources={sourcesList}
                     onQuoteClick={handleQuoteClick}
+                    onViewQuoteInSource={handleViewQuoteInSource}
                     onSourceClick={handleKnowledgeTrailClick}
                     onAddSuggestedPage={onAddSuggestedPage}
                     conversationId={conversation.id}
@@ -272,9 +315,11 @@ export const ChatArea = ({
           </ScrollArea>
           <ChatInput
             onSendMessage={onSendMessage}
+            onStop={onCancelRun}
             isLoading={isLoading}
             isDisabled={inputDisabled}
             disableReason={disableReason}
+            disableMessage={quotaMessage}
             onRequestAddSource={handleRequestAddSource}
           />
         </>
@@ -288,9 +333,11 @@ export const ChatArea = ({
           )}
           <ChatInput
             onSendMessage={onSendMessage}
+            onStop={onCancelRun}
             isLoading={isLoading}
             isDisabled={inputDisabled}
             disableReason={disableReason}
+            disableMessage={quotaMessage}
             onRequestAddSource={handleRequestAddSource}
           />
         </>
@@ -301,6 +348,7 @@ export const ChatArea = ({
         open={addSourceOpen}
         onOpenChange={handleAddSourceOpenChange}
         onAddSource={handleAddSource}
+        onAddFiles={onAddFileSource ? handleAddFileSource : undefined}
         promptMessage={addSourcePromptMessage}
       />
 
@@ -311,8 +359,13 @@ export const ChatArea = ({
         open={sourceDrawerOpen}
         onOpenChange={setSourceDrawerOpen}
         onRecrawl={onRecrawlSource}
+        onRetryFailed={onRetryFailedPages}
+        onCancel={onCancelCrawl}
+        onPause={onPauseCrawl}
+        onResume={onResumeCrawl}
         onRemove={handleRemoveSource}
         addingPageSourceId={addingPageSourceId}
+        highlightQuote={highlightQuote}
       />
 
       <SourcePreviewDrawer
@@ -1,31 +1,38 @@
 import { useState, useRef, useEffect, KeyboardEvent } from 'react';
-import { Send } from 'lucide-react';
+import { Send, Square } from 'lucide-react';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { cn } from '@/lib/utils';
 
-export type DisableReason = 'no_sources' | 'processing' | 'loading' | 'adding_page' | null;
+export type DisableReason = 'no_sources' | 'processing' | 'loading' | 'adding_page' | 'quota_exceeded' | null;
 
 interface ChatInputProps {
   onSendMessage: (message: string) => void;
+  /** While loading, replaces the send button with a stop button. */
+  onStop?: () => Promise<void>;
   isLoading: boolean;
   
   isDisabled?: boolean;
   
   disableReason?: DisableReason;
+  /** Shown under the input while it is disabled, e.g. which quota ran out and when it resets. */
+  disableMessage?: string;
   
   onRequestAddSource?: () => void;
 }
 
 export const ChatInput = ({
   onSendMessage,
+  onStop,
   isLoading,
   isDisabled = false,
   disableReason = null,
+  disableMessage,
   onRequestAddSource,
 }: ChatInputProps) => {
   const [message, setMessage] = useState('');
+  const [stopping, setStopping] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -46,6 +53,18 @@ export const ChatInput = ({
     }
   };
 
+  const handleStop = async () => {
+    if (!onStop || stopping) return;
+    setStopping(true);
+    try {
+      await onStop();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to stop the answer');
+    } finally {
+      setStopping(false);
+    }
+  };
+
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -57,6 +76,10 @@ export const ChatInput = ({
         toast.info('Wait for processing to finish', { duration: 3000 });
         return;
       }
+      if (disabled && disableReason === 'quota_exceeded') {
+        toast.error(disableMessage ?? 'Usage limit reached', { duration: 4000 });
+        return;
+      }
       handleSubmit();
     }
   };
@@ -79,20 +102,35 @@ export const ChatInput = ({
             )}
             rows={1}
           />
-          <Button
-            onClick={handleSubmit}
-            disabled={!message.trim() || disabled}
-            size="icon"
-            className={cn(
-              'shrink-0 h-10 w-10 rounded-xl transition-all',
-              message.trim() && !disabled
-                ? 'bg-primary text-primary-foreground hover:bg-primary/90'
-                : 'bg-muted text-muted-foreground cursor-not-allowed'
-            )}
-          >
-            <Send className="h-4 w-4" />
-          </Button>
+          {isLoading && onStop ? (
+            <Button
+              onClick={handleStop}
+              disabled={stopping}
+              size="icon"
+              title="Stop answering"
+              className="shrink-0 h-10 w-10 rounded-xl bg-primary text-primary-foreground hover:bg-primary/90"
+            >
+              <Square className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSubmit}
+              disabled={!message.trim() || disabled}
+              size="icon"
+              className={cn(
+                'shrink-0 h-10 w-10 rounded-xl transition-all',
+                message.trim() && !disabled
+                  ? 'bg-primary text-primary-foreground hover:bg-primary/90'
+                  : 'bg-muted text-muted-foreground cursor-not-allowed'
+              )}
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          )}
         </div>
+        {disableReason === 'quota_exceeded' && disableMessage && (
+          <p className="mt-2 px-2 text-xs text-destructive">{disableMessage}</p>
+        )}
       </div>
     </div>
   );
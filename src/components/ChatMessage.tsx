@@ -21,6 +21,7 @@ interface ChatMessageProps {
   isStreaming?: boolean;
   sources?: { id: string; domain: string }[];
   onQuoteClick?: (quote: Quote) => void;
+  onViewQuoteInSource?: (quote: Quote) => void;
   onSourceClick?: (sourceId: string) => void;
   onAddSuggestedPage?: (url: string, sourceId: string, questionToReask?: string, messageId?: string, scrapedPageDisplay?: string) => Promise<void>;
   conversationId?: string | null;
@@ -31,6 +32,7 @@ export const ChatMessage = ({
   followUp,
   isStreaming,
   onQuoteClick,
+  onViewQuoteInSource,
   onAddSuggestedPage,
   conversationId,
 }: ChatMessageProps) => {
@@ -105,7 +107,9 @@ export const ChatMessage = ({
                 </Tooltip>
               )}
             </div>
-            <CopyMessageButton message={message} className="h-8 w-8 shrink-0 opacity-70 hover:opacity-100" />
+            {!isStreaming && (
+              <CopyMessageButton message={message} className="h-8 w-8 shrink-0 opacity-70 hover:opacity-100" />
+            )}
           </div>
           <div className="prose prose-invert prose-sm max-w-none">
             <MessageContent 
@@ -120,7 +124,7 @@ export const ChatMessage = ({
 
           {}
           {!isUser && !isStreaming && quotes.length > 0 && onQuoteClick && (
-            <QuoteCardsList quotes={quotes} onQuoteClick={onQuoteClick} />
+            <QuoteCardsList quotes={quotes} onQuoteClick={onQuoteClick} onViewInSource={onViewQuoteInSource} />
           )}
 
           {}
@@ -170,7 +174,7 @@ export const ChatMessage = ({
                   />
                 </div>
                 {(followUp.quotes?.length ?? 0) > 0 && onQuoteClick && (
-                  <QuoteCardsList quotes={followUp.quotes ?? []} onQuoteClick={onQuoteClick} />
+                  <QuoteCardsList quotes={followUp.quotes ?? []} onQuoteClick={onQuoteClick} onViewInSource={onViewQuoteInSource} />
                 )}
                 {(followUp.quotes?.length ?? 0) > 0 && onQuoteClick && (
                   <CitedPages quotes={followUp.quotes ?? []} onQuoteClick={onQuoteClick} />
@@ -6,6 +6,8 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { EncodingProgressBar, getEncodingPhase } from './EncodingProgressBar';
+import type { UsageSummary } from '@/lib/db/types';
+import { formatCostUsd, formatTokenCount } from '@shared/usagePricing';
 
 interface CrawlStatsProps {
   pagesDiscovered: number;
@@ -13,6 +15,7 @@ interface CrawlStatsProps {
   targetPages: number;
   isCrawling: boolean;
   isIndexing?: boolean;
+  isPaused?: boolean;
   isDynamic?: boolean;
   isResponding?: boolean;
   encodedDiscoveredCount?: number;
@@ -20,6 +23,7 @@ interface CrawlStatsProps {
   encodingChunksTotal?: number;
   encodingDiscoveredDone?: number;
   encodingDiscoveredTotal?: number;
+  usage?: UsageSummary | null;
 }
 
 export const CrawlStats = ({
@@ -28,6 +32,7 @@ export const CrawlStats = ({
   targetPages,
   isCrawling,
   isIndexing = false,
+  isPaused = false,
   isDynamic = false,
   isResponding = false,
   encodedDiscoveredCount = 0,
@@ -35,8 +40,9 @@ export const CrawlStats = ({
   encodingChunksTotal = 0,
   encodingDiscoveredDone = 0,
   encodingDiscoveredTotal = 0,
+  usage = null,
 }: CrawlStatsProps) => {
-  const phase = getEncodingPhase(isCrawling, isIndexing, encodingChunksTotal, encodingChunksDone, encodingDiscoveredTotal);
+  const phase = getEncodingPhase(isCrawling, isIndexing, encodingChunksTotal, encodingChunksDone, encodingDiscoveredTotal, isPaused);
   const isEncodingDiscoveredPhase = phase === 'encoding-discovered';
 
   return (
@@ -92,7 +98,7 @@ export const CrawlStats = ({
       </TooltipProvider>
 
       {}
-      {(isCrawling || isIndexing || isResponding) && targetPages > 0 && (
+      {(isCrawling || isIndexing || isResponding || isPaused) && targetPages > 0 && (
         <EncodingProgressBar
           crawlDone={pagesIndexed}
           crawlTotal={targetPages}
@@ -106,6 +112,21 @@ export const CrawlStats = ({
           isResponding={isResponding}
         />
       )}
+
+      {usage && usage.call_count > 0 && (
+        <TooltipProvider delayDuration={300}>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <p className="text-[10px] text-muted-foreground text-center cursor-help">
+                {formatTokenCount(usage.prompt_tokens + usage.completion_tokens)} tokens · {formatCostUsd(usage.cost_usd)}
+              </p>
+            </TooltipTrigger>
+            <TooltipContent side="top" className="max-w-[220px]">
+              <p className="text-xs">Embedding tokens spent on this source&apos;s chunks and links, with the estimated cost.</p>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+      )}
     </div>
   );
 };
@@ -1,6 +1,6 @@
 import { cn } from '@/lib/utils';
 
-export type EncodingPhase = 'crawl' | 'indexing-chunks' | 'encoding-discovered' | 'idle';
+export type EncodingPhase = 'crawl' | 'indexing-chunks' | 'encoding-discovered' | 'paused' | 'idle';
 
 
 export function getEncodingPhase(
@@ -8,8 +8,10 @@ export function getEncodingPhase(
   isIndexing: boolean,
   encChunksTotal: number,
   encChunksDone: number,
-  encDiscoveredTotal: number
+  encDiscoveredTotal: number,
+  isPaused = false
 ): EncodingPhase {
+  if (isPaused) return 'paused';
   if (isCrawling && !isIndexing) return 'crawl';
   if (!isIndexing) return 'idle';
   if (encChunksTotal > 0 && encChunksDone < encChunksTotal) return 'indexing-chunks';
@@ -26,6 +28,7 @@ export function getEncodingStatusLabel(
   isIndexingFromJob: boolean,
   isDynamic: boolean
 ): string {
+  if (phase === 'paused') return 'Paused';
   if (isAddPageResponding) return 'Responding…';
   if (isAddPageIndexing) return 'Scraping Page';
   if (isAddPageEncoding || isIndexingFromJob) {
@@ -80,7 +83,7 @@ export function EncodingProgressBar({
 
   
   const showFullBar = isResponding;
-  const crawlWidth = showFullBar ? 1 : phase === 'crawl' ? crawlPct : phase !== 'idle' ? 1 : 0;
+  const crawlWidth = showFullBar ? 1 : phase === 'crawl' || phase === 'paused' ? crawlPct : phase !== 'idle' ? 1 : 0;
   
   const chunksWidth = showFullBar
     ? 1
@@ -104,7 +107,10 @@ export function EncodingProgressBar({
       >
         {}
         <div
-          className="absolute inset-y-0 left-0 bg-primary/40 rounded-full transition-all duration-300"
+          className={cn(
+            'absolute inset-y-0 left-0 rounded-full transition-all duration-300',
+            phase === 'paused' ? 'bg-muted-foreground/40' : 'bg-primary/40'
+          )}
           style={{ width: `${crawlWidth * 100}%` }}
         />
         {}
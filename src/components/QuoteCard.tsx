@@ -1,16 +1,18 @@
 import { Quote } from '@/types/source';
 import { cn } from '@/lib/utils';
 import { cleanPageTitleForDisplay } from '@/lib/sourceDisplay';
-import { ExternalLink } from 'lucide-react';
+import { ExternalLink, TextSearch } from 'lucide-react';
 
 interface QuoteCardProps {
   quote: Quote;
   refNumber?: number;
   onClick: () => void;
+  onViewInSource?: () => void;
 }
 
-export const QuoteCard = ({ quote, refNumber, onClick }: QuoteCardProps) => {
+export const QuoteCard = ({ quote, refNumber, onClick, onViewInSource }: QuoteCardProps) => {
   const initial = quote.domain.charAt(0).toUpperCase();
+  const hasSpan = quote.startIndex != null && quote.endIndex != null;
 
   return (
     <button
@@ -48,7 +50,31 @@ export const QuoteCard = ({ quote, refNumber, onClick }: QuoteCardProps) => {
             <span className="font-medium text-foreground/70">{quote.domain}</span>
             <span className="text-muted-foreground/50">•</span>
             <span className="truncate">{cleanPageTitleForDisplay(quote.pageTitle, quote.domain)}</span>
-            <ExternalLink className="h-3 w-3 ml-auto opacity-0 group-hover:opacity-100 transition-opacity" />
+            {quote.pageNumber != null && (
+              <span className="shrink-0 tabular-nums">p. {quote.pageNumber}</span>
+            )}
+            {hasSpan && onViewInSource && (
+              <span
+                role="button"
+                tabIndex={0}
+                title="Show in page"
+                aria-label="Show quoted passage in page"
+                className="ml-auto shrink-0 rounded p-0.5 hover:text-primary"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onViewInSource();
+                }}
+                onKeyDown={(e) => {
+                  if (e.key !== 'Enter' && e.key !== ' ') return;
+                  e.preventDefault();
+                  e.stopPropagation();
+                  onViewInSource();
+                }}
+              >
+                <TextSearch className="h-3.5 w-3.5" />
+              </span>
+            )}
+            <ExternalLink className={cn('h-3 w-3 opacity-0 group-hover:opacity-100 transition-opacity', !(hasSpan && onViewInSource) && 'ml-auto')} />
           </div>
         </div>
       </div>
@@ -59,9 +85,10 @@ export const QuoteCard = ({ quote, refNumber, onClick }: QuoteCardProps) => {
 interface QuoteCardsListProps {
   quotes: Quote[];
   onQuoteClick: (quote: Quote) => void;
+  onViewInSource?: (quote: Quote) => void;
 }
 
-export const QuoteCardsList = ({ quotes, onQuoteClick }: QuoteCardsListProps) => {
+export const QuoteCardsList = ({ quotes, onQuoteClick, onViewInSource }: QuoteCardsListProps) => {
   if (quotes.length === 0) return null;
 
   return (
@@ -76,6 +103,7 @@ export const QuoteCardsList = ({ quotes, onQuoteClick }: QuoteCardsListProps) =>
             quote={quote}
             refNumber={i + 1}
             onClick={() => onQuoteClick(quote)}
+            onViewInSource={onViewInSource ? () => onViewInSource(quote) : undefined}
           />
         ))}
       </div>
@@ -15,6 +15,7 @@ interface RecrawlConfirmModalProps {
   onConfirm: () => void | Promise<void>;
   sourceLabel?: string;
   isRecrawling?: boolean;
+  lastRunStats?: { changed: number; unchanged: number } | null;
 }
 
 export function RecrawlConfirmModal({
@@ -23,6 +24,7 @@ export function RecrawlConfirmModal({
   onConfirm,
   sourceLabel = 'this source',
   isRecrawling = false,
+  lastRunStats = null,
 }: RecrawlConfirmModalProps) {
   const handleConfirm = async (e: React.MouseEvent) => {
     e.preventDefault();
@@ -36,9 +38,14 @@ export function RecrawlConfirmModal({
         <AlertDialogHeader>
           <AlertDialogTitle>Recrawl {sourceLabel}?</AlertDialogTitle>
           <AlertDialogDescription>
-            This will clear the current graph and start a fresh crawl. Recrawling consumes credits.
-            Are you sure you want to continue?
+            This will re-fetch the source's pages. Only pages whose text changed are re-indexed.
+            Recrawling consumes credits. Are you sure you want to continue?
           </AlertDialogDescription>
+          {lastRunStats && (
+            <p className="text-xs text-muted-foreground">
+              Last crawl: {lastRunStats.changed} {lastRunStats.changed === 1 ? 'page' : 'pages'} changed / {lastRunStats.unchanged} unchanged
+            </p>
+          )}
         </AlertDialogHeader>
         <AlertDialogFooter>
           <AlertDialogCancel disabled={isRecrawling}>Cancel</AlertDialogCancel>
@@ -21,6 +21,8 @@ import { Settings, Trash2 } from 'lucide-react';
 import { useCopyIncludeEvidence } from '@/hooks/useCopyIncludeEvidence';
 import { useSuggestedPageCandidates } from '@/hooks/useSuggestedPageCandidates';
 import { useDeleteAllConversations } from '@/hooks/useConversations';
+import { useMonthlyUsage } from '@/hooks/useUsage';
+import { formatCostUsd, formatTokenCount } from '@shared/usagePricing';
 import { useState } from 'react';
 import { toast } from 'sonner';
 
@@ -37,6 +39,7 @@ export const SettingsSheet = ({
   const { suggestedPageCandidates, setSuggestedPageCandidates } = useSuggestedPageCandidates();
   const [deleteAllOpen, setDeleteAllOpen] = useState(false);
   const deleteAllMutation = useDeleteAllConversations();
+  const { data: monthlyUsage, isLoading: usageLoading } = useMonthlyUsage(open !== false);
 
   const handleWithEvidence = () => setCopyIncludeEvidence(true);
   const handleWithoutEvidence = () => setCopyIncludeEvidence(false);
@@ -106,6 +109,32 @@ export const SettingsSheet = ({
               </Button>
             </div>
           </div>
+          <div className="space-y-2 pt-4 border-t border-border">
+            <Label>Usage this month</Label>
+            <p className="text-sm text-muted-foreground">
+              Model and embedding tokens across your conversations and sources, with the estimated OpenAI cost.
+            </p>
+            {usageLoading ? (
+              <p className="text-sm text-muted-foreground">Loading…</p>
+            ) : monthlyUsage ? (
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="rounded-md border border-border/50 p-2">
+                  <div className="text-sm font-mono font-semibold">{formatTokenCount(monthlyUsage.prompt_tokens)}</div>
+                  <div className="text-[10px] text-muted-foreground uppercase tracking-wider">Input</div>
+                </div>
+                <div className="rounded-md border border-border/50 p-2">
+                  <div className="text-sm font-mono font-semibold">{formatTokenCount(monthlyUsage.completion_tokens)}</div>
+                  <div className="text-[10px] text-muted-foreground uppercase tracking-wider">Output</div>
+                </div>
+                <div className="rounded-md border border-border/50 p-2">
+                  <div className="text-sm font-mono font-semibold">{formatCostUsd(monthlyUsage.cost_usd)}</div>
+                  <div className="text-[10px] text-muted-foreground uppercase tracking-wider">Est. cost</div>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Usage is unavailable.</p>
+            )}
+          </div>
           <div className="space-y-2 pt-4 border-t border-border">
             <Label>Data</Label>
             <p className="text-sm text-muted-foreground">
@@ -28,6 +28,9 @@ interface SidebarProps {
   onDeleteConversation: (id: string) => void;
   currentSources?: import('@/types/source').Source[];
   addingPageSourceId?: string | null;
+  onCancelCrawl?: (sourceId: string) => Promise<void>;
+  onPauseCrawl?: (sourceId: string) => Promise<void>;
+  onResumeCrawl?: (sourceId: string) => Promise<void>;
 }
 
 export const Sidebar = ({
@@ -40,6 +43,9 @@ export const Sidebar = ({
   onDeleteConversation,
   currentSources = [],
   addingPageSourceId,
+  onCancelCrawl,
+  onPauseCrawl,
+  onResumeCrawl,
 }: SidebarProps) => {
   const groupedConversations = useMemo(() => {
     const today = new Date();
@@ -142,7 +148,14 @@ export const Sidebar = ({
         </ScrollArea>
 
         {}
-        <SidebarCrawlPanel sources={currentSources} conversationId={activeConversationId} addingPageSourceId={addingPageSourceId} />
+        <SidebarCrawlPanel
+          sources={currentSources}
+          conversationId={activeConversationId}
+          addingPageSourceId={addingPageSourceId}
+          onCancelCrawl={onCancelCrawl}
+          onPauseCrawl={onPauseCrawl}
+          onResumeCrawl={onResumeCrawl}
+        />
 
         {}
         <UserMenu />
@@ -8,13 +8,15 @@ import { useConversationSources } from '@/hooks/useConversationSources';
 import { useAddPageJob } from '@/hooks/useAddPageJob';
 import { crawlJobsApi, discoveredLinksApi } from '@/lib/db';
 import type { CrawlJob, PageEdge } from '@/lib/db/types';
+import { crawlTargetPages } from '@/lib/sourceScope';
+import { normalizeUrl, pageUrlAliases, urlIdentityKey } from '@shared/urlIdentity';
 import {
   LATEST_MAIN_CRAWL_JOB_BY_SOURCES,
   COUNTS_OF_DISCOVERED_LINKS_BY_CONVERSATION,
   ENCODED_COUNTS_OF_DISCOVERED_LINKS_BY_CONVERSATION,
 } from '@/lib/queryKeys';
 import { useQuery } from '@tanstack/react-query';
-import { Zap, Waves, Anchor } from 'lucide-react';
+import { Zap, Waves, Anchor, Square, Pause, Play } from 'lucide-react';
 import {
   Tooltip,
   TooltipContent,
@@ -28,10 +30,14 @@ interface SidebarCrawlPanelProps {
   className?: string;
   conversationId?: string | null;
   addingPageSourceId?: string | null;
+  onCancelCrawl?: (sourceId: string) => Promise<void>;
+  onPauseCrawl?: (sourceId: string) => Promise<void>;
+  onResumeCrawl?: (sourceId: string) => Promise<void>;
 }
 
-export const SidebarCrawlPanel = ({ sources, className, conversationId, addingPageSourceId }: SidebarCrawlPanelProps) => {
+export const SidebarCrawlPanel = ({ sources, className, conversationId, addingPageSourceId, onCancelCrawl, onPauseCrawl, onResumeCrawl }: SidebarCrawlPanelProps) => {
   const [activeSourceId, setActiveSourceId] = useState<string | null>(null);
+  const [isUpdatingJobs, setIsUpdatingJobs] = useState(false);
 
   const sourceIds = useMemo(() => sources.map(s => s.id), [sources]);
   const sourceIdsKey = useMemo(() => sourceIds.slice().sort().join(','), [sourceIds]);
@@ -58,17 +64,6 @@ export const SidebarCrawlPanel = ({ sources, className, conversationId, addingPa
   } else {
     prevAddingRef.current = null;
   }
-  const normalizeUrlForSeedMatch = (url: string) => {
-    try {
-      const u = new URL(url.startsWith('http') ? url : `https://${url}`);
-      u.hash = '';
-      u.search = '';
-      if (u.pathname.endsWith('/') && u.pathname !== '/') u.pathname = u.pathname.slice(0, -1);
-      return u.toString();
-    } catch {
-      return url;
-    }
-  };
 
   const activeSourceForSeed = activeSourceId ? sources.find((s) => s.id === activeSourceId) : null;
   const sourcePagesForActive = useMemo(
@@ -77,15 +72,15 @@ export const SidebarCrawlPanel = ({ sources, className, conversationId, addingPa
   );
   const seedPageFromConversation = useMemo(() => {
     if (!activeSourceForSeed?.initial_url || pages.length === 0) return null;
-    const norm = normalizeUrlForSeedMatch(activeSourceForSeed.initial_url);
-    let found = pages.find((p) => p.url && normalizeUrlForSeedMatch(p.url) === norm);
+    const norm = normalizeUrl(activeSourceForSeed.initial_url);
+    let found = pages.find((p) => pageUrlAliases(p).some((u) => normalizeUrl(u) === norm));
     if (!found && norm) {
       try {
         const seedPath = new URL(norm).pathname;
         found = pages.find((p) => {
           if (!p.url) return false;
           try {
-            return new URL(normalizeUrlForSeedMatch(p.url)).pathname === seedPath;
+            return new URL(normalizeUrl(p.url)).pathname === seedPath;
           } catch {
             return false;
           }
@@ -154,16 +149,18 @@ export const SidebarCrawlPanel = ({ sources, className, conversationId, addingPa
           status = 'crawling';
         } else if (crawlJob.status === 'queued' || crawlJob.status === 'running' || crawlJob.status === 'indexing') {
           status = 'crawling';
+        } else if (crawlJob.status === 'paused') {
+          status = 'paused';
         } else if (crawlJob.status === 'failed') {
           status = 'error';
-        } else if (crawlJob.status === 'completed') {
+        } else if (crawlJob.status === 'completed' || crawlJob.status === 'cancelled') {
           status = 'ready';
         }
         const jobIndexed = (crawlJob as CrawlJob).indexed_count ?? 0;
         pagesIndexed = sourcePages.length;
         
         
-        const maxPagesForDepth = source.crawlDepth === 'dynamic' || source.crawlDepth === 'singular' ? 1 : source.crawlDepth === 'shallow' ? 5 : source.crawlDepth === 'medium' ? 15 : 35;
+        const maxPagesForDepth = crawlTargetPages(source, crawlJob as CrawlJob);
         if (source.crawlDepth === 'dynamic') {
           if (addingPageSourceId === source.id) {
             const jobDone = addPageJob?.status === 'encoding' || addPageJob?.status === 'completed';
@@ -233,6 +230,18 @@ export const SidebarCrawlPanel = ({ sources, className, conversationId, addingPa
   );
   
   const isCrawling = crawlingSources.length > 0 || !!addingPageSourceId;
+  const isPaused = !isCrawling && displaySources.some(s => s.status === 'paused');
+  const runningSourceIds = displaySources.filter(s => s.status === 'crawling').map(s => s.id);
+  const pausedSourceIds = displaySources.filter(s => s.status === 'paused').map(s => s.id);
+  const updateJobs = async (sourceIds: string[], run?: (sourceId: string) => Promise<void>) => {
+    if (!run || sourceIds.length === 0) return;
+    setIsUpdatingJobs(true);
+    try {
+      await Promise.all(sourceIds.map(id => run(id)));
+    } finally {
+      setIsUpdatingJobs(false);
+    }
+  };
   const isIndexingFromJob = displaySources.some(s => crawlJobMap.get(s.id)?.status === 'indexing');
   const isAddingPageFlow = !!addingPageSourceId && displaySources.some(s => s.id === addingPageSourceId);
   const addPagePhase = addPageJob?.status;
@@ -257,7 +266,8 @@ export const SidebarCrawlPanel = ({ sources, className, conversationId, addingPa
     isIndexingFromJob || isAddPageEncoding,
     encChunksTotal,
     encChunksDone,
-    encDiscoveredTotal
+    encDiscoveredTotal,
+    isPaused
   );
   const statusLabel = getEncodingStatusLabel(
     encodingPhase,
@@ -279,7 +289,8 @@ export const SidebarCrawlPanel = ({ sources, className, conversationId, addingPa
     title: p.title || 'Untitled',
     path: p.path,
     status: (p.status || 'indexed') as 'indexed' | 'crawling' | 'pending' | 'error',
-    url: p.url, 
+    url: p.url,
+    aliases: pageUrlAliases(p),
   }));
   if (activeSourceId && seedPageFromConversation && !displayPages.some((p) => p.id === seedPageFromConversation.id)) {
     displayPages = [
@@ -290,6 +301,7 @@ export const SidebarCrawlPanel = ({ sources, className, conversationId, addingPa
         path: seedPageFromConversation.path,
         status: 'indexed' as const,
         url: seedPageFromConversation.url ?? undefined,
+        aliases: pageUrlAliases(seedPageFromConversation),
       },
     ];
   }
@@ -298,25 +310,11 @@ export const SidebarCrawlPanel = ({ sources, className, conversationId, addingPa
     const startingSource = activeSource ?? displaySources[0];
     const startingUrl = startingSource.initial_url;
     
-    const normalizeForSort = (url: string) => {
-      if (!url) return '';
-      try {
-        const u = new URL(url);
-        u.hash = '';
-        u.search = '';
-        if (u.pathname !== '/' && u.pathname.endsWith('/')) {
-          u.pathname = u.pathname.slice(0, -1);
-        }
-        return u.toString().toLowerCase();
-      } catch {
-        return url.toLowerCase();
-      }
-    };
-    const normalizedStartingUrl = normalizeForSort(startingUrl);
+    const normalizedStartingUrl = urlIdentityKey(startingUrl);
     
     displayPages.sort((a, b) => {
-      const aUrl = normalizeForSort(a.url || '');
-      const bUrl = normalizeForSort(b.url || '');
+      const aUrl = urlIdentityKey(a.url || '');
+      const bUrl = urlIdentityKey(b.url || '');
       const aIsStart = aUrl === normalizedStartingUrl;
       const bIsStart = bUrl === normalizedStartingUrl;
       if (aIsStart && !bIsStart) return -1;
@@ -336,6 +334,7 @@ export const SidebarCrawlPanel = ({ sources, className, conversationId, addingPa
       path: path,
       status: 'crawling' as const,
       url: sourceUrl,
+      aliases: [],
     }];
   }
   const displayPagesForGraph = useMemo(
@@ -380,10 +379,43 @@ export const SidebarCrawlPanel = ({ sources, className, conversationId, addingPa
               <span className="text-[10px] font-medium text-muted-foreground uppercase tracking-wider">
                 {activeDisplayName ?? 'All Sources'}
               </span>
-              {isCrawling && (
-                <span className="text-[10px] text-primary flex items-center gap-1">
-                  <span className="w-1.5 h-1.5 rounded-full bg-primary animate-pulse" />
+              {(isCrawling || isPaused) && (
+                <span className={cn('text-[10px] flex items-center gap-1', isPaused ? 'text-muted-foreground' : 'text-primary')}>
+                  <span className={cn('w-1.5 h-1.5 rounded-full', isPaused ? 'bg-muted-foreground' : 'bg-primary animate-pulse')} />
                   {statusLabel}
+                  {onPauseCrawl && runningSourceIds.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => updateJobs(runningSourceIds, onPauseCrawl)}
+                      disabled={isUpdatingJobs}
+                      title="Pause crawl"
+                      className="p-0.5 rounded text-muted-foreground hover:text-foreground hover:bg-secondary/70 disabled:opacity-50"
+                    >
+                      <Pause className="h-2.5 w-2.5" />
+                    </button>
+                  )}
+                  {onResumeCrawl && pausedSourceIds.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => updateJobs(pausedSourceIds, onResumeCrawl)}
+                      disabled={isUpdatingJobs}
+                      title="Resume crawl"
+                      className="p-0.5 rounded text-muted-foreground hover:text-foreground hover:bg-secondary/70 disabled:opacity-50"
+                    >
+                      <Play className="h-2.5 w-2.5" />
+                    </button>
+                  )}
+                  {onCancelCrawl && runningSourceIds.length + pausedSourceIds.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => updateJobs([...runningSourceIds, ...pausedSourceIds], onCancelCrawl)}
+                      disabled={isUpdatingJobs}
+                      title="Cancel crawl"
+                      className="p-0.5 rounded text-muted-foreground hover:text-destructive hover:bg-destructive/10 disabled:opacity-50"
+                    >
+                      <Square className="h-2.5 w-2.5" />
+                    </button>
+                  )}
                 </span>
               )}
             </div>
@@ -450,7 +482,7 @@ export const SidebarCrawlPanel = ({ sources, className, conversationId, addingPa
               </div>
             </TooltipProvider>
 
-            {((isCrawling && !activeSource) || isAddingPageFlow) && (progressSources.reduce((sum, s) => sum + s.totalPages, 0) || 1) > 0 ? (
+            {((isCrawling && !activeSource) || isAddingPageFlow || isPaused) && (progressSources.reduce((sum, s) => sum + s.totalPages, 0) || 1) > 0 ? (
               <EncodingProgressBar
                 crawlDone={scrapedPagesCount}
                 crawlTotal={progressSources.reduce((sum, s) => sum + s.totalPages, 0) || 1}
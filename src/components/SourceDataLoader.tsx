@@ -5,8 +5,10 @@
 
 import { usePages } from '@/hooks/usePages';
 import { useCrawlJob } from '@/hooks/useCrawlJobs';
-import type { Source as DBSource, Page } from '@/lib/db/types';
+import type { Source as DBSource, PageSummary } from '@/lib/db/types';
 import type { Source, DiscoveredPage } from '@/types/source';
+import { getSourceRefreshFields } from '@/lib/sourceRefresh';
+import { getSourceScopeFields } from '@/lib/sourceScope';
 
 interface SourceDataLoaderProps {
   source: DBSource;
@@ -23,6 +25,7 @@ export const SourceDataLoader = ({ source, onDataLoaded }: SourceDataLoaderProps
     initial_url: source.initial_url,
     domain: source.domain,
     status: crawlJob?.status === 'queued' || crawlJob?.status === 'running' ? 'crawling' 
+      : crawlJob?.status === 'paused' ? 'paused'
       : crawlJob?.status === 'failed' ? 'error' 
       : 'ready',
     crawlDepth: source.crawl_depth,
@@ -31,12 +34,14 @@ export const SourceDataLoader = ({ source, onDataLoaded }: SourceDataLoaderProps
     pagesIndexed: crawlJob?.indexed_count ?? 0,
     totalPages: crawlJob?.total_pages || pages.length || 0,
     lastUpdated: new Date(source.updated_at),
-    discoveredPages: pages.map((p: Page) => ({
+    kind: source.kind ?? 'web',
+    ...getSourceScopeFields(source),
+    ...getSourceRefreshFields(source),
+    discoveredPages: pages.map((p: PageSummary) => ({
       id: p.id,
       title: p.title || 'Untitled',
       path: p.path,
       status: p.status as DiscoveredPage['status'],
-      content: p.content || undefined,
     })),
   };
 
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Source } from '@/types/source';
+import { Quote, Source } from '@/types/source';
 import { getSourceDisplayLabel } from '@/lib/sourceDisplay';
 import { RecrawlConfirmModal } from './RecrawlConfirmModal';
 import {
@@ -12,16 +12,21 @@ import {
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { RefreshCw, Trash2, Check, Loader2, Clock, AlertTriangle, ExternalLink, Zap, Waves, Anchor } from 'lucide-react';
+import { RefreshCw, Trash2, Square, Pause, Play, Check, Loader2, Clock, AlertTriangle, ExternalLink, Zap, Waves, Anchor } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { ForceGraph } from './graph';
 import { CrawlStats } from './CrawlStats';
 import { getEncodingStatusLabel, getEncodingPhase } from './EncodingProgressBar';
 import { useEffect, useMemo, useRef } from 'react';
-import { useConversationPages, useConversationGraphEdges } from '@/hooks/usePages';
-import { crawlJobsApi, discoveredLinksApi } from '@/lib/db';
+import { usePages, useConversationPages, useConversationGraphEdges, usePageContent } from '@/hooks/usePages';
+import { crawlJobsApi, discoveredLinksApi, sourceFilesApi } from '@/lib/db';
 import type { CrawlJob, PageEdge } from '@/lib/db/types';
 import { useAddPageJob } from '@/hooks/useAddPageJob';
+import { useSourceUsage } from '@/hooks/useUsage';
+import { useUpdateSourceRefreshInterval } from '@/hooks/useConversationSources';
+import { REFRESH_INTERVAL_OPTIONS } from '@/lib/sourceRefresh';
+import { crawlTargetPages, formatCrawlBudget } from '@/lib/sourceScope';
+import { normalizeUrl, pageUrlAliases } from '@shared/urlIdentity';
 import {
   LATEST_MAIN_CRAWL_JOB_BY_SOURCES,
   COUNT_OF_DISCOVERED_LINKS_BY_SOURCE,
@@ -38,8 +43,13 @@ interface SourceDrawerProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onRecrawl: (sourceId: string) => void | Promise<void>;
+  onRetryFailed?: (sourceId: string) => Promise<void>;
+  onCancel?: (sourceId: string) => Promise<void>;
+  onPause?: (sourceId: string) => Promise<void>;
+  onResume?: (sourceId: string) => Promise<void>;
   onRemove: (sourceId: string) => void;
   addingPageSourceId?: string | null;
+  highlightQuote?: Quote | null;
 }
 
 const getStatusBadge = (
@@ -59,6 +69,8 @@ const getStatusBadge = (
       return <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/30">Error</Badge>;
     case 'outdated':
       return <Badge variant="outline" className="bg-amber-500/10 text-amber-400 border-amber-500/30">Outdated</Badge>;
+    case 'paused':
+      return <Badge variant="outline" className="bg-muted text-muted-foreground border-border">Paused</Badge>;
   }
 };
 
@@ -77,6 +89,23 @@ const getPageStatusIcon = (status: string) => {
   }
 };
 
+const QuotedPassage = ({ content, start, end }: { content: string; start: number; end: number }) => {
+  const markRef = useRef<HTMLElement>(null);
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ block: 'center' });
+  }, [content, start, end]);
+
+  return (
+    <div className="max-h-[220px] overflow-y-auto rounded-lg border border-border/50 bg-background/50 p-3 text-xs leading-relaxed text-muted-foreground whitespace-pre-wrap">
+      {content.slice(0, start)}
+      <mark ref={markRef} className="rounded-sm bg-primary/25 text-foreground px-0.5">
+        {content.slice(start, end)}
+      </mark>
+      {content.slice(end)}
+    </div>
+  );
+};
+
 const getDepthLabel = (depth: string) => {
   switch (depth) {
     case 'dynamic': return 'Dynamic';
@@ -95,11 +124,18 @@ export const SourceDrawer = ({
   open,
   onOpenChange,
   onRecrawl,
+  onRetryFailed,
+  onCancel,
+  onPause,
+  onResume,
   onRemove,
   addingPageSourceId,
+  highlightQuote,
 }: SourceDrawerProps) => {
   const [recrawlModalOpen, setRecrawlModalOpen] = useState(false);
   const [isRecrawling, setIsRecrawling] = useState(false);
+  const [isRetryingFailed, setIsRetryingFailed] = useState(false);
+  const [pendingJobAction, setPendingJobAction] = useState<'cancel' | 'pause' | 'resume' | null>(null);
   const displayName = source ? getSourceDisplayLabel(source) : '';
   const initial = displayName.charAt(0).toUpperCase() || '';
   const sourceIds = useMemo(
@@ -120,6 +156,8 @@ export const SourceDrawer = ({
     [allCrawlJobs, source?.id]
   );
 
+  const updateRefreshInterval = useUpdateSourceRefreshInterval();
+
   const { data: addPageJob } = useAddPageJob(conversationId ?? null, addingPageSourceId === source?.id ? source?.id ?? null : null);
 
   const crawlJob = useMemo(() => {
@@ -135,13 +173,15 @@ export const SourceDrawer = ({
     if (addingPageSourceId === source.id) return 'crawling';
     if (crawlJob) {
       if (crawlJob.status === 'queued' || crawlJob.status === 'running' || crawlJob.status === 'indexing') return 'crawling';
+      if (crawlJob.status === 'paused') return 'paused';
       if (crawlJob.status === 'failed') return 'error';
-      if (crawlJob.status === 'completed') return 'ready';
+      if (crawlJob.status === 'completed' || crawlJob.status === 'cancelled') return 'ready';
     }
     return source.status || 'crawling';
   }, [source, crawlJob, addingPageSourceId]);
 
   const isIndexing = crawlJob?.status === 'indexing' || addPageJob?.status === 'encoding';
+  const { data: sourceUsage } = useSourceUsage(open ? source?.id ?? null : null, realStatus === 'crawling' || isIndexing);
   const isAddPageIndexing = addingPageSourceId === source?.id && addPageJob?.status === 'indexing';
   const isAddPageEncoding = addingPageSourceId === source?.id && addPageJob?.status === 'encoding';
   const isAddPageResponding = addingPageSourceId === source?.id && addPageJob?.status === 'completed';
@@ -155,7 +195,8 @@ export const SourceDrawer = ({
     isIndexing,
     encChunksTotal,
     encChunksDone,
-    encDiscoveredTotal
+    encDiscoveredTotal,
+    realStatus === 'paused'
   );
   const statusLabel = getEncodingStatusLabel(
     encodingPhase,
@@ -166,6 +207,16 @@ export const SourceDrawer = ({
     source?.crawlDepth === 'dynamic'
   );
 
+  const runJobAction = async (action: 'cancel' | 'pause' | 'resume', run: (sourceId: string) => Promise<void>) => {
+    if (!source) return;
+    setPendingJobAction(action);
+    try {
+      await run(source.id);
+    } finally {
+      setPendingJobAction(null);
+    }
+  };
+
   const graphConversationId = conversationId;
 
   const { data: allPages = [], isLoading: pagesLoading } = useConversationPages(graphConversationId);
@@ -194,30 +245,35 @@ export const SourceDrawer = ({
 
   const sourcePageIds = useMemo(() => sourcePages.map(p => p.id), [sourcePages]);
 
+  const { data: pagesForSource = [] } = usePages(source?.kind === 'file' ? null : source?.id ?? null);
+  const failedPages = useMemo(() => pagesForSource.filter(p => p.status === 'error'), [pagesForSource]);
+
+  const hasQuoteSpan = highlightQuote?.startIndex != null && highlightQuote.endIndex != null;
+  const { data: highlightPage } = usePageContent(hasQuoteSpan ? highlightQuote.pageId : null);
+  const highlight = useMemo(() => {
+    if (!highlightQuote || highlightQuote.startIndex == null || highlightQuote.endIndex == null) return null;
+    if (highlightPage?.id !== highlightQuote.pageId) return null;
+    const content = highlightPage.content ?? '';
+    if (highlightQuote.endIndex > content.length || highlightQuote.startIndex >= highlightQuote.endIndex) return null;
+    // A recrawl may have changed the page since the quote was saved; only highlight if the span still matches.
+    const span = content.slice(highlightQuote.startIndex, highlightQuote.endIndex);
+    if (!highlightQuote.snippet.includes(span.trim()) && !span.includes(highlightQuote.snippet)) return null;
+    return { pageId: highlightQuote.pageId, content, start: highlightQuote.startIndex, end: highlightQuote.endIndex };
+  }, [highlightQuote, highlightPage]);
+
   
   
-  const normalizeUrlForSeedMatch = (url: string) => {
-    try {
-      const u = new URL(url.startsWith('http') ? url : `https://${url}`);
-      u.hash = '';
-      u.search = '';
-      if (u.pathname.endsWith('/') && u.pathname !== '/') u.pathname = u.pathname.slice(0, -1);
-      return u.toString();
-    } catch {
-      return url;
-    }
-  };
   const seedPageFromConversation = useMemo(() => {
     if (!source?.initial_url || allPages.length === 0) return null;
-    const norm = normalizeUrlForSeedMatch(source.initial_url);
-    let found = allPages.find((p) => p.url && normalizeUrlForSeedMatch(p.url) === norm);
+    const norm = normalizeUrl(source.initial_url);
+    let found = allPages.find((p) => pageUrlAliases(p).some((u) => normalizeUrl(u) === norm));
     if (!found && norm) {
       try {
         const seedPath = new URL(norm).pathname;
         found = allPages.find((p) => {
           if (!p.url) return false;
           try {
-            return new URL(normalizeUrlForSeedMatch(p.url)).pathname === seedPath;
+            return new URL(normalizeUrl(p.url)).pathname === seedPath;
           } catch {
             return false;
           }
@@ -272,7 +328,7 @@ export const SourceDrawer = ({
 
   
   
-  const stablePagesRef = useRef<Map<string, { id: string; title: string | null; path: string; status: string; url: string | null; source_id: string }>>(new Map());
+  const stablePagesRef = useRef<Map<string, { id: string; title: string | null; path: string; status: string; url: string | null; source_id: string; storage_path?: string | null }>>(new Map());
   const prevSourceIdRef = useRef<string | null>(null);
   const prevCrawlStatusRef = useRef<string | null>(null);
   if (source?.id !== prevSourceIdRef.current) {
@@ -296,6 +352,7 @@ export const SourceDrawer = ({
       status: p.status ?? 'indexed',
       url,
       source_id: p.source_id,
+      storage_path: p.storage_path,
     });
   });
   const stablePagesForGraph = useMemo(
@@ -319,6 +376,7 @@ export const SourceDrawer = ({
   
   const maxPagesForDepth = useMemo(() => {
     if (!source) return 0;
+    if (source.kind === 'file') return Math.max(sourcePages.length, source.totalPages);
     if (source.crawlDepth === 'dynamic') {
       if (addingPageSourceId === source.id) {
         const jobDone = addPageJob?.status === 'encoding' || addPageJob?.status === 'completed';
@@ -327,8 +385,8 @@ export const SourceDrawer = ({
       }
       return Math.max(sourcePages.length, 1);
     }
-    return source.crawlDepth === 'singular' ? 1 : source.crawlDepth === 'shallow' ? 5 : source.crawlDepth === 'medium' ? 15 : 35;
-  }, [source, sourcePages.length, addingPageSourceId, addPageJob?.status]);
+    return crawlTargetPages(source, crawlJob as CrawlJob | null);
+  }, [source, sourcePages.length, addingPageSourceId, addPageJob?.status, crawlJob]);
 
   
   
@@ -339,6 +397,8 @@ export const SourceDrawer = ({
       path: p.path,
       status: (p.status || 'indexed') as 'indexed' | 'crawling' | 'pending' | 'error',
       url: p.url ?? undefined,
+      aliases: pageUrlAliases(p),
+      storagePath: p.storage_path ?? undefined,
     }));
     if (
       seedPageFromConversation &&
@@ -350,6 +410,8 @@ export const SourceDrawer = ({
         path: seedPageFromConversation.path,
         status: 'indexed',
         url: seedPageFromConversation.url ?? undefined,
+        aliases: pageUrlAliases(seedPageFromConversation),
+        storagePath: seedPageFromConversation.storage_path ?? undefined,
       });
     }
     return base;
@@ -386,7 +448,7 @@ export const SourceDrawer = ({
                     {getSourceDisplayLabel(source)}
                   </SheetTitle>
                   <SheetDescription className="text-xs truncate">
-                    {source.initial_url}
+                    {source.kind === 'file' ? 'Uploaded files' : source.initial_url}
                   </SheetDescription>
                 </div>
               </div>
@@ -397,15 +459,26 @@ export const SourceDrawer = ({
                   {pagesIndexed}/{maxPagesForDepth} pages
                 </span>
               </div>
+              {crawlJob?.status === 'failed' && crawlJob.error_message && (
+                <p className="mt-2 text-xs text-destructive">{crawlJob.error_message}</p>
+              )}
             </SheetHeader>
 
             <div className="p-6 space-y-6 shrink-0">
+              {highlight && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium text-foreground">Quoted Passage</h4>
+                  <QuotedPassage content={highlight.content} start={highlight.start} end={highlight.end} />
+                </div>
+              )}
+
               <CrawlStats
                 pagesDiscovered={pagesDiscovered}
                 pagesIndexed={pagesIndexed}
                 targetPages={maxPagesForDepth}
                 isCrawling={realStatus === 'crawling'}
                 isIndexing={isIndexing}
+                isPaused={realStatus === 'paused'}
                 isDynamic={source.crawlDepth === 'dynamic'}
                 isResponding={isAddPageResponding}
                 encodedDiscoveredCount={encodedDiscoveredCount}
@@ -413,6 +486,7 @@ export const SourceDrawer = ({
                 encodingChunksTotal={encChunksTotal}
                 encodingDiscoveredDone={encDiscoveredDone}
                 encodingDiscoveredTotal={encDiscoveredTotal}
+                usage={sourceUsage}
               />
 
               <div className="space-y-2">
@@ -480,32 +554,136 @@ export const SourceDrawer = ({
                       </span>
                     </div>
                   )}
-                  <div className="flex justify-between">
-                    <span>Same domain only:</span>
-                    <span className="text-foreground">{source.sameDomainOnly ? 'Yes' : 'No'}</span>
-                  </div>
+                  {source.kind !== 'file' && (
+                    <div className="flex justify-between">
+                      <span>Same domain only:</span>
+                      <span className="text-foreground">{source.sameDomainOnly ? 'Yes' : 'No'}</span>
+                    </div>
+                  )}
+                  {source.kind !== 'file' && (
+                    <div className="flex justify-between">
+                      <span>Rendering:</span>
+                      <span className="text-foreground capitalize">{source.fetchStrategy ?? 'auto'}</span>
+                    </div>
+                  )}
+                  {source.crawlBudget && (
+                    <div className="flex justify-between gap-3">
+                      <span className="shrink-0">Crawl budget:</span>
+                      <span className="text-foreground text-right">{formatCrawlBudget(source.crawlBudget)}</span>
+                    </div>
+                  )}
+                  {source.useSitemap && (
+                    <div className="flex justify-between">
+                      <span>Seeded from sitemap:</span>
+                      <span className="text-foreground">Yes</span>
+                    </div>
+                  )}
+                  {(source.includePatterns?.length ?? 0) > 0 && (
+                    <div className="flex justify-between gap-3">
+                      <span className="shrink-0">Include paths:</span>
+                      <span className="text-foreground font-mono text-right break-all whitespace-pre-line">{source.includePatterns!.join('\n')}</span>
+                    </div>
+                  )}
+                  {(source.excludePatterns?.length ?? 0) > 0 && (
+                    <div className="flex justify-between gap-3">
+                      <span className="shrink-0">Exclude paths:</span>
+                      <span className="text-foreground font-mono text-right break-all whitespace-pre-line">{source.excludePatterns!.join('\n')}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span>Last updated:</span>
                     <span className="text-foreground">{source.lastUpdated.toLocaleString()}</span>
                   </div>
+                  {source.kind !== 'file' && (
+                    <div className="flex justify-between items-center">
+                      <span>Auto-refresh:</span>
+                      <span className="inline-flex gap-1">
+                        {REFRESH_INTERVAL_OPTIONS.map((option) => (
+                          <button
+                            key={option.value}
+                            type="button"
+                            disabled={!conversationId || updateRefreshInterval.isPending}
+                            onClick={() => {
+                              if (!conversationId) return;
+                              updateRefreshInterval.mutate({ conversationId, sourceId: source.id, refreshInterval: option.value });
+                            }}
+                            className={cn(
+                              'px-1.5 py-0.5 rounded text-[10px] font-medium border transition-colors',
+                              (source.refreshInterval ?? 'off') === option.value
+                                ? 'bg-primary/15 text-primary border-primary/30'
+                                : 'bg-background/50 text-muted-foreground border-border hover:border-border/80'
+                            )}
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                      </span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span>Last refreshed:</span>
+                    <span className="text-foreground">{source.lastRefreshedAt ? source.lastRefreshedAt.toLocaleString() : 'Never'}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Content changed:</span>
+                    <span className="text-foreground">{source.lastContentChangedAt ? source.lastContentChangedAt.toLocaleString() : '—'}</span>
+                  </div>
                 </div>
               </div>
 
               {}
               <div className="flex gap-2">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setRecrawlModalOpen(true)}
-                  disabled={realStatus === 'crawling' || isRecrawling}
-                  className="flex-1 gap-2"
-                >
-                  <RefreshCw className={cn(
-                    "h-4 w-4",
-                    (realStatus === 'crawling' || isRecrawling) && 'animate-spin'
-                  )} />
-                  Recrawl
-                </Button>
+                {(realStatus === 'crawling' || realStatus === 'paused') && onCancel ? (
+                  <>
+                    {realStatus === 'paused' && onResume ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => runJobAction('resume', onResume)}
+                        disabled={pendingJobAction !== null}
+                        className="flex-1 gap-2"
+                      >
+                        {pendingJobAction === 'resume' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+                        Resume
+                      </Button>
+                    ) : realStatus === 'crawling' && onPause ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => runJobAction('pause', onPause)}
+                        disabled={pendingJobAction !== null}
+                        className="flex-1 gap-2"
+                      >
+                        {pendingJobAction === 'pause' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Pause className="h-4 w-4" />}
+                        Pause
+                      </Button>
+                    ) : null}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => runJobAction('cancel', onCancel)}
+                      disabled={pendingJobAction !== null}
+                      className="flex-1 gap-2"
+                    >
+                      {pendingJobAction === 'cancel' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Square className="h-4 w-4" />}
+                      Cancel crawl
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRecrawlModalOpen(true)}
+                    disabled={realStatus === 'crawling' || isRecrawling}
+                    className="flex-1 gap-2"
+                  >
+                    <RefreshCw className={cn(
+                      "h-4 w-4",
+                      (realStatus === 'crawling' || isRecrawling) && 'animate-spin'
+                    )} />
+                    Recrawl
+                  </Button>
+                )}
                 <Button
                   variant="outline"
                   size="sm"
@@ -519,6 +697,48 @@ export const SourceDrawer = ({
                   Remove
                 </Button>
               </div>
+
+              {failedPages.length > 0 && (
+                <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <h4 className="text-sm font-medium text-foreground">Failed pages ({failedPages.length})</h4>
+                    {onRetryFailed && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 gap-1.5 text-xs"
+                        disabled={realStatus === 'crawling' || isRetryingFailed}
+                        onClick={async () => {
+                          setIsRetryingFailed(true);
+                          try {
+                            await onRetryFailed(source.id);
+                          } finally {
+                            setIsRetryingFailed(false);
+                          }
+                        }}
+                      >
+                        <RefreshCw className={cn('h-3 w-3', isRetryingFailed && 'animate-spin')} />
+                        Retry failed
+                      </Button>
+                    )}
+                  </div>
+                  <div className="max-h-[140px] overflow-y-auto space-y-1">
+                    {failedPages.map((page) => (
+                      <div key={page.id} className="flex items-start gap-2 px-1 py-1">
+                        <span className="mt-1">{getPageStatusIcon('error')}</span>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-xs text-foreground truncate" title={page.url}>{page.path}</p>
+                          <p className="text-[11px] text-muted-foreground truncate" title={page.error_message ?? undefined}>
+                            {[page.http_status != null ? `HTTP ${page.http_status}` : null, page.error_message]
+                              .filter(Boolean)
+                              .join(' · ') || 'Fetch failed'}
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
 
             {}
@@ -542,8 +762,15 @@ export const SourceDrawer = ({
                       displayPages.map((page) => (
                         <div
                           key={page.id}
-                          className="flex items-center gap-2 px-3 py-2 rounded-md hover:bg-secondary/50 transition-colors cursor-pointer"
+                          className={cn(
+                            'flex items-center gap-2 px-3 py-2 rounded-md hover:bg-secondary/50 transition-colors cursor-pointer',
+                            highlight?.pageId === page.id && 'bg-primary/10'
+                          )}
                           onClick={() => {
+                            if (page.storagePath) {
+                              void sourceFilesApi.openFile(page.storagePath);
+                              return;
+                            }
                             const url = page.url || `https://${source.domain}${page.path}`;
                             window.open(url, '_blank', 'noopener,noreferrer');
                           }}
@@ -583,6 +810,11 @@ export const SourceDrawer = ({
         }}
         sourceLabel={displayName || source?.initial_url}
         isRecrawling={isRecrawling}
+        lastRunStats={
+          crawlJob?.status === 'completed' && crawlJob.pages_changed != null
+            ? { changed: crawlJob.pages_changed, unchanged: crawlJob.pages_unchanged ?? 0 }
+            : null
+        }
       />
     </Sheet>
   );
@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { Quote } from '@/types/source';
 import { cleanPageTitleForDisplay } from '@/lib/sourceDisplay';
 import { encodeTextForFragment } from '@/lib/utils';
+import { isFileSourcePageUrl, pagesApi, sourceFilesApi } from '@/lib/db';
 import {
   Sheet,
   SheetContent,
@@ -49,18 +50,27 @@ export const SourcePreviewDrawer = ({
     const lastSpace = truncated.lastIndexOf(' ');
     return lastSpace > maxChars * 0.5 ? truncated.slice(0, lastSpace) : truncated;
   })();
-  const openPageUrl = quote && textForFragment && baseNoHash
-    ? `${baseNoHash}#:~:text=${encodeTextForFragment(textForFragment)}`
-    : baseUrl;
+  // PDF viewers ignore text fragments but honor #page=N
+  const openPageUrl = quote?.pageNumber != null && baseNoHash
+    ? `${baseNoHash}#page=${quote.pageNumber}`
+    : quote && textForFragment && baseNoHash
+      ? `${baseNoHash}#:~:text=${encodeTextForFragment(textForFragment)}`
+      : baseUrl;
 
   const handleCopy = async () => {
     if (!quote) return;
-    await navigator.clipboard.writeText(`"${quote.snippet}" — ${quote.domain}${quote.pagePath}`);
+    const pageSuffix = quote.pageNumber != null ? `, p. ${quote.pageNumber}` : '';
+    await navigator.clipboard.writeText(`"${quote.snippet}" — ${quote.domain}${quote.pagePath}${pageSuffix}`);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
   const handleOpenPage = () => {
+    if (quote && isFileSourcePageUrl(baseNoHash)) {
+      const hash = quote.pageNumber != null ? `#page=${quote.pageNumber}` : '';
+      void pagesApi.get(quote.pageId).then((page) => page.storage_path && sourceFilesApi.openFile(page.storage_path, hash));
+      return;
+    }
     if (!openPageUrl) return;
     window.open(openPageUrl, '_blank', 'noopener,noreferrer');
   };
@@ -89,6 +99,7 @@ export const SourcePreviewDrawer = ({
               <p className="text-xs text-muted-foreground mt-1 truncate flex items-center gap-1">
                 <span className="text-primary/80">{quote.domain}</span>
                 <span className="opacity-50">{quote.pagePath}</span>
+                {quote.pageNumber != null && <span className="shrink-0">· p. {quote.pageNumber}</span>}
               </p>
             </div>
           </div>
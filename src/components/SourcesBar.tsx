@@ -1,7 +1,7 @@
 import { Source } from '@/types/source';
 import { cn } from '@/lib/utils';
 import { getSourceDisplayLabel } from '@/lib/sourceDisplay';
-import { Plus, Check, AlertTriangle, Clock, LogIn, Zap, Waves, Anchor } from 'lucide-react';
+import { Plus, Check, AlertTriangle, Clock, Pause, LogIn, Zap, Waves, Anchor, CalendarClock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
@@ -15,6 +15,7 @@ import { useQuery } from '@tanstack/react-query';
 import { LATEST_MAIN_CRAWL_JOB_BY_SOURCES } from '@/lib/queryKeys';
 import { crawlJobsApi } from '@/lib/db/crawl-jobs';
 import type { CrawlJob } from '@/lib/db/types';
+import { crawlTargetPages } from '@/lib/sourceScope';
 import { useConversationPages } from '@/hooks/usePages';
 import { useAddPageJob } from '@/hooks/useAddPageJob';
 import { useMemo, useRef } from 'react';
@@ -54,6 +55,8 @@ const StatusIcon = ({ status }: { status: Source['status'] }) => {
       return <AlertTriangle className="h-3 w-3 text-destructive" />;
     case 'outdated':
       return <Clock className="h-3 w-3 text-amber-400" />;
+    case 'paused':
+      return <Pause className="h-3 w-3 text-muted-foreground" />;
   }
 };
 
@@ -136,6 +139,10 @@ const SourceChip = ({
               </>
             )}
             
+            {source.refreshInterval && source.refreshInterval !== 'off' && (
+              <span title={`Auto-refresh: ${source.refreshInterval}`}><CalendarClock className="h-3 w-3 text-muted-foreground shrink-0" /></span>
+            )}
+
             {}
             <StatusIcon status={source.status} />
             
@@ -152,10 +159,12 @@ const SourceChip = ({
           className="bg-popover border-border p-3 max-w-xs"
         >
             <div className="space-y-1.5 text-xs">
-            <p className="font-medium text-foreground">{source.initial_url}</p>
-            <div className="flex items-center gap-2 text-muted-foreground">
-              <span>Depth: {getDepthLabel(source.crawlDepth)}</span>
-            </div>
+            <p className="font-medium text-foreground">{source.kind === 'file' ? 'Uploaded files' : source.initial_url}</p>
+            {source.kind !== 'file' && (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <span>Depth: {getDepthLabel(source.crawlDepth)}</span>
+              </div>
+            )}
             <div className="flex items-center gap-2 text-muted-foreground">
               <span>Pages scraped: {source.pagesIndexed}/{source.totalPages}</span>
               {source.status === 'ready' && source.pagesIndexed < source.totalPages && (
@@ -165,6 +174,14 @@ const SourceChip = ({
             <div className="text-muted-foreground">
               Last updated: {source.lastUpdated.toLocaleTimeString()}
             </div>
+            {source.lastRefreshedAt && (
+              <div className="text-muted-foreground">
+                Last refreshed: {source.lastRefreshedAt.toLocaleString()}
+                {source.lastContentChangedAt && source.lastContentChangedAt.getTime() >= source.lastRefreshedAt.getTime()
+                  ? ' · content changed'
+                  : ' · no changes'}
+              </div>
+            )}
           </div>
         </TooltipContent>
       </Tooltip>
@@ -236,16 +253,18 @@ export const SourcesBar = ({
           status = 'crawling';
         } else if (crawlJob.status === 'queued' || crawlJob.status === 'running' || crawlJob.status === 'indexing') {
           status = 'crawling';
+        } else if (crawlJob.status === 'paused') {
+          status = 'paused';
         } else if (crawlJob.status === 'failed') {
           status = 'error';
-        } else if (crawlJob.status === 'completed') {
+        } else if (crawlJob.status === 'completed' || crawlJob.status === 'cancelled') {
           status = 'ready';
         }
         
         const job = crawlJob as CrawlJob;
         const jobIndexed = job.indexed_count ?? 0;
         pagesIndexed = Math.max(jobIndexed, sourcePages.length);
-        const maxPagesForDepth = source.crawlDepth === 'dynamic' || source.crawlDepth === 'singular' ? 1 : source.crawlDepth === 'shallow' ? 5 : source.crawlDepth === 'medium' ? 15 : 35;
+        const maxPagesForDepth = crawlTargetPages(source, job);
         if (source.crawlDepth === 'dynamic') {
           if (addingPageSourceId === source.id) {
             const jobDone = addPageJob?.status === 'encoding' || addPageJob?.status === 'completed';
@@ -3,6 +3,7 @@ import { ChevronDown, ChevronRight, Brain, CheckCircle2, AlertCircle, Info, Sear
 import type { ThoughtProcess } from '@/types/chat';
 import { cn } from '@/lib/utils';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { formatCostUsd, formatTokenCount } from '@shared/usagePricing';
 
 
 function nextActionLabel(nextAction: string): string {
@@ -150,9 +151,12 @@ function PhaseContent({
                           <span
                             key={qi}
                             className="text-[11px] px-1.5 py-0.5 rounded bg-muted/50 text-muted-foreground border border-border/50 font-mono"
-                            title={sq.slot ? `Slot: ${sq.slot}` : undefined}
+                            title={[sq.slot && `Slot: ${sq.slot}`, sq.rerankScore != null && `Top rerank score: ${sq.rerankScore.toFixed(2)}`].filter(Boolean).join('\n') || undefined}
                           >
                             &ldquo;{sq.query}&rdquo;{sq.slot ? ` (${sq.slot})` : ''}
+                            {sq.rerankScore != null && (
+                              <span className="ml-1 opacity-70">· {Math.round(sq.rerankScore * 100)}%</span>
+                            )}
                           </span>
                         ))}
                       </div>
@@ -311,6 +315,13 @@ function PhaseContent({
           )}
         </div>
       )}
+
+      {tp.usage && (
+        <p className="text-[11px] text-muted-foreground">
+          {formatTokenCount(tp.usage.promptTokens)} in · {formatTokenCount(tp.usage.completionTokens)} out
+          {tp.usage.costUsd != null && <> · {formatCostUsd(tp.usage.costUsd)} est.</>}
+        </p>
+      )}
     </div>
   );
 }
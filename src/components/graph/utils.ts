@@ -1,6 +1,7 @@
 import { GraphNode, GraphLink, GraphData } from './types';
 import { DiscoveredPage } from '@/types/source';
 import type { PageEdge } from '@/lib/db/types';
+import { urlIdentityKey } from '@shared/urlIdentity';
 
 
 
@@ -8,80 +9,39 @@ import type { PageEdge } from '@/lib/db/types';
 
 
 
-function normalizeUrlForMatching(url: string): string {
-  try {
-    const urlObj = new URL(url.startsWith('http') ? url : `https://${url}`);
-    urlObj.hash = '';
-    urlObj.search = '';
-    if (urlObj.pathname === '/' || urlObj.pathname === '') {
-      urlObj.pathname = '/';
-    } else if (urlObj.pathname.endsWith('/')) {
-      urlObj.pathname = urlObj.pathname.slice(0, -1);
-    }
-    return urlObj.toString();
-  } catch {
-    return url;
-  }
-}
+type GraphPage = DiscoveredPage & { url?: string; aliases?: string[] };
 
-/** Return canonical form and the other common root form so both match (worker may store either). */
-function urlMatchVariants(url: string): string[] {
-  const n = normalizeUrlForMatching(url);
-  const variants = [n, n.toLowerCase()];
-  try {
-    const u = new URL(n);
-    if (u.pathname === '/' && n.endsWith('/')) variants.push(u.origin);
-    else if (u.pathname === '/' && !n.endsWith('/')) variants.push(`${u.origin}/`);
-  } catch {
-    /* ignore */
-  }
-  return variants;
-}
-
-/** Add protocol and host variants (http/https, www/non-www) so edge.to_url matches even if stored slightly differently. */
-function addUrlVariantsToMap(url: string, pageId: string, map: Map<string, string>): void {
-  try {
-    const u = new URL(url);
-    const host = u.hostname;
-    const pathPart = u.pathname + u.search;
-    const origins = [u.origin, u.origin.toLowerCase()];
-    if (host.startsWith('www.')) {
-      const bare = host.slice(4);
-      origins.push(`${u.protocol}//${bare}`, `${u.protocol}//${bare}`.toLowerCase());
-    } else {
-      origins.push(`${u.protocol}//www.${host}`, `${u.protocol}//www.${host}`.toLowerCase());
-    }
-    const protocolSwap = u.protocol === 'https:' ? 'http:' : 'https:';
-    origins.push(`${protocolSwap}//${u.host}`, `${protocolSwap}//${u.host}`.toLowerCase());
-    origins.forEach((origin) => {
-      const full = origin + pathPart;
-      map.set(full, pageId);
-      map.set(full.toLowerCase(), pageId);
-    });
-  } catch {
-    /* ignore */
-  }
+function pageUrlFor(page: GraphPage, domain?: string): string {
+  return page.url || (domain ? `https://${domain}${page.path}` : `https://example.com${page.path}`);
 }
 
 /**
- * Dedupe pages by normalized URL so the same URL from multiple sources (e.g. second static source
- * that is one of the first source's pages) becomes one node. Returns canonical page list and a map
- * from any page id to its canonical id for that URL.
+ * Dedupe pages by URL identity, redirect and canonical aliases included, so the same URL from multiple
+ * sources (e.g. second static source that is one of the first source's pages) becomes one node.
+ * Returns canonical page list and a map from any page id to its canonical id for that URL.
  */
 function dedupePagesByUrl(
-  pages: DiscoveredPage[],
+  pages: GraphPage[],
   domain?: string
-): { canonicalPages: (DiscoveredPage & { url?: string })[]; pageIdToCanonicalId: Map<string, string> } {
-  const byUrl = new Map<string, (DiscoveredPage & { url?: string })[]>();
+): { canonicalPages: GraphPage[]; pageIdToCanonicalId: Map<string, string> } {
+  const byUrl = new Map<string, GraphPage[]>();
+  const groups: GraphPage[][] = [];
   for (const page of pages) {
-    const pageUrl = (page as DiscoveredPage & { url?: string }).url || (domain ? `https://${domain}${page.path}` : `https://example.com${page.path}`);
-    const key = normalizeUrlForMatching(pageUrl).toLowerCase();
-    if (!byUrl.has(key)) byUrl.set(key, []);
-    byUrl.get(key)!.push({ ...page, url: pageUrl });
+    const pageUrl = pageUrlFor(page, domain);
+    const keys = [pageUrl, ...(page.aliases ?? [])].map(urlIdentityKey);
+    let group = keys.map((k) => byUrl.get(k)).find(Boolean);
+    if (!group) {
+      group = [];
+      groups.push(group);
+    }
+    group.push({ ...page, url: pageUrl });
+    keys.forEach((k) => {
+      if (!byUrl.has(k)) byUrl.set(k, group);
+    });
   }
-  const canonicalPages: (DiscoveredPage & { url?: string })[] = [];
+  const canonicalPages: GraphPage[] = [];
   const pageIdToCanonicalId = new Map<string, string>();
-  byUrl.forEach((group) => {
+  groups.forEach((group) => {
     const canonical = group[0];
     canonicalPages.push(canonical);
     group.forEach((p) => pageIdToCanonicalId.set(p.id, canonical.id));
@@ -95,7 +55,7 @@ function dedupePagesByUrl(
 
 
 export const createGraphData = (
-  pages: DiscoveredPage[], 
+  pages: GraphPage[],
   pagesIndexed: number,
   dimensions: { width: number; height: number },
   domain?: string,
@@ -109,24 +69,13 @@ export const createGraphData = (
   const pageIdMap = new Map<string, DiscoveredPage>();
   
   visiblePages.forEach(page => {
-    
-    const pageUrl = (page as DiscoveredPage & { url?: string }).url || (domain ? `https://${domain}${page.path}` : `https://example.com${page.path}`);
-    const normalizedUrl = normalizeUrlForMatching(pageUrl);
-    
-    urlMatchVariants(pageUrl).forEach((v) => urlToPageId.set(v, page.id));
-    urlMatchVariants(normalizedUrl).forEach((v) => urlToPageId.set(v, page.id));
-    urlToPageId.set(pageUrl, page.id);
-    urlToPageId.set(pageUrl.toLowerCase(), page.id);
-    addUrlVariantsToMap(normalizedUrl, page.id, urlToPageId);
-    const u = new URL(normalizedUrl);
-    const withoutProtocol = `${u.hostname}${u.pathname}`;
-    urlToPageId.set(withoutProtocol, page.id);
-    urlToPageId.set(withoutProtocol.toLowerCase(), page.id);
+    // Pages answer to their redirect target and canonical URL too, so edges recorded under either still land.
+    [pageUrlFor(page, domain), ...(page.aliases ?? [])].forEach((url) => urlToPageId.set(urlIdentityKey(url), page.id));
     pageIdMap.set(page.id, page);
   });
   
   const nodes: GraphNode[] = visiblePages.map((page, i) => {
-    const pageUrl = (page as DiscoveredPage & { url?: string }).url || (domain ? `https://${domain}${page.path}` : `https://example.com${page.path}`);
+    const pageUrl = pageUrlFor(page, domain);
     
     const isStartingPage = i === 0;
     return {
@@ -171,19 +120,7 @@ export const createGraphData = (
       if (toPageId) toPageId = visiblePageIds.has(toPageId) ? toPageId : undefined;
 
       if (!toPageId && edge.to_url) {
-        const normalizedEdgeUrl = normalizeUrlForMatching(edge.to_url);
-        let raw = urlToPageId.get(edge.to_url) ?? urlToPageId.get(normalizedEdgeUrl);
-        if (!raw) {
-          for (const variant of urlMatchVariants(edge.to_url)) {
-            raw = urlToPageId.get(variant);
-            if (raw) break;
-          }
-        }
-        if (!raw) {
-          const urlObj = new URL(normalizedEdgeUrl);
-          const withoutProtocol = `${urlObj.hostname}${urlObj.pathname}`;
-          raw = urlToPageId.get(withoutProtocol) || urlToPageId.get(withoutProtocol.toLowerCase());
-        }
+        const raw = urlToPageId.get(urlIdentityKey(edge.to_url));
         toPageId = raw && visiblePageIds.has(raw) ? raw : undefined;
       }
 
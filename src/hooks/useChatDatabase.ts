@@ -1,10 +1,22 @@
-import { useState, useCallback, useMemo, useEffect } from 'react';
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
 import { useConversations, useCreateConversation, useDeleteConversation, useUpdateConversation, useDeleteAllConversations, DELETE_ALL_CONVERSATIONS_EVENT } from './useConversations';
 import { useMessages, useCreateMessage, useUpdateMessage } from './useMessages';
-import { useConversationSources, useAddSourceToConversation, useRemoveSourceFromConversation, useCheckExistingSource } from './useConversationSources';
-import { recrawlSource as recrawlSourceApi } from '@/lib/db/recrawl';
-import { crawlJobsApi } from '@/lib/db';
+import {
+  useConversationSources,
+  useAddSourceToConversation,
+  useAddFileSourceToConversation,
+  useRemoveSourceFromConversation,
+  useCheckExistingSource,
+} from './useConversationSources';
+import {
+  cancelActiveCrawlJobs,
+  pauseCrawlJobs,
+  recrawlSource as recrawlSourceApi,
+  resumeCrawlJobs,
+  retryFailedPages as retryFailedPagesApi,
+} from '@/lib/db/recrawl';
+import { crawlJobsApi, ragRunsApi } from '@/lib/db';
 import {
   LATEST_ADD_PAGE_JOB_BY_CONVERSATION_AND_SOURCE,
   PAGE_EDGES_FOR_CONVERSATION,
@@ -26,9 +38,16 @@ import type { Conversation as DBConversation, Message as DBMessage, MessageQuote
 import type { Conversation, Message, ThoughtProcess } from '@/types/chat';
 import type { Source } from '@/types/source';
 import { deriveTitleFromUrl } from '@/lib/utils';
+import { getSourceRefreshFields } from '@/lib/sourceRefresh';
+import { getSourceScopeFields, toDbCrawlBudget } from '@/lib/sourceScope';
+import { applyProgressEvent, type RagProgressEvent } from '@shared/ragProgress';
+import type { QuotaExceeded } from '@shared/quotas';
 import { generateTitle } from '@/data/mockResponses';
 import { generateQuotesForMessage, generateSourcedResponse } from '@/data/mockSourceContent';
 
+/** How long the input stays blocked by a quota error that did not say when the limit resets. */
+const QUOTA_RECHECK_MS = 60_000;
+
 
 const dbConversationToUI = (db: DBConversation & { dynamic_mode?: boolean }, messages: DBMessage[], sources: Source[]): Conversation => ({
   id: db.id,
@@ -49,6 +68,9 @@ type DbQuoteRow = {
   domain: string;
   context_before?: string | null;
   context_after?: string | null;
+  start_index?: number | null;
+  end_index?: number | null;
+  page_number?: number | null;
   pages?: { source_id: string } | null;
 };
 
@@ -62,6 +84,8 @@ const mapQuoteDbToUI = (q: DbQuoteRow): MessageQuote => ({
   domain: q.domain ?? '',
   ...(q.context_before ? { contextBefore: q.context_before } : {}),
   ...(q.context_after ? { contextAfter: q.context_after } : {}),
+  ...(q.start_index != null && q.end_index != null ? { startIndex: q.start_index, endIndex: q.end_index } : {}),
+  ...(q.page_number != null ? { pageNumber: q.page_number } : {}),
 });
 
 const dbMessageToUI = (db: DBMessage): Message => {
@@ -97,6 +121,37 @@ const getFunctionsUrl = () => {
   return url ? `${url.replace(/\/$/, '')}/functions/v1` : '';
 };
 
+/** Calls onEvent for each NDJSON line of the body until the body ends or onEvent returns true. */
+const readNdjson = async (
+  res: Response,
+  onEvent: (event: Record<string, unknown>) => boolean | void | Promise<boolean | void>
+): Promise<void> => {
+  const reader = res.body?.getReader();
+  if (!reader) return;
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (value) buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      let event: Record<string, unknown>;
+      try {
+        event = JSON.parse(line) as Record<string, unknown>;
+      } catch {
+        continue;
+      }
+      if (await onEvent(event)) {
+        await reader.cancel().catch(() => undefined);
+        return;
+      }
+    }
+    if (done) return;
+  }
+};
+
 export const useChatDatabase = () => {
   const { user } = useAuthContext();
   const queryClient = useQueryClient();
@@ -105,6 +160,17 @@ export const useChatDatabase = () => {
   const [streamingMessage, setStreamingMessage] = useState<string>('');
   const [ragStepProgress, setRagStepProgress] = useState<Array<{ current: number; total: number; label: string }>>([]);
   const [liveThoughtProcess, setLiveThoughtProcess] = useState<ThoughtProcess | null>(null);
+  // Root message of the chat-with-rag run this client is streaming, while it can still be cancelled.
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  // Read by the attach-on-open effect, which must not re-run when this client starts or follows a run.
+  const activeRunIdRef = useRef<string | null>(null);
+  const runControllerRef = useRef<AbortController | null>(null);
+  // Set when chat-with-rag refused a run over the user's quota; cleared once the window frees up.
+  const [quotaExceeded, setQuotaExceeded] = useState<QuotaExceeded | null>(null);
+
+  useEffect(() => {
+    activeRunIdRef.current = activeRunId;
+  }, [activeRunId]);
 
   // Database hooks
   const { data: dbConversations = [], isLoading: conversationsLoading } = useConversations();
@@ -124,6 +190,7 @@ export const useChatDatabase = () => {
 
   const { data: conversationSourcesData = [] } = useConversationSources(activeConversationId);
   const addSourceMutation = useAddSourceToConversation();
+  const addFileSourceMutation = useAddFileSourceToConversation();
   const removeSourceMutation = useRemoveSourceFromConversation();
   const checkExistingSourceMutation = useCheckExistingSource();
 
@@ -153,6 +220,9 @@ export const useChatDatabase = () => {
       totalPages: 0, 
       lastUpdated: new Date(db.updated_at),
       discoveredPages: [], 
+      kind: db.kind ?? 'web',
+      ...getSourceScopeFields(db),
+      ...getSourceRefreshFields(db),
     };
   });
 
@@ -224,6 +294,11 @@ export const useChatDatabase = () => {
         crawl_depth: source.crawlDepth,
         suggestion_mode: source.suggestionMode ?? 'surface',
         same_domain_only: source.sameDomainOnly,
+        fetch_strategy: source.fetchStrategy ?? 'auto',
+        include_patterns: source.includePatterns ?? [],
+        exclude_patterns: source.excludePatterns ?? [],
+        use_sitemap: source.useSitemap ?? false,
+        crawl_budget: toDbCrawlBudget(source.crawlBudget),
       },
     });
 
@@ -241,9 +316,38 @@ export const useChatDatabase = () => {
       totalPages: 0,
       lastUpdated: new Date(dbSource.updated_at),
       discoveredPages: [],
+      kind: dbSource.kind ?? 'web',
+      ...getSourceScopeFields(dbSource),
+      ...getSourceRefreshFields(dbSource),
     };
   }, [activeConversationId, createConversationMutation, addSourceMutation]);
 
+  const addFileSourceToConversation = useCallback(async (files: File[], label: string) => {
+    let finalConvId = activeConversationId;
+    if (!finalConvId) {
+      const newConv = await createConversationMutation.mutateAsync(label || 'New Research');
+      finalConvId = newConv.id;
+      setActiveConversationId(newConv.id);
+    }
+    const dbSource = await addFileSourceMutation.mutateAsync({ conversationId: finalConvId, files, label });
+    return {
+      id: dbSource.id,
+      initial_url: dbSource.initial_url,
+      domain: dbSource.domain,
+      source_label: dbSource.source_label ?? undefined,
+      kind: 'file' as const,
+      status: 'crawling' as const,
+      crawlDepth: dbSource.crawl_depth,
+      suggestionMode: 'surface' as const,
+      sameDomainOnly: dbSource.same_domain_only,
+      pagesIndexed: 0,
+      totalPages: files.length,
+      lastUpdated: new Date(dbSource.updated_at),
+      discoveredPages: [],
+      ...getSourceRefreshFields(dbSource),
+    };
+  }, [activeConversationId, createConversationMutation, addFileSourceMutation]);
+
   const removeSourceFromConversation = useCallback(async (sourceId: string) => {
     if (!activeConversationId) return;
     await removeSourceMutation.mutateAsync({
@@ -272,6 +376,43 @@ export const useChatDatabase = () => {
     await queryClient.refetchQueries({ queryKey: [CURRENT_CRAWL_JOB_BY_SOURCE, sourceId] });
   }, [activeConversationId, queryClient]);
 
+  const retryFailedPages = useCallback(async (sourceId: string) => {
+    if (!activeConversationId) return;
+    const queued = await retryFailedPagesApi(sourceId);
+    if (queued === 0) return;
+    queryClient.invalidateQueries({ queryKey: [SOURCES_FOR_CONVERSATION, activeConversationId] });
+    queryClient.invalidateQueries({ queryKey: [PAGES_FOR_CONVERSATION, activeConversationId] });
+    queryClient.invalidateQueries({ queryKey: [LATEST_MAIN_CRAWL_JOB_BY_SOURCES] });
+    await queryClient.refetchQueries({ queryKey: [CURRENT_CRAWL_JOB_BY_SOURCE, sourceId] });
+  }, [activeConversationId, queryClient]);
+
+  const refreshCrawlJobQueries = useCallback(async (sourceId: string) => {
+    if (!activeConversationId) return;
+    queryClient.invalidateQueries({ queryKey: [SOURCES_FOR_CONVERSATION, activeConversationId] });
+    queryClient.invalidateQueries({ queryKey: [PAGES_FOR_CONVERSATION, activeConversationId] });
+    queryClient.invalidateQueries({ queryKey: [LATEST_MAIN_CRAWL_JOB_BY_SOURCES] });
+    queryClient.invalidateQueries({ queryKey: [LATEST_ADD_PAGE_JOB_BY_CONVERSATION_AND_SOURCE, activeConversationId, sourceId] });
+    await queryClient.refetchQueries({ queryKey: [CURRENT_CRAWL_JOB_BY_SOURCE, sourceId] });
+  }, [activeConversationId, queryClient]);
+
+  const cancelCrawl = useCallback(async (sourceId: string) => {
+    if (!activeConversationId) return;
+    await cancelActiveCrawlJobs(sourceId);
+    await refreshCrawlJobQueries(sourceId);
+  }, [activeConversationId, refreshCrawlJobQueries]);
+
+  const pauseCrawl = useCallback(async (sourceId: string) => {
+    if (!activeConversationId) return;
+    await pauseCrawlJobs(sourceId);
+    await refreshCrawlJobQueries(sourceId);
+  }, [activeConversationId, refreshCrawlJobQueries]);
+
+  const resumeCrawl = useCallback(async (sourceId: string) => {
+    if (!activeConversationId) return;
+    await resumeCrawlJobs(sourceId);
+    await refreshCrawlJobQueries(sourceId);
+  }, [activeConversationId, refreshCrawlJobQueries]);
+
   const updateDynamicMode = useCallback(async (conversationId: string, dynamicMode: boolean) => {
     await updateConversationMutation.mutateAsync({ id: conversationId, dynamic_mode: dynamicMode });
   }, [updateConversationMutation]);
@@ -345,6 +486,9 @@ export const useChatDatabase = () => {
       if (finalJob.status === 'failed') {
         throw new Error(finalJob.error_message ?? 'Add page failed');
       }
+      if (finalJob.status === 'cancelled' || finalJob.status === 'paused') {
+        throw new Error(`Add page was ${finalJob.status}`);
+      }
     }
     if (finalJob?.status === 'failed') {
       throw new Error(finalJob.error_message ?? 'Add page failed');
@@ -365,6 +509,80 @@ export const useChatDatabase = () => {
     return { page: {}, message: 'Page added' };
   }, [queryClient]);
 
+  /** Shows a chat-with-rag run's answer deltas, progress events and step labels as they stream in. */
+  const createRunEventHandler = useCallback(() => {
+    const steps: { current: number; total: number; label: string }[] = [];
+    return (event: Record<string, unknown>) => {
+      if (typeof event.delta === 'string') {
+        const delta = event.delta;
+        setStreamingMessage(prev => prev + delta);
+      }
+      if (event.progress != null && typeof event.progress === 'object') {
+        const progress = event.progress as RagProgressEvent;
+        setLiveThoughtProcess(prev => applyProgressEvent(prev, progress));
+      }
+      if (event.step != null && event.label && event.totalSteps != null) {
+        const current = Number(event.step);
+        const idx = steps.findIndex(s => s.current === current);
+        const entry = { current, total: Number(event.totalSteps), label: String(event.label) };
+        if (idx >= 0) steps[idx] = entry;
+        else steps.push(entry);
+        steps.sort((a, b) => a.current - b.current);
+        setRagStepProgress([...steps]);
+      }
+    };
+  }, []);
+
+  /**
+   * Replays a chat-with-rag run from its event log and follows it until it finishes. Resolves to
+   * null once the run's outcome is in the messages, or to the error that ended it.
+   */
+  const attachToRun = useCallback(async (conversationId: string, rootMessageId: string): Promise<string | null> => {
+    const functionsUrl = getFunctionsUrl();
+    if (!functionsUrl) return 'Edge functions are not configured';
+    const controller = new AbortController();
+    runControllerRef.current = controller;
+    setActiveRunId(rootMessageId);
+    setIsLoading(true);
+    setStreamingMessage('');
+    setRagStepProgress([]);
+    setLiveThoughtProcess(null);
+    let runError: string | null = null;
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      const res = await fetch(`${functionsUrl}/chat-with-rag`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {}),
+        },
+        body: JSON.stringify({ conversationId, rootMessageId, attach: true }),
+        signal: controller.signal,
+      });
+      if (!res.ok) return `HTTP ${res.status}`;
+      const showEvent = createRunEventHandler();
+      await readNdjson(res, (event) => {
+        showEvent(event);
+        if (event.error) {
+          runError = String(event.error);
+          return true;
+        }
+        return event.done === true || event.cancelled === true;
+      });
+      return runError;
+    } catch (e) {
+      return controller.signal.aborted ? null : e instanceof Error ? e.message : 'Network or request failed';
+    } finally {
+      if (!controller.signal.aborted) {
+        await queryClient.invalidateQueries({ queryKey: ['messages', conversationId] });
+        setStreamingMessage('');
+        setLiveThoughtProcess(null);
+        setIsLoading(false);
+        setActiveRunId(null);
+      }
+    }
+  }, [queryClient, createRunEventHandler]);
+
   const addPageAndContinueResponse = useCallback(async (
     conversationId: string,
     sourceId: string,
@@ -386,100 +604,114 @@ export const useChatDatabase = () => {
     await addPageToSource(conversationId, sourceId, url);
     await new Promise((r) => setTimeout(r, 500));
 
+    // The continuation re-runs the question, so its run is keyed by the user message before messageId.
+    const messageIndex = dbMessages.findIndex(m => m.id === messageId);
+    const rootMessageId = messageIndex > 0 ? dbMessages[messageIndex - 1].id : null;
+    const controller = new AbortController();
+    runControllerRef.current = controller;
+    setActiveRunId(rootMessageId);
     setIsLoading(true);
     setStreamingMessage('');
     setRagStepProgress([]);
     setLiveThoughtProcess(null);
 
+    let runError: string | null = null;
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      const res = await fetch(`${functionsUrl}/chat-with-rag`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {}),
-        },
-        body: JSON.stringify({
-          conversationId,
-          userMessage: userMessage.trim(),
-          appendToMessageId: messageId,
-          scrapedPageDisplay: scrapedPageDisplay ?? undefined,
-        }),
-      });
-      if (!res.ok) {
-        const body = await res.json().catch(() => ({}));
-        throw new Error((body as { error?: string }).error ?? `HTTP ${res.status}`);
-      }
-      const reader = res.body?.getReader();
-      const decoder = new TextDecoder();
-      let buffer = '';
-      if (reader) {
-        const steps: { current: number; total: number; label: string }[] = [];
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() ?? '';
-          for (const line of lines) {
-            if (!line.trim()) continue;
-            try {
-              const event = JSON.parse(line) as Record<string, unknown>;
-              if (event.thoughtProcess != null && typeof event.thoughtProcess === 'object') {
-                setLiveThoughtProcess(event.thoughtProcess as ThoughtProcess);
-              } else if (event.plan != null && typeof event.plan === 'object') {
-                const plan = event.plan as { slots?: ThoughtProcess['slots']; subqueries?: unknown[] };
-                if (Array.isArray(plan.slots)) {
-                  setLiveThoughtProcess((prev) => ({ ...prev, slots: plan.slots, steps: prev?.steps ?? [] }));
-                }
-              }
-              if (event.step != null && event.label && event.totalSteps != null) {
-                const current = Number(event.step);
-                const total = Number(event.totalSteps);
-                const label = String(event.label);
-                const idx = steps.findIndex((s) => s.current === current);
-                if (idx >= 0) {
-                  steps[idx] = { current, total, label };
-                } else {
-                  steps.push({ current, total, label });
-                  steps.sort((a, b) => a.current - b.current);
-                }
-                setRagStepProgress([...steps]);
-              }
-              if (event.done === true) {
-                setLiveThoughtProcess(null);
-                queryClient.invalidateQueries({ queryKey: ['messages', conversationId] });
-                return;
-              }
-              if (event.error) {
-                setLiveThoughtProcess(null);
-                throw new Error(String(event.error));
-              }
-            } catch (e) {
-              if (e instanceof SyntaxError) continue;
-              throw e;
+      try {
+        const { data: { session } } = await supabase.auth.getSession();
+        const res = await fetch(`${functionsUrl}/chat-with-rag`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {}),
+          },
+          body: JSON.stringify({
+            conversationId,
+            userMessage: userMessage.trim(),
+            appendToMessageId: messageId,
+            scrapedPageDisplay: scrapedPageDisplay ?? undefined,
+          }),
+          signal: controller.signal,
+        });
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({}));
+          runError = (body as { error?: string }).error ?? `HTTP ${res.status}`;
+        } else {
+          const showEvent = createRunEventHandler();
+          await readNdjson(res, (event) => {
+            showEvent(event);
+            if (event.error) {
+              if (event.quota) setQuotaExceeded(event.quota as QuotaExceeded);
+              runError = String(event.error);
+              return true;
             }
-          }
+            return event.done === true || event.cancelled === true;
+          });
         }
-        if (buffer.trim()) {
-          const event = JSON.parse(buffer) as Record<string, unknown>;
-          if (event.done === true) {
-            setLiveThoughtProcess(null);
-            queryClient.invalidateQueries({ queryKey: ['messages', conversationId] });
-            return;
-          }
-          if (event.error) {
-            setLiveThoughtProcess(null);
-            throw new Error(String(event.error));
-          }
-        }
-        setLiveThoughtProcess(null);
+      } catch (e) {
+        if (controller.signal.aborted) return;
+        // As in sendMessage, the run keeps going server-side when the connection drops.
+        const attachError = rootMessageId ? await attachToRun(conversationId, rootMessageId) : null;
+        if (!rootMessageId || attachError != null) runError = e instanceof Error ? e.message : 'Network or request failed';
       }
-      queryClient.invalidateQueries({ queryKey: ['messages', conversationId] });
+      setLiveThoughtProcess(null);
+      if (runError) throw new Error(runError);
+      await queryClient.invalidateQueries({ queryKey: ['messages', conversationId] });
     } finally {
-      setIsLoading(false);
+      if (!controller.signal.aborted) {
+        setStreamingMessage('');
+        setIsLoading(false);
+        setActiveRunId(null);
+      }
     }
-  }, [queryClient, addPageToSource, updateMessageMutation]);
+  }, [queryClient, addPageToSource, updateMessageMutation, createRunEventHandler, dbMessages, attachToRun]);
+
+  useEffect(() => {
+    if (!activeConversationId || !user) return;
+    let stale = false;
+    ragRunsApi
+      .getRunning(activeConversationId)
+      .then((run) => {
+        if (stale || !run || run.root_message_id === activeRunIdRef.current) return;
+        void attachToRun(activeConversationId, run.root_message_id);
+      })
+      .catch((err) => console.error('[chat-with-rag] failed to look up running run', err));
+    return () => {
+      stale = true;
+    };
+  }, [activeConversationId, user, attachToRun]);
+
+  useEffect(() => {
+    if (!quotaExceeded) return;
+    const waitMs = quotaExceeded.retryAt ? new Date(quotaExceeded.retryAt).getTime() - Date.now() : QUOTA_RECHECK_MS;
+    const timer = setTimeout(() => setQuotaExceeded(null), Math.max(waitMs, 0));
+    return () => clearTimeout(timer);
+  }, [quotaExceeded]);
+
+  /** Stops the run being streamed: it ends before its next iteration, without an answer. */
+  const cancelRun = useCallback(async () => {
+    const functionsUrl = getFunctionsUrl();
+    if (!activeRunId || !functionsUrl) return;
+    runControllerRef.current?.abort();
+    setStreamingMessage('');
+    setLiveThoughtProcess(null);
+    setRagStepProgress([]);
+    setIsLoading(false);
+    setActiveRunId(null);
+    const { data: { session } } = await supabase.auth.getSession();
+    const res = await fetch(`${functionsUrl}/cancel-rag-run`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {}),
+      },
+      body: JSON.stringify({ rootMessageId: activeRunId }),
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}));
+      throw new Error((body as { error?: string }).error ?? `HTTP ${res.status}`);
+    }
+  }, [activeRunId]);
 
   const sendMessage = useCallback(async (content: string, _options?: { unfoldMode?: 'unfold' | 'direct' }) => {
     if (!content.trim() || isLoading) {
@@ -520,7 +752,11 @@ export const useChatDatabase = () => {
 
     let ragFailed = false;
     let ragError: string | null = null;
+    let ragQuota: QuotaExceeded | null = null;
     if (hasSources && functionsUrl) {
+      const controller = new AbortController();
+      runControllerRef.current = controller;
+      setActiveRunId(userMsg.id);
       try {
         const { data: { session } } = await supabase.auth.getSession();
         const res = await fetch(`${functionsUrl}/chat-with-rag`, {
@@ -534,6 +770,7 @@ export const useChatDatabase = () => {
             userMessage: content.trim(),
             rootMessageId: userMsg.id,
           }),
+          signal: controller.signal,
         });
         if (!res.ok) {
           ragFailed = true;
@@ -545,100 +782,49 @@ export const useChatDatabase = () => {
           }
           console.error('[chat-with-rag]', res.status, ragError);
         } else {
-          const reader = res.body?.getReader();
-          const decoder = new TextDecoder();
-          let buffer = '';
-          const steps: { current: number; total: number; label: string }[] = [];
-          if (reader) {
-            try {
-              while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-                buffer += decoder.decode(value, { stream: true });
-                const lines = buffer.split('\n');
-                buffer = lines.pop() ?? '';
-                for (const line of lines) {
-                  if (!line.trim()) continue;
-                  const event = JSON.parse(line) as Record<string, unknown>;
-                  if (event.thoughtProcess != null && typeof event.thoughtProcess === 'object') {
-                    setLiveThoughtProcess(event.thoughtProcess as ThoughtProcess);
-                  } else if (event.plan != null && typeof event.plan === 'object') {
-                    const plan = event.plan as { slots?: ThoughtProcess['slots']; subqueries?: unknown[] };
-                    if (Array.isArray(plan.slots)) {
-                      setLiveThoughtProcess({ slots: plan.slots, steps: [] });
-                    }
-                  }
-                  if (event.step != null && event.label && event.totalSteps != null) {
-                    const current = Number(event.step);
-                    const total = Number(event.totalSteps);
-                    const label = String(event.label);
-                    const idx = steps.findIndex(s => s.current === current);
-                    if (idx >= 0) {
-                      steps[idx] = { current, total, label };
-                    } else {
-                      steps.push({ current, total, label });
-                      steps.sort((a, b) => a.current - b.current);
-                    }
-                    setRagStepProgress([...steps]);
-                  }
-                  if (event.done === true && event.message) {
-                    const ev = event as { suggestedTitle?: string };
-                    setLiveThoughtProcess(null);
-                    queryClient.invalidateQueries({ queryKey: ['messages', conversationId] });
-                    if (ev.suggestedTitle) {
-                      queryClient.invalidateQueries({ queryKey: ['conversations'] });
-                    }
-                    setIsLoading(false);
-                    return;
-                  }
-                  if (event.error) {
-                    setLiveThoughtProcess(null);
-                    ragFailed = true;
-                    ragError = String(event.error);
-                    break;
-                  }
-                }
-              }
-              if (buffer.trim()) {
-                const event = JSON.parse(buffer) as Record<string, unknown> & { suggestedTitle?: string };
-                if (event.done === true && event.message) {
-                  setLiveThoughtProcess(null);
-                  queryClient.invalidateQueries({ queryKey: ['messages', conversationId] });
-                  if (event.suggestedTitle) {
-                    queryClient.invalidateQueries({ queryKey: ['conversations'] });
-                  }
-                  setIsLoading(false);
-                  return;
-                }
-                if (event.error) {
-                  setLiveThoughtProcess(null);
-                  ragFailed = true;
-                  ragError = String(event.error);
-                }
-              }
-            } finally {
-              void 0;
+          const showEvent = createRunEventHandler();
+          let suggestedTitle = false;
+          await readNdjson(res, (event) => {
+            showEvent(event);
+            if ((event.done === true && event.message) || event.cancelled === true) {
+              suggestedTitle = !!event.suggestedTitle;
+              return true;
             }
-          } else {
-            queryClient.invalidateQueries({ queryKey: ['messages', conversationId] });
-          }
-          if (ragFailed && ragError) {
-            void 0;
-          } else {
+            if (event.error) {
+              ragFailed = true;
+              ragError = String(event.error);
+              ragQuota = (event.quota as QuotaExceeded | undefined) ?? null;
+              return true;
+            }
+          });
+          setLiveThoughtProcess(null);
+          if (!ragFailed) {
+            await queryClient.invalidateQueries({ queryKey: ['messages', conversationId] });
+            if (suggestedTitle) queryClient.invalidateQueries({ queryKey: ['conversations'] });
+            setStreamingMessage('');
             setIsLoading(false);
             return;
           }
         }
       } catch (e) {
+        if (controller.signal.aborted) return;
+        // The run keeps going server-side when the connection drops; pick it up from its event log.
+        const attachError = await attachToRun(conversationId, userMsg.id);
+        if (attachError == null) return;
+        setIsLoading(true);
         ragFailed = true;
         ragError = e instanceof Error ? e.message : 'Network or request failed';
-        console.error('[chat-with-rag]', ragError);
+        console.error('[chat-with-rag]', ragError, attachError);
+      } finally {
+        setActiveRunId(null);
       }
     }
 
-    
+    if (ragQuota) setQuotaExceeded(ragQuota);
     const fullResponse = ragFailed && hasSources
-      ? (ragError
+      ? ragQuota
+        ? `The assistant couldn't answer: **${ragError}**`
+        : (ragError
           ? `The assistant couldn't answer: **${ragError}** — Check that the crawl finished, chunks are indexed, and the Edge Function has the \`OPENAI_API_KEY\` secret set.`
           : "The assistant couldn't answer right now. Make sure the crawl has finished and chunks are indexed (check the source drawer), then try again.")
       : generateSourcedResponse(
@@ -647,6 +833,7 @@ export const useChatDatabase = () => {
           crawlingSources.length > 0
         );
 
+    setStreamingMessage('');
     const words = fullResponse.split(' ');
     for (let i = 0; i < words.length; i++) {
       await new Promise(resolve => setTimeout(resolve, 30 + Math.random() * 20));
@@ -664,7 +851,7 @@ export const useChatDatabase = () => {
 
     setStreamingMessage('');
     setIsLoading(false);
-  }, [activeConversationId, isLoading, currentSources, createConversationMutation, createMessageMutation, queryClient]);
+  }, [activeConversationId, isLoading, currentSources, createConversationMutation, createMessageMutation, queryClient, attachToRun, createRunEventHandler]);
 
   return {
     conversations,
@@ -679,9 +866,17 @@ export const useChatDatabase = () => {
     selectConversation,
     deleteConversation,
     sendMessage,
+    cancelRun,
+    canCancelRun: activeRunId != null,
+    quotaExceeded,
     addSourceToConversation,
+    addFileSourceToConversation,
     removeSourceFromConversation,
     recrawlSource,
+    retryFailedPages,
+    cancelCrawl,
+    pauseCrawl,
+    resumeCrawl,
     updateDynamicMode,
     addPageToSource,
     addPageAndContinueResponse,
@@ -2,9 +2,11 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { SOURCES_FOR_CONVERSATION, LIST_OF_CRAWL_JOBS_BY_SOURCE } from '@/lib/queryKeys';
 import { conversationSourcesApi } from '@/lib/db/conversation-sources';
 import { sourcesApi } from '@/lib/db/sources';
-import type { SourceInsert } from '@/lib/db/types';
+import { sourceFilesApi } from '@/lib/db/source-files';
+import type { RefreshInterval, Source as DbSource, SourceInsert } from '@/lib/db/types';
 import { useAuthContext } from '@/contexts/AuthContext';
 import { normalizeSourceUrl } from '@/lib/urlUtils';
+import { nextRefreshAt } from '@/lib/sourceRefresh';
 
 export type ExistingConversationInfo = {
   conversationId: string;
@@ -40,6 +42,31 @@ export const useCheckExistingSource = () => {
   });
 };
 
+const addSourceToConversationCache = (
+  queryClient: ReturnType<typeof useQueryClient>,
+  conversationId: string,
+  newSource: DbSource
+) => {
+  queryClient.setQueryData(
+    [SOURCES_FOR_CONVERSATION, conversationId],
+    (prev: Array<{ conversation_id: string; source_id: string; created_at: string; source: DbSource }> | undefined) => {
+      const list = prev ?? [];
+      if (list.some((cs) => cs.source_id === newSource.id)) return list;
+      return [
+        ...list,
+        {
+          conversation_id: conversationId,
+          source_id: newSource.id,
+          created_at: new Date().toISOString(),
+          source: newSource,
+        },
+      ];
+    }
+  );
+  queryClient.invalidateQueries({ queryKey: [SOURCES_FOR_CONVERSATION, conversationId] });
+  queryClient.invalidateQueries({ queryKey: [LIST_OF_CRAWL_JOBS_BY_SOURCE] });
+};
+
 export const useAddSourceToConversation = () => {
   const queryClient = useQueryClient();
   const { user } = useAuthContext();
@@ -71,26 +98,38 @@ export const useAddSourceToConversation = () => {
       await conversationSourcesApi.add(conversationId, source.id, false);
       return source;
     },
-    onSuccess: (newSource, variables) => {
-      queryClient.setQueryData(
-        [SOURCES_FOR_CONVERSATION, variables.conversationId],
-        (prev: Array<{ conversation_id: string; source_id: string; created_at: string; source: typeof newSource }> | undefined) => {
-          const list = prev ?? [];
-          if (list.some((cs) => cs.source_id === newSource.id)) return list;
-          return [
-            ...list,
-            {
-              conversation_id: variables.conversationId,
-              source_id: newSource.id,
-              created_at: new Date().toISOString(),
-              source: newSource,
-            },
-          ];
-        }
-      );
-      queryClient.invalidateQueries({ queryKey: [SOURCES_FOR_CONVERSATION, variables.conversationId] });
-      queryClient.invalidateQueries({ queryKey: [LIST_OF_CRAWL_JOBS_BY_SOURCE] });
+    onSuccess: (newSource, variables) => addSourceToConversationCache(queryClient, variables.conversationId, newSource),
+  });
+};
+
+export const useAddFileSourceToConversation = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuthContext();
+
+  return useMutation({
+    mutationFn: async ({ conversationId, files, label }: { conversationId: string; files: File[]; label: string }) => {
+      if (!user) throw new Error('Authentication required');
+      if (files.length === 0) throw new Error('Choose at least one file');
+      const source = await sourcesApi.create({
+        conversation_id: conversationId,
+        kind: 'file',
+        initial_url: `file:///${encodeURIComponent(label)}`,
+        domain: label,
+        source_label: label,
+        crawl_depth: 'singular',
+        suggestion_mode: 'surface',
+        same_domain_only: true,
+      });
+      try {
+        await sourceFilesApi.upload(source.id, files);
+      } catch (err) {
+        await conversationSourcesApi.remove(conversationId, source.id);
+        throw err;
+      }
+      await conversationSourcesApi.add(conversationId, source.id, false);
+      return source;
     },
+    onSuccess: (newSource, variables) => addSourceToConversationCache(queryClient, variables.conversationId, newSource),
   });
 };
 
@@ -104,4 +143,19 @@ export const useRemoveSourceFromConversation = () => {
       queryClient.invalidateQueries({ queryKey: [SOURCES_FOR_CONVERSATION, variables.conversationId] });
     },
   });
+};
+
+export const useUpdateSourceRefreshInterval = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ sourceId, refreshInterval }: { conversationId: string; sourceId: string; refreshInterval: RefreshInterval }) =>
+      sourcesApi.update(sourceId, {
+        refresh_interval: refreshInterval,
+        next_refresh_at: nextRefreshAt(refreshInterval),
+      }),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: [SOURCES_FOR_CONVERSATION, variables.conversationId] });
+    },
+  });
 };
\ No newline at end of file
@@ -5,6 +5,7 @@ import {
   PAGE_GRAPH_EDGES_FOR_CONVERSATION,
   PAGES_FOR_CONVERSATION,
   PAGES_BY_SOURCE,
+  PAGE_CONTENT,
 } from '@/lib/queryKeys';
 import { pagesApi, pageEdgesApi } from '@/lib/db/pages';
 
@@ -19,6 +20,18 @@ export const usePages = (sourceId: string | null) => {
   });
 };
 
+/** One page's text, which the page lists leave out. */
+export const usePageContent = (pageId: string | null) => {
+  return useQuery({
+    queryKey: [PAGE_CONTENT, pageId],
+    queryFn: () => {
+      if (!pageId) throw new Error('Page ID required');
+      return pagesApi.getContent(pageId);
+    },
+    enabled: !!pageId,
+  });
+};
+
 export type UseConversationPagesOptions = {
   
   refetchInterval?: number | false | (() => number | false);
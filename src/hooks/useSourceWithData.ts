@@ -2,6 +2,8 @@ import { usePages } from './usePages';
 import { useCrawlJob } from './useCrawlJobs';
 import type { Source as DBSource, CrawlJob } from '@/lib/db/types';
 import type { Source, DiscoveredPage } from '@/types/source';
+import { getSourceRefreshFields } from '@/lib/sourceRefresh';
+import { getSourceScopeFields } from '@/lib/sourceScope';
 
 export const useSourceWithData = (dbSource: DBSource | null): Source | null => {
   const { data: pages = [] } = usePages(dbSource?.id || null);
@@ -17,6 +19,8 @@ export const useSourceWithData = (dbSource: DBSource | null): Source | null => {
   if (crawlJob) {
     if (crawlJob.status === 'queued' || crawlJob.status === 'running') {
       status = 'crawling';
+    } else if (crawlJob.status === 'paused') {
+      status = 'paused';
     } else if (crawlJob.status === 'failed') {
       status = 'error';
     } else if (crawlJob.status === 'completed') {
@@ -40,12 +44,14 @@ export const useSourceWithData = (dbSource: DBSource | null): Source | null => {
     pagesIndexed,
     totalPages: totalPages || 0,
     lastUpdated: new Date(dbSource.updated_at),
+    kind: dbSource.kind ?? 'web',
+    ...getSourceScopeFields(dbSource),
+    ...getSourceRefreshFields(dbSource),
     discoveredPages: pages.map(p => ({
       id: p.id,
       title: p.title || 'Untitled',
       path: p.path,
       status: p.status as DiscoveredPage['status'],
-      content: p.content || undefined,
       url: p.url, 
     } as DiscoveredPage & { url?: string })),
   };
@@ -0,0 +1,35 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuthContext } from '@/contexts/AuthContext';
+import { USAGE_SUMMARY } from '@/lib/queryKeys';
+import { usageApi } from '@/lib/db/usage';
+
+const LIVE_USAGE_REFETCH_MS = 5000;
+
+function startOfMonth(): Date {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+/** Totals since the first of the current month, in the user's time zone. */
+export const useMonthlyUsage = (enabled = true) => {
+  const { user } = useAuthContext();
+  const since = startOfMonth();
+  return useQuery({
+    queryKey: [USAGE_SUMMARY, user?.id, 'month', since.toISOString()],
+    queryFn: () => usageApi.summary({ since }),
+    enabled: !!user && enabled,
+  });
+};
+
+/** All-time totals for a source; polls while live so embedding costs climb with the crawl. */
+export const useSourceUsage = (sourceId: string | null, live = false) => {
+  return useQuery({
+    queryKey: [USAGE_SUMMARY, 'source', sourceId],
+    queryFn: () => {
+      if (!sourceId) throw new Error('Source ID required');
+      return usageApi.summary({ sourceId });
+    },
+    enabled: !!sourceId,
+    refetchInterval: live ? LIVE_USAGE_REFETCH_MS : false,
+  });
+};
@@ -5,6 +5,7 @@
 
 import { sourcesApi } from './sources';
 import { crawlJobsApi } from './crawl-jobs';
+import { sourceFilesApi } from './source-files';
 import type { Source } from './types';
 
 export const conversationSourcesApi = {
@@ -45,6 +46,7 @@ export const conversationSourcesApi = {
   },
 
   async remove(conversationId: string, sourceId: string) {
+    await sourceFilesApi.removeForSource(sourceId);
     await sourcesApi.delete(sourceId);
   },
 };
\ No newline at end of file
@@ -33,7 +33,7 @@ export const crawlJobsApi = {
       .from('crawl_jobs')
       .select('*')
       .in('source_id', sourceIds)
-      .is('explicit_crawl_urls', null)
+      .or('explicit_crawl_urls.is.null,retry_failed.eq.true')
       .order('created_at', { ascending: false });
 
     if (error) throw error;
@@ -63,7 +63,7 @@ export const crawlJobsApi = {
       .from('crawl_jobs')
       .select('*')
       .eq('source_id', sourceId)
-      .is('explicit_crawl_urls', null)
+      .or('explicit_crawl_urls.is.null,retry_failed.eq.true')
       .order('created_at', { ascending: false })
       .limit(1)
       .maybeSingle();
@@ -79,6 +79,7 @@ export const crawlJobsApi = {
       .select('*')
       .eq('source_id', sourceId)
       .not('explicit_crawl_urls', 'is', null)
+      .eq('retry_failed', false)
       .order('created_at', { ascending: false })
       .limit(1)
       .maybeSingle();
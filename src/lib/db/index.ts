@@ -6,4 +6,7 @@ export * from './sources';
 export * from './conversation-sources';
 export * from './crawl-jobs';
 export * from './pages';
-export * from './discovered-links';
\ No newline at end of file
+export * from './discovered-links';
+export * from './source-files';
+export * from './rag-runs';
+export * from './usage';
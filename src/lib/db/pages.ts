@@ -1,6 +1,9 @@
 import { supabase } from '@/lib/supabase';
-import type { Page, PageEdge } from './types';
+import type { Page, PageEdge, PageSummary } from './types';
 
+// Lists skip content and content_blocks: a conversation can hold thousands of pages.
+const PAGE_LIST_COLUMNS =
+  'id, source_id, url, title, path, content_hash, content_type, storage_path, status, error_message, http_status, last_error_at, final_url, canonical_url, created_at, updated_at, owner_id';
 
 const PAGE_EDGES_CHUNK = 1000;
 
@@ -27,12 +30,12 @@ export const pagesApi = {
   async listBySource(sourceId: string) {
     const { data, error } = await supabase
       .from('pages')
-      .select('*')
+      .select(PAGE_LIST_COLUMNS)
       .eq('source_id', sourceId)
       .order('created_at', { ascending: true });
 
     if (error) throw error;
-    return data as Page[];
+    return data as PageSummary[];
   },
 
   async listByConversation(conversationId: string) {
@@ -42,11 +45,11 @@ export const pagesApi = {
       .select('id')
       .eq('conversation_id', conversationId);
     const sourceIds = (sources ?? []).map((s) => s.id);
-    if (sourceIds.length === 0) return [] as Page[];
+    if (sourceIds.length === 0) return [] as PageSummary[];
 
     const { data, error } = await supabase
       .from('pages')
-      .select('*')
+      .select(PAGE_LIST_COLUMNS)
       .in('source_id', sourceIds)
       .eq('status', 'indexed') 
       .order('created_at', { ascending: true });
@@ -55,7 +58,7 @@ export const pagesApi = {
       console.error('[pages] listByConversation error:', error.message);
       throw error;
     }
-    return data as Page[];
+    return data as PageSummary[];
   },
 
   async get(id: string) {
@@ -68,6 +71,13 @@ export const pagesApi = {
     if (error) throw error;
     return data as Page;
   },
+
+  async getContent(id: string) {
+    const { data, error } = await supabase.from('pages').select('id, content').eq('id', id).single();
+
+    if (error) throw error;
+    return data as Pick<Page, 'id' | 'content'>;
+  },
 };
 
 export const pageEdgesApi = {
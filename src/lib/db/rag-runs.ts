@@ -0,0 +1,19 @@
+import { supabase } from '@/lib/supabase';
+import type { RagRun } from './types';
+
+export const ragRunsApi = {
+  /** The conversation's newest run that is still going, e.g. one started before the page was reloaded. */
+  async getRunning(conversationId: string) {
+    const { data, error } = await supabase
+      .from('rag_runs')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .eq('status', 'running')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as RagRun | null;
+  },
+};
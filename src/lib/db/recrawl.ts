@@ -13,6 +13,43 @@ function recrawlLog(...args: unknown[]) {
 
 
 
+/**
+ * Cancels the source's in-flight jobs. The worker stops at its next page or embedding batch; pages
+ * and chunks stored before that stay searchable. Returns how many jobs were cancelled.
+ */
+export async function cancelActiveCrawlJobs(sourceId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('crawl_jobs')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('source_id', sourceId)
+    .in('status', ['queued', 'running', 'indexing', 'encoding', 'paused'])
+    .select('id');
+  if (error) throw error;
+  return data?.length ?? 0;
+}
+
+/**
+ * Pauses the source's in-flight jobs. The worker saves its crawl frontier at the next page and
+ * stops; resuming requeues the job, which continues from that frontier.
+ */
+export async function pauseCrawlJobs(sourceId: string): Promise<void> {
+  const { error } = await supabase
+    .from('crawl_jobs')
+    .update({ status: 'paused', updated_at: new Date().toISOString() })
+    .eq('source_id', sourceId)
+    .in('status', ['queued', 'running', 'indexing']);
+  if (error) throw error;
+}
+
+export async function resumeCrawlJobs(sourceId: string): Promise<void> {
+  const { error } = await supabase
+    .from('crawl_jobs')
+    .update({ status: 'queued', updated_at: new Date().toISOString() })
+    .eq('source_id', sourceId)
+    .eq('status', 'paused');
+  if (error) throw error;
+}
+
 export async function recrawlSource(conversationId: string, sourceId: string): Promise<void> {
   recrawlLog('START', { conversationId: conversationId.slice(0, 8), sourceId: sourceId.slice(0, 8) });
 
@@ -35,55 +72,11 @@ export async function recrawlSource(conversationId: string, sourceId: string): P
     recrawlLog('dynamic source, seedUrls count:', seedUrls?.length ?? 0);
   }
 
-  
-  const { data: jobs } = await supabase
-    .from('crawl_jobs')
-    .select('id, status')
-    .eq('source_id', sourceId)
-    .in('status', ['queued', 'running', 'indexing']);
-
-  recrawlLog('cancelled jobs:', jobs?.length ?? 0, jobs?.map((j) => ({ id: j.id.slice(0, 8), status: j.status })));
-  for (const job of jobs ?? []) {
-    await supabase
-      .from('crawl_jobs')
-      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
-      .eq('id', job.id);
-  }
-
-  
-  const { data: pages } = await supabase
-    .from('pages')
-    .select('id')
-    .eq('source_id', sourceId);
-
-  const pageIds = (pages ?? []).map((p) => p.id);
-
-  
-  recrawlLog('pageIds to delete:', pageIds.length);
-  if (pageIds.length > 0) {
-    const { error: chunksErr } = await supabase.from('chunks').delete().in('page_id', pageIds);
-    if (chunksErr) recrawlLog('chunks delete error:', chunksErr);
-  }
-
-  
+  const cancelled = await cancelActiveCrawlJobs(sourceId);
+  recrawlLog('cancelled jobs:', cancelled);
 
-  
-  if (pageIds.length > 0) {
-    const { error: edgesErr } = await supabase
-      .from('page_edges')
-      .delete()
-      .in('from_page_id', pageIds);
-    if (edgesErr) recrawlLog('page_edges delete error:', edgesErr);
-  }
-
-  
-  const { error: pagesErr } = await supabase
-    .from('pages')
-    .delete()
-    .eq('source_id', sourceId);
-  if (pagesErr) recrawlLog('pages delete error:', pagesErr);
-
-  
+  // Pages and chunks are kept: the crawler refreshes pages in place and the indexer only
+  // re-chunks pages whose text changed, re-embedding just the chunks that differ.
   const newJobPayload: CrawlJobInsert = {
     source_id: sourceId,
     status: 'queued',
@@ -99,8 +92,42 @@ export async function recrawlSource(conversationId: string, sourceId: string): P
     encoding_chunks_total: 0,
     encoding_discovered_done: 0,
     encoding_discovered_total: 0,
+    pages_changed: null,
+    pages_unchanged: null,
   };
   recrawlLog('creating new job with zeroed counts:', newJobPayload);
   const newJob = await crawlJobsApi.create(newJobPayload);
   recrawlLog('DONE new job id:', newJob.id?.slice(0, 8), 'status:', newJob.status, 'discovered_count:', newJob.discovered_count, 'indexed_count:', newJob.indexed_count);
-}
\ No newline at end of file
+}
+/** Queues a job that re-fetches only the source's failed pages. Returns how many were queued. */
+export async function retryFailedPages(sourceId: string): Promise<number> {
+  const { data: failed, error } = await supabase
+    .from('pages')
+    .select('url')
+    .eq('source_id', sourceId)
+    .eq('status', 'error');
+  if (error) throw error;
+  const urls = (failed ?? []).map((p) => p.url);
+  if (urls.length === 0) return 0;
+
+  await crawlJobsApi.create({
+    source_id: sourceId,
+    status: 'queued',
+    indexed_count: 0,
+    discovered_count: 0,
+    total_pages: urls.length,
+    error_message: null,
+    started_at: null,
+    completed_at: null,
+    last_activity_at: null,
+    explicit_crawl_urls: urls,
+    retry_failed: true,
+    encoding_chunks_done: 0,
+    encoding_chunks_total: 0,
+    encoding_discovered_done: 0,
+    encoding_discovered_total: 0,
+    pages_changed: null,
+    pages_unchanged: null,
+  });
+  return urls.length;
+}
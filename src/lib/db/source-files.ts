@@ -0,0 +1,84 @@
+import { supabase } from '@/lib/supabase';
+import type { Page } from './types';
+
+export const SOURCE_FILES_BUCKET = 'source-files';
+
+export const ACCEPTED_SOURCE_FILE_EXTENSIONS = ['.md', '.markdown', '.txt', '.html', '.htm', '.pdf', '.docx'];
+
+export const MAX_SOURCE_FILE_BYTES = 20 * 1024 * 1024;
+
+export function isAcceptedSourceFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return ACCEPTED_SOURCE_FILE_EXTENSIONS.some((ext) => name.endsWith(ext));
+}
+
+/** Pseudo-URL for an uploaded file's page; unique per source like crawled page URLs. */
+export function fileSourcePageUrl(sourceId: string, fileName: string): string {
+  return `file:///${sourceId}/${encodeURIComponent(fileName)}`;
+}
+
+export function isFileSourcePageUrl(url: string): boolean {
+  return url.startsWith('file:');
+}
+
+/** Unique per upload: sanitizing alone maps `a b.md` and `a_b.md` to the same object. */
+function storageName(fileName: string): string {
+  return `${crypto.randomUUID()}-${fileName.replace(/[^\w.-]+/g, '_')}`;
+}
+
+export const sourceFilesApi = {
+  /**
+   * Uploads files to <owner_id>/<source_id>/ and creates one pending page per file; the worker
+   * extracts and indexes them when the source's crawl job runs.
+   */
+  async upload(sourceId: string, files: File[]) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Authentication required');
+    const pages: Page[] = [];
+    for (const file of files) {
+      if (file.size > MAX_SOURCE_FILE_BYTES) throw new Error(`${file.name} is larger than 20 MB`);
+      const storagePath = `${user.id}/${sourceId}/${storageName(file.name)}`;
+      const { error: uploadError } = await supabase.storage
+        .from(SOURCE_FILES_BUCKET)
+        .upload(storagePath, file, { contentType: file.type || undefined });
+      if (uploadError) throw uploadError;
+
+      const { data, error } = await supabase
+        .from('pages')
+        .insert({
+          source_id: sourceId,
+          url: fileSourcePageUrl(sourceId, file.name),
+          title: file.name,
+          path: `/${file.name}`,
+          status: 'pending',
+          storage_path: storagePath,
+          content_type: file.type || null,
+          owner_id: user.id,
+        })
+        .select()
+        .single();
+      if (error) {
+        await supabase.storage.from(SOURCE_FILES_BUCKET).remove([storagePath]);
+        throw error;
+      }
+      pages.push(data as Page);
+    }
+    return pages;
+  },
+
+  /** Opens the stored original in a new tab through a short-lived signed URL. */
+  async openFile(storagePath: string, hash = '') {
+    const { data, error } = await supabase.storage.from(SOURCE_FILES_BUCKET).createSignedUrl(storagePath, 60);
+    if (error || !data?.signedUrl) throw error ?? new Error('Could not open file');
+    window.open(`${data.signedUrl}${hash}`, '_blank', 'noopener,noreferrer');
+  },
+
+  async removeForSource(sourceId: string) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+    const folder = `${user.id}/${sourceId}`;
+    const { data: objects } = await supabase.storage.from(SOURCE_FILES_BUCKET).list(folder);
+    if (!objects?.length) return;
+    await supabase.storage.from(SOURCE_FILES_BUCKET).remove(objects.map((o) => `${folder}/${o.name}`));
+  },
+};
@@ -17,6 +17,9 @@ export interface MessageQuote {
   domain: string;
   contextBefore?: string;
   contextAfter?: string;
+  startIndex?: number;
+  endIndex?: number;
+  pageNumber?: number;
 }
 
 export interface Message {
@@ -36,6 +39,19 @@ export interface Message {
 
 export type SuggestionMode = 'surface' | 'dive';
 
+export type RefreshInterval = 'off' | 'daily' | 'weekly';
+
+export type SourceKind = 'web' | 'file';
+
+export type FetchStrategy = 'auto' | 'static' | 'browser';
+
+export interface CrawlBudget {
+  max_pages?: number | null;
+  max_link_depth?: number | null;
+  max_pages_per_prefix?: number | null;
+  max_total_bytes?: number | null;
+}
+
 export interface Source {
   id: string;
   owner_id: string;
@@ -43,9 +59,19 @@ export interface Source {
   initial_url: string;
   domain: string;
   source_label?: string | null; 
+  kind?: SourceKind;
   crawl_depth: 'shallow' | 'medium' | 'deep' | 'singular' | 'dynamic';
   suggestion_mode: SuggestionMode; 
   same_domain_only: boolean;
+  fetch_strategy?: FetchStrategy;
+  include_patterns?: string[];
+  exclude_patterns?: string[];
+  use_sitemap?: boolean;
+  crawl_budget?: CrawlBudget | null;
+  refresh_interval?: RefreshInterval;
+  next_refresh_at?: string | null;
+  last_refreshed_at?: string | null;
+  last_content_changed_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -60,7 +86,7 @@ export interface ConversationSource {
 export interface CrawlJob {
   id: string;
   source_id: string;
-  status: 'queued' | 'running' | 'indexing' | 'encoding' | 'completed' | 'failed' | 'cancelled';
+  status: 'queued' | 'running' | 'indexing' | 'encoding' | 'completed' | 'failed' | 'cancelled' | 'paused';
   indexed_count?: number;
   discovered_count?: number;
   total_pages: number | null;
@@ -73,6 +99,10 @@ export interface CrawlJob {
   encoding_discovered_done: number;
   encoding_discovered_total?: number | null;
   explicit_crawl_urls?: string[] | null;
+  /** Set on jobs that only re-fetch the source's failed pages (explicit_crawl_urls lists them). */
+  retry_failed?: boolean;
+  pages_changed?: number | null;
+  pages_unchanged?: number | null;
   created_at: string;
   updated_at: string;
   owner_id: string;
@@ -85,7 +115,15 @@ export interface Page {
   title: string | null;
   path: string;
   content: string | null;
+  content_hash?: string | null;
+  content_type?: string | null;
+  storage_path?: string | null;
   status: 'pending' | 'crawling' | 'indexed' | 'error';
+  error_message?: string | null;
+  http_status?: number | null;
+  last_error_at?: string | null;
+  final_url?: string | null;
+  canonical_url?: string | null;
   created_at: string;
   updated_at: string;
   owner_id: string;
@@ -108,9 +146,13 @@ export interface Chunk {
   id: string;
   page_id: string;
   content: string;
+  content_hash: string | null;
   start_index: number | null;
   end_index: number | null;
+  page_number: number | null;
   embedding: number[] | null;
+  embedding_model: string | null;
+  embedding_dimensions: number | null;
   created_at: string;
   owner_id: string;
 }
@@ -126,10 +168,31 @@ export interface Quote {
   page_url: string | null;
   context_before: string | null;
   context_after: string | null;
+  start_index: number | null;
+  end_index: number | null;
+  page_number: number | null;
   owner_id: string;
   created_at: string;
 }
 
+/** One chat-with-rag run, keyed by the user message that asked the question. */
+export interface RagRun {
+  root_message_id: string;
+  conversation_id: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  owner_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Totals from the usage_summary RPC; cost_usd only counts calls to models with a known price. */
+export interface UsageSummary {
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+  call_count: number;
+}
+
 
 export type ConversationInsert = Omit<Conversation, 'id' | 'created_at' | 'updated_at' | 'owner_id'> & {
   owner_id?: string | null;
@@ -145,4 +208,7 @@ export type SourceInsert = Omit<Source, 'id' | 'created_at' | 'updated_at' | 'ow
 
 export type CrawlJobInsert = Omit<CrawlJob, 'id' | 'created_at' | 'updated_at' | 'owner_id'> & {
   owner_id?: string | null;
-};
\ No newline at end of file
+};
+
+/** Page row as listed for sources and conversations, without the page text. */
+export type PageSummary = Omit<Page, 'content'>;
\ No newline at end of file
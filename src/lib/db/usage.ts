@@ -0,0 +1,21 @@
+import { supabase } from '@/lib/supabase';
+import type { UsageSummary } from './types';
+
+export const usageApi = {
+  /** The signed-in user's model and embedding usage, optionally since a date and for one source. */
+  async summary(options: { since?: Date; sourceId?: string } = {}): Promise<UsageSummary> {
+    const { data, error } = await supabase.rpc('usage_summary', {
+      p_since: options.since?.toISOString() ?? null,
+      p_source_id: options.sourceId ?? null,
+    });
+
+    if (error) throw error;
+    const row = (Array.isArray(data) ? data[0] : data) as Record<string, number | string> | null;
+    return {
+      prompt_tokens: Number(row?.prompt_tokens ?? 0),
+      completion_tokens: Number(row?.completion_tokens ?? 0),
+      cost_usd: Number(row?.cost_usd ?? 0),
+      call_count: Number(row?.call_count ?? 0),
+    };
+  },
+};
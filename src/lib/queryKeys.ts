@@ -37,6 +37,9 @@ export const PAGE_GRAPH_EDGES_FOR_CONVERSATION = 'page-graph-edges-for-conversat
 export const PAGES_BY_SOURCE = 'pages-by-source';
 
 
+export const PAGE_CONTENT = 'page-content';
+
+
 
 export const COUNTS_OF_DISCOVERED_LINKS_BY_CONVERSATION = 'counts-of-discovered-links-by-conversation';
 
@@ -47,4 +50,7 @@ export const COUNT_OF_DISCOVERED_LINKS_BY_SOURCE = 'count-of-discovered-links-by
 export const ENCODED_COUNTS_OF_DISCOVERED_LINKS_BY_CONVERSATION = 'encoded-counts-of-discovered-links-by-conversation';
 
 
-export const ENCODED_COUNT_OF_DISCOVERED_LINKS_BY_SOURCE = 'encoded-count-of-discovered-links-by-source';
\ No newline at end of file
+export const ENCODED_COUNT_OF_DISCOVERED_LINKS_BY_SOURCE = 'encoded-count-of-discovered-links-by-source';
+
+
+export const USAGE_SUMMARY = 'usage-summary';
\ No newline at end of file
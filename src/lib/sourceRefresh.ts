@@ -0,0 +1,30 @@
+import type { RefreshInterval } from '@/types/source';
+
+export const REFRESH_INTERVAL_OPTIONS: { value: RefreshInterval; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+];
+
+const REFRESH_INTERVAL_MS: Record<Exclude<RefreshInterval, 'off'>, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+export function nextRefreshAt(interval: RefreshInterval, from: Date = new Date()): string | null {
+  if (interval === 'off') return null;
+  return new Date(from.getTime() + REFRESH_INTERVAL_MS[interval]).toISOString();
+}
+
+
+export function getSourceRefreshFields(db: {
+  refresh_interval?: RefreshInterval;
+  last_refreshed_at?: string | null;
+  last_content_changed_at?: string | null;
+}): { refreshInterval: RefreshInterval; lastRefreshedAt: Date | null; lastContentChangedAt: Date | null } {
+  return {
+    refreshInterval: db.refresh_interval ?? 'off',
+    lastRefreshedAt: db.last_refreshed_at ? new Date(db.last_refreshed_at) : null,
+    lastContentChangedAt: db.last_content_changed_at ? new Date(db.last_content_changed_at) : null,
+  };
+}
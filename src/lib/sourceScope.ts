@@ -0,0 +1,101 @@
+import type { CrawlBudget, CrawlDepth, FetchStrategy, Source } from '@/types/source';
+import type { CrawlBudget as DbCrawlBudget, CrawlJob } from '@/lib/db/types';
+import { compilePathPattern, splitPathPatterns } from '@shared/pathRegex';
+
+/** Mirrors the worker's MAX_PAGES presets. */
+export const DEPTH_PAGE_LIMITS: Record<CrawlDepth, number> = {
+  shallow: 5,
+  medium: 15,
+  deep: 35,
+  singular: 1,
+  dynamic: 1,
+};
+
+export const MAX_CUSTOM_PAGES = 2000;
+
+/** One pattern per line: globs like `/docs/**`, or regexes prefixed with `re:` (`rei:` ignores case). */
+export function parsePathPatterns(text: string): string[] {
+  return splitPathPatterns(text);
+}
+
+/**
+ * The first pattern the worker would drop, if any: a regex that does not compile or that
+ * isSafePathRegex refuses as too slow. Uses the worker's own parser, so globs always pass.
+ */
+export function findInvalidPathPattern(patterns: string[]): string | null {
+  return patterns.find((pattern) => compilePathPattern(pattern) === null) ?? null;
+}
+
+export function fromDbCrawlBudget(db: DbCrawlBudget | null | undefined): CrawlBudget | null {
+  if (!db) return null;
+  const budget: CrawlBudget = {
+    maxPages: db.max_pages ?? undefined,
+    maxLinkDepth: db.max_link_depth ?? undefined,
+    maxPagesPerPrefix: db.max_pages_per_prefix ?? undefined,
+    maxTotalBytes: db.max_total_bytes ?? undefined,
+  };
+  return Object.values(budget).some((v) => v != null) ? budget : null;
+}
+
+export function toDbCrawlBudget(budget: CrawlBudget | null | undefined): DbCrawlBudget | null {
+  if (!budget || Object.values(budget).every((v) => v == null)) return null;
+  return {
+    max_pages: budget.maxPages ?? null,
+    max_link_depth: budget.maxLinkDepth ?? null,
+    max_pages_per_prefix: budget.maxPagesPerPrefix ?? null,
+    max_total_bytes: budget.maxTotalBytes ?? null,
+  };
+}
+
+export function getSourceScopeFields(db: {
+  fetch_strategy?: FetchStrategy;
+  include_patterns?: string[] | null;
+  exclude_patterns?: string[] | null;
+  use_sitemap?: boolean;
+  crawl_budget?: DbCrawlBudget | null;
+}): {
+  fetchStrategy: FetchStrategy;
+  includePatterns: string[];
+  excludePatterns: string[];
+  useSitemap: boolean;
+  crawlBudget: CrawlBudget | null;
+} {
+  return {
+    fetchStrategy: db.fetch_strategy ?? 'auto',
+    includePatterns: db.include_patterns ?? [],
+    excludePatterns: db.exclude_patterns ?? [],
+    useSitemap: db.use_sitemap ?? false,
+    crawlBudget: fromDbCrawlBudget(db.crawl_budget),
+  };
+}
+
+/** The most pages a crawl of this source will fetch: its custom budget, else the depth preset. */
+export function pageBudgetForSource(source: Pick<Source, 'crawlDepth' | 'crawlBudget'>): number {
+  const custom = source.crawlBudget?.maxPages;
+  if (custom && custom > 0) return Math.min(custom, MAX_CUSTOM_PAGES);
+  return DEPTH_PAGE_LIMITS[source.crawlDepth] ?? DEPTH_PAGE_LIMITS.medium;
+}
+
+/**
+ * Progress target for a web crawl. While the job runs the worker keeps total_pages at done + queued
+ * (capped by the budget), which is a better estimate than the budget for small sites.
+ */
+export function crawlTargetPages(
+  source: Pick<Source, 'crawlDepth' | 'crawlBudget'>,
+  job?: Pick<CrawlJob, 'status' | 'total_pages'> | null
+): number {
+  const budget = pageBudgetForSource(source);
+  if (job && (job.status === 'running' || job.status === 'indexing') && job.total_pages) {
+    return Math.min(job.total_pages, budget);
+  }
+  return budget;
+}
+
+export function formatCrawlBudget(budget: CrawlBudget): string {
+  const parts: string[] = [];
+  if (budget.maxPages) parts.push(`${budget.maxPages} pages`);
+  if (budget.maxLinkDepth) parts.push(`${budget.maxLinkDepth} link${budget.maxLinkDepth === 1 ? '' : 's'} deep`);
+  if (budget.maxPagesPerPrefix) parts.push(`${budget.maxPagesPerPrefix} per path`);
+  if (budget.maxTotalBytes) parts.push(`${Math.round(budget.maxTotalBytes / (1024 * 1024))} MB`);
+  return parts.join(' · ');
+}
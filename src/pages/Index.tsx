@@ -7,7 +7,7 @@ import { useChatDatabase } from '@/hooks/useChatDatabase';
 import { useAuthContext } from '@/contexts/AuthContext';
 import { useSidebarWidth } from '@/hooks/useSidebarWidth';
 import { Loader2 } from 'lucide-react';
-import { Source, CrawlDepth, SuggestionMode } from '@/types/source';
+import { Source, CrawlDepth, SuggestionMode, AddSourceOptions } from '@/types/source';
 import { cn } from '@/lib/utils';
 import { normalizeSourceUrl } from '@/lib/urlUtils';
 
@@ -45,9 +45,17 @@ const Index = () => {
     selectConversation,
     deleteConversation,
     sendMessage,
+    cancelRun,
+    canCancelRun,
+    quotaExceeded,
     addSourceToConversation,
+    addFileSourceToConversation,
     removeSourceFromConversation,
     recrawlSource,
+    retryFailedPages,
+    cancelCrawl,
+    pauseCrawl,
+    resumeCrawl,
     updateDynamicMode,
     addPageToSource,
     addPageAndContinueResponse,
@@ -117,7 +125,7 @@ const Index = () => {
   const handleAddSource = useCallback(async (
     url: string,
     depth: CrawlDepth,
-    options: { sameDomainOnly: boolean; suggestionMode?: SuggestionMode }
+    options: AddSourceOptions
   ): Promise<Source | null> => {
     if (!user) {
       setGuestModeModalOpen(true);
@@ -134,6 +142,11 @@ const Index = () => {
       crawlDepth: depth,
       suggestionMode: toSuggestionMode(depth === 'dynamic' ? (options.suggestionMode ?? 'surface') : 'surface'),
       sameDomainOnly: options.sameDomainOnly,
+      fetchStrategy: options.fetchStrategy ?? 'auto',
+      includePatterns: options.includePatterns ?? [],
+      excludePatterns: options.excludePatterns ?? [],
+      useSitemap: options.useSitemap ?? false,
+      crawlBudget: options.crawlBudget ?? null,
       pagesIndexed: 0,
       totalPages: 0,
       lastUpdated: new Date(),
@@ -142,6 +155,14 @@ const Index = () => {
     return addSourceToConversation(newSource);
   }, [user, addSourceToConversation]);
 
+  const handleAddFileSource = useCallback(async (files: File[], label: string): Promise<Source | null> => {
+    if (!user) {
+      setGuestModeModalOpen(true);
+      return null;
+    }
+    return addFileSourceToConversation(files, label);
+  }, [user, addFileSourceToConversation]);
+
   
   useEffect(() => {
     setAddingPageSourceId(null);
@@ -204,6 +225,9 @@ const Index = () => {
             onDeleteConversation={deleteConversation}
             currentSources={currentSources}
             addingPageSourceId={addingPageSourceId}
+            onCancelCrawl={cancelCrawl}
+            onPauseCrawl={pauseCrawl}
+            onResumeCrawl={resumeCrawl}
           />
         </div>
         
@@ -233,9 +257,16 @@ const Index = () => {
           ragStepProgress={ragStepProgress}
           liveThoughtProcess={liveThoughtProcess}
           onSendMessage={handleSendMessage}
+          onCancelRun={canCancelRun ? cancelRun : undefined}
+          quotaExceeded={quotaExceeded}
           onAddSource={handleAddSource}
+          onAddFileSource={handleAddFileSource}
           onRemoveSource={removeSourceFromConversation}
           onRecrawlSource={recrawlSource}
+          onRetryFailedPages={retryFailedPages}
+          onCancelCrawl={cancelCrawl}
+          onPauseCrawl={pauseCrawl}
+          onResumeCrawl={resumeCrawl}
           sidebarOpen={sidebarOpen}
           onToggleSidebar={handleToggleSidebar}
           showSignIn={!user}
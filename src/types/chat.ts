@@ -20,7 +20,7 @@ export interface ThoughtProcess {
     iter: number;
     action: string;
     why?: string;
-    subqueries?: { slot: string; query: string }[];
+    subqueries?: { slot: string; query: string; rerankScore?: number }[];
     chunksPerSubquery?: number[];
     quotesFound?: number;
     claims?: unknown[];
@@ -38,6 +38,8 @@ export interface ThoughtProcess {
   expandCorpusReason?: string;
   extractionGaps?: string[];
   partialAnswerNote?: string;
+  /** Tokens and estimated cost of the model calls behind this message; costUsd is null for unpriced models. */
+  usage?: { promptTokens: number; completionTokens: number; costUsd: number | null };
 }
 
 export interface Message {
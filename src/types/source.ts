@@ -1,6 +1,9 @@
-export type SourceStatus = 'ready' | 'crawling' | 'error' | 'outdated';
+export type SourceStatus = 'ready' | 'crawling' | 'error' | 'outdated' | 'paused';
 export type CrawlDepth = 'shallow' | 'medium' | 'deep' | 'singular' | 'dynamic';
 export type SuggestionMode = 'surface' | 'dive';
+export type RefreshInterval = 'off' | 'daily' | 'weekly';
+export type SourceKind = 'web' | 'file';
+export type FetchStrategy = 'auto' | 'static' | 'browser';
 
 export interface DiscoveredPage {
   id: string;
@@ -10,19 +13,51 @@ export interface DiscoveredPage {
   content?: string;
 }
 
+/** Custom crawl profile; unset limits fall back to the depth preset (pages) or no limit. */
+export interface CrawlBudget {
+  maxPages?: number;
+  /** Link hops from the starting URL. */
+  maxLinkDepth?: number;
+  /** Pages per first path segment, e.g. at most 50 under /blog. */
+  maxPagesPerPrefix?: number;
+  maxTotalBytes?: number;
+}
+
+export interface AddSourceOptions {
+  sameDomainOnly: boolean;
+  suggestionMode?: SuggestionMode;
+  fetchStrategy?: FetchStrategy;
+  includePatterns?: string[];
+  excludePatterns?: string[];
+  useSitemap?: boolean;
+  crawlBudget?: CrawlBudget | null;
+}
+
 export interface Source {
   id: string;
   initial_url: string;
   domain: string;
   source_label?: string | null; 
+  /** 'file' sources are uploaded documents with no URL to crawl. */
+  kind?: SourceKind;
   status: SourceStatus;
   crawlDepth: CrawlDepth;
   suggestionMode: SuggestionMode; 
   sameDomainOnly: boolean;
+  /** `auto` renders in a headless browser only when the static HTML has too little text. */
+  fetchStrategy?: FetchStrategy;
+  /** Path globs (or /regex/) limiting which discovered URLs a crawl follows. */
+  includePatterns?: string[];
+  excludePatterns?: string[];
+  useSitemap?: boolean;
+  crawlBudget?: CrawlBudget | null;
   pagesIndexed: number;
   totalPages: number;
   lastUpdated: Date;
   discoveredPages: DiscoveredPage[];
+  refreshInterval?: RefreshInterval;
+  lastRefreshedAt?: Date | null;
+  lastContentChangedAt?: Date | null;
 }
 
 export interface Quote {
@@ -36,6 +71,11 @@ export interface Quote {
   pageUrl?: string; 
   contextBefore?: string;
   contextAfter?: string;
+  /** Exact span of the snippet in the page's stored content, when known. */
+  startIndex?: number;
+  endIndex?: number;
+  /** PDF page the quoted chunk starts on. */
+  pageNumber?: number;
 }
 
 export interface SourcedMessage {
@@ -0,0 +1,84 @@
+/**
+ * Embedding provider selection and the hash embedder, shared by the worker (chunks and links) and
+ * chat-with-rag (queries): both sides must resolve to the same model or match_chunks distances are
+ * meaningless. Imported by path from both runtimes, so it must stay free of imports and
+ * runtime-specific APIs.
+ */
+
+/** Width of the vector columns (chunks.embedding, encoded_discovered.embedding). */
+export const EMBEDDING_COLUMN_DIMENSIONS = 1536;
+
+export const DEFAULT_EMBEDDING_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+export type EmbeddingProviderKind = 'openai' | 'http' | 'hash';
+
+/** `openai` and `http` both resolve to an OpenAI-compatible /embeddings endpoint. */
+export type EmbeddingConfig =
+  | { kind: 'hash'; model: string; dimensions: number }
+  | { kind: 'endpoint'; baseUrl: string; model: string; apiKey?: string; dimensions: number };
+
+/**
+ * `fatal` marks settings that can never work (unknown provider, missing base URL, dimensions the
+ * vector columns cannot store); a missing API key only means embedding is switched off.
+ */
+export type EmbeddingConfigError = { error: string; fatal: boolean };
+
+function fnv1a(str: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Deterministic feature-hashing embedder. No network, no key; good enough for local runs and tests
+ * where only lexical overlap matters.
+ */
+export function hashEmbed(text: string, dimensions: number): number[] {
+  const vec = new Array<number>(dimensions).fill(0);
+  const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  for (const token of tokens) {
+    const h = fnv1a(token);
+    const idx = h % dimensions;
+    vec[idx] += (h & 0x80000000) !== 0 ? -1 : 1;
+  }
+  let norm = 0;
+  for (const v of vec) norm += v * v;
+  norm = Math.sqrt(norm);
+  if (norm === 0) {
+    vec[0] = 1;
+    return vec;
+  }
+  return vec.map((v) => v / norm);
+}
+
+/** Resolves EMBEDDING_PROVIDER (openai | http | hash), EMBEDDING_MODEL, EMBEDDING_BASE_URL, EMBEDDING_DIMENSIONS and the key. */
+export function resolveEmbeddingConfig(env: (name: string) => string | undefined): EmbeddingConfig | EmbeddingConfigError {
+  const kind = (env('EMBEDDING_PROVIDER') || 'openai').toLowerCase() as EmbeddingProviderKind;
+  const dimensions = Number(env('EMBEDDING_DIMENSIONS')) || EMBEDDING_COLUMN_DIMENSIONS;
+  if (dimensions !== EMBEDDING_COLUMN_DIMENSIONS) {
+    return {
+      error: `EMBEDDING_DIMENSIONS=${dimensions} does not match the vector(${EMBEDDING_COLUMN_DIMENSIONS}) embedding columns`,
+      fatal: true,
+    };
+  }
+  const model = env('EMBEDDING_MODEL') || DEFAULT_EMBEDDING_MODEL;
+  const baseUrl = env('EMBEDDING_BASE_URL');
+  switch (kind) {
+    case 'hash':
+      return { kind: 'hash', model: `hash-v1-${dimensions}`, dimensions };
+    case 'http':
+      if (!baseUrl) return { error: 'EMBEDDING_PROVIDER=http requires EMBEDDING_BASE_URL', fatal: true };
+      return { kind: 'endpoint', baseUrl, model, apiKey: env('EMBEDDING_API_KEY'), dimensions };
+    case 'openai': {
+      const apiKey = env('EMBEDDING_API_KEY') || env('OPENAI_API_KEY');
+      if (!apiKey) return { error: 'OPENAI_API_KEY secret not configured', fatal: false };
+      return { kind: 'endpoint', baseUrl: baseUrl || DEFAULT_EMBEDDING_BASE_URL, model, apiKey, dimensions };
+    }
+    default:
+      return { error: `Unknown EMBEDDING_PROVIDER: ${kind}`, fatal: true };
+  }
+}
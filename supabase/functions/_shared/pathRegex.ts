@@ -0,0 +1,98 @@
+/**
+ * Source path patterns and the limits on user-supplied regexes, which the worker runs against
+ * every crawled URL. The app validates with the same parser the worker filters with. Imported by
+ * path from the worker and the app, so it must stay free of imports and runtime-specific APIs.
+ */
+
+export const MAX_PATH_REGEX_LENGTH = 200;
+
+/** Marks a pattern as a regex (`re:^/api/v\d+/`); `rei:` makes it case-insensitive. */
+export const PATH_REGEX_PREFIX = 're:';
+export const PATH_REGEX_PREFIX_IGNORE_CASE = 'rei:';
+
+const REPEAT = new Set(['*', '+', '{']);
+
+/**
+ * Rejects patterns that can backtrack catastrophically: over MAX_PATH_REGEX_LENGTH characters,
+ * backreferences, or a repeated group that itself contains a repetition or an alternation (as in
+ * `(a+)+` or `(a|ab)*`). Simple path regexes like `^/api/v\d+/` pass.
+ */
+export function isSafePathRegex(source: string): boolean {
+  if (source.length > MAX_PATH_REGEX_LENGTH) return false;
+  // One entry per open group: whether it contains a repetition or an alternation.
+  const groups: boolean[] = [false];
+  let inClass = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === '\\') {
+      if (!inClass && /[1-9k]/.test(source[i + 1] ?? '')) return false;
+      i++;
+      continue;
+    }
+    if (inClass) {
+      if (ch === ']') inClass = false;
+      continue;
+    }
+    if (ch === '[') {
+      inClass = true;
+    } else if (ch === '(') {
+      groups.push(false);
+    } else if (ch === ')') {
+      const risky = groups.length > 1 ? groups.pop()! : false;
+      if (risky && REPEAT.has(source[i + 1] ?? '')) return false;
+      groups[groups.length - 1] ||= risky;
+    } else if (ch === '|' || REPEAT.has(ch)) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return true;
+}
+
+/** One pattern per line; blank lines and repeats are dropped. Commas are literal, since regexes use them. */
+export function splitPathPatterns(text: string): string[] {
+  const patterns = text
+    .split('\n')
+    .map((p) => p.trim())
+    .filter((p) => p.length > 0);
+  return [...new Set(patterns)];
+}
+
+/**
+ * Compiles one path pattern to a regex over the URL pathname, or null when it is empty, does not
+ * parse, or fails isSafePathRegex. Patterns starting with `re:` (or `rei:` for case-insensitive)
+ * are regexes; anything else is a glob like `/docs/**`, where `*` stays within one path segment,
+ * `**` spans segments and `?` is one character. Only the `i` flag is ever set: `g` and `y` would
+ * make `test` stateful across URLs.
+ */
+export function compilePathPattern(pattern: string): RegExp | null {
+  const trimmed = pattern.trim();
+  if (!trimmed) return null;
+  const ignoreCase = trimmed.startsWith(PATH_REGEX_PREFIX_IGNORE_CASE);
+  if (ignoreCase || trimmed.startsWith(PATH_REGEX_PREFIX)) {
+    const source = trimmed.slice(ignoreCase ? PATH_REGEX_PREFIX_IGNORE_CASE.length : PATH_REGEX_PREFIX.length);
+    if (!source || !isSafePathRegex(source)) return null;
+    try {
+      return new RegExp(source, ignoreCase ? 'i' : '');
+    } catch {
+      return null;
+    }
+  }
+  const glob = trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*' && glob[i + 1] === '*') {
+      // `/**` also matches the directory itself (`/docs/**` matches `/docs`).
+      if (source.endsWith('/')) source = `${source.slice(0, -1)}(?:/.*)?`;
+      else source += '.*';
+      i++;
+    } else if (ch === '*') {
+      source += '[^/]*';
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}/?$`);
+}
@@ -0,0 +1,87 @@
+/**
+ * Per-user limits, checked by the worker before a crawl job starts and by chat-with-rag before a
+ * run plans. Imported by path from the edge function, the worker and the app, so it must stay free
+ * of imports and runtime-specific APIs.
+ */
+
+export type QuotaKind = 'pages_per_day' | 'embedding_tokens_per_day' | 'rag_runs_per_hour';
+
+/** Row returned by the user_quota_status RPC. */
+export type QuotaStatusRow = {
+  max_pages_per_day: number | null;
+  max_embedding_tokens_per_day: number | null;
+  max_rag_runs_per_hour: number | null;
+  pages_today: number | string;
+  pages_window_start: string | null;
+  embedding_tokens_today: number | string;
+  embedding_window_start: string | null;
+  rag_runs_last_hour: number | string;
+  rag_runs_window_start: string | null;
+};
+
+/** Sent as `quota` next to `error` on the NDJSON stream; the worker stores the message in crawl_jobs.error_message. */
+export type QuotaExceeded = {
+  kind: QuotaKind;
+  limit: number;
+  used: number;
+  /** When the oldest use in the window ages out; null when unknown. */
+  retryAt: string | null;
+};
+
+/** Environment variable holding the default limit when the user has no user_quotas value. */
+export const QUOTA_ENV: Record<QuotaKind, string> = {
+  pages_per_day: 'QUOTA_MAX_PAGES_PER_DAY',
+  embedding_tokens_per_day: 'QUOTA_MAX_EMBEDDING_TOKENS_PER_DAY',
+  rag_runs_per_hour: 'QUOTA_MAX_RAG_RUNS_PER_HOUR',
+};
+
+const QUOTA_WINDOW_MS: Record<QuotaKind, number> = {
+  pages_per_day: 24 * 60 * 60 * 1000,
+  embedding_tokens_per_day: 24 * 60 * 60 * 1000,
+  rag_runs_per_hour: 60 * 60 * 1000,
+};
+
+function positive(value: number | string | null | undefined): number | null {
+  const n = Number(value);
+  return value != null && value !== '' && Number.isFinite(n) && n > 0 ? Math.floor(n) : null;
+}
+
+/** The user's own limit, else the environment default; null means unlimited. */
+export function quotaLimit(kind: QuotaKind, row: QuotaStatusRow | null, env: (name: string) => string | undefined): number | null {
+  const own =
+    kind === 'pages_per_day'
+      ? row?.max_pages_per_day
+      : kind === 'embedding_tokens_per_day'
+        ? row?.max_embedding_tokens_per_day
+        : row?.max_rag_runs_per_hour;
+  return positive(own) ?? positive(env(QUOTA_ENV[kind]));
+}
+
+export function quotaUsed(kind: QuotaKind, row: QuotaStatusRow | null): number {
+  if (!row) return 0;
+  const used = kind === 'pages_per_day' ? row.pages_today : kind === 'embedding_tokens_per_day' ? row.embedding_tokens_today : row.rag_runs_last_hour;
+  return Number(used) || 0;
+}
+
+/** Null while the user is under the limit (or has none). */
+export function checkQuota(kind: QuotaKind, row: QuotaStatusRow | null, env: (name: string) => string | undefined): QuotaExceeded | null {
+  const limit = quotaLimit(kind, row, env);
+  if (limit == null) return null;
+  const used = quotaUsed(kind, row);
+  if (used < limit) return null;
+  const windowStart =
+    kind === 'pages_per_day' ? row?.pages_window_start : kind === 'embedding_tokens_per_day' ? row?.embedding_window_start : row?.rag_runs_window_start;
+  const retryAt = windowStart ? new Date(new Date(windowStart).getTime() + QUOTA_WINDOW_MS[kind]).toISOString() : null;
+  return { kind, limit, used, retryAt };
+}
+
+export function quotaExceededMessage(quota: Pick<QuotaExceeded, 'kind' | 'limit'>): string {
+  switch (quota.kind) {
+    case 'pages_per_day':
+      return `Daily crawl limit reached (${quota.limit} pages per 24 hours).`;
+    case 'embedding_tokens_per_day':
+      return `Daily embedding limit reached (${quota.limit.toLocaleString('en-US')} tokens per 24 hours).`;
+    case 'rag_runs_per_hour':
+      return `Question limit reached (${quota.limit} per hour).`;
+  }
+}
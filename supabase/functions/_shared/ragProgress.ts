@@ -0,0 +1,99 @@
+/**
+ * Progress events chat-with-rag streams while it reasons, as `{ progress: RagProgressEvent }` NDJSON
+ * lines, and the reducer the app folds them into its live thought process with. Imported by path
+ * from the edge function and the app, so it must stay free of imports and runtime-specific APIs.
+ */
+
+export type ProgressSlot = { name: string; type: string; description?: string; dependsOn?: string };
+
+export type ProgressSubquery = { slot: string; query: string; rerankScore?: number };
+
+export type ProgressStep = {
+  iter: number;
+  action: string;
+  why?: string;
+  subqueries?: ProgressSubquery[];
+  chunksPerSubquery?: number[];
+  quotesFound?: number;
+  claims?: unknown[];
+  completeness?: number;
+  fillStatusBySlot?: Record<string, string>;
+  statements?: string[];
+  nextAction?: string;
+};
+
+export type ProgressThoughtProcess = {
+  slots?: ProgressSlot[];
+  planReason?: string;
+  steps?: ProgressStep[];
+  completeness?: number;
+  hardStopReason?: string;
+  expandCorpusReason?: string;
+  extractionGaps?: string[];
+};
+
+export type RagProgressEvent =
+  | { type: 'plan-ready'; slots: ProgressSlot[]; planReason?: string }
+  | { type: 'subqueries-issued'; iter: number; subqueries: ProgressSubquery[] }
+  | { type: 'chunks-retrieved'; iter: number; quotesFound: number; chunksPerSubquery?: number[]; rerankScoreByQuery?: Record<string, number> }
+  | { type: 'claims-extracted'; iter: number; claims: unknown[]; why?: string; extractionGaps?: string[] }
+  | {
+      type: 'completeness-updated';
+      iter: number;
+      completeness: number;
+      fillStatusBySlot?: Record<string, string>;
+      statements?: string[];
+      nextAction?: string;
+    }
+  | { type: 'expansion-suggested'; reason?: string; hardStopReason?: string; suggestedPage?: { title: string; url: string } | null };
+
+function updateStep(
+  tp: ProgressThoughtProcess,
+  iter: number,
+  update: (step: ProgressStep) => ProgressStep
+): ProgressThoughtProcess {
+  const steps = tp.steps ?? [];
+  const existing = steps.find((s) => s.iter === iter);
+  if (!existing) return { ...tp, steps: [...steps, update({ iter, action: 'retrieve' })] };
+  return { ...tp, steps: steps.map((s) => (s === existing ? update(s) : s)) };
+}
+
+/** Returns the thought process with the event applied; events for an iteration fill in its step. */
+export function applyProgressEvent<T extends ProgressThoughtProcess>(tp: T | null, event: RagProgressEvent): T {
+  const current = (tp ?? { slots: [], steps: [] }) as T;
+  switch (event.type) {
+    case 'plan-ready':
+      return { ...current, slots: event.slots, planReason: event.planReason ?? current.planReason };
+    case 'subqueries-issued':
+      return updateStep(current, event.iter, (s) => ({ ...s, subqueries: event.subqueries })) as T;
+    case 'chunks-retrieved': {
+      const scores = event.rerankScoreByQuery ?? {};
+      return updateStep(current, event.iter, (s) => ({
+        ...s,
+        quotesFound: event.quotesFound,
+        chunksPerSubquery: event.chunksPerSubquery,
+        subqueries: s.subqueries?.map((q) => (scores[q.query] != null ? { ...q, rerankScore: scores[q.query] } : q)),
+      })) as T;
+    }
+    case 'claims-extracted': {
+      const next = updateStep(current, event.iter, (s) => ({ ...s, claims: event.claims, why: event.why })) as T;
+      return event.extractionGaps?.length ? { ...next, extractionGaps: event.extractionGaps } : next;
+    }
+    case 'completeness-updated': {
+      const next = updateStep(current, event.iter, (s) => ({
+        ...s,
+        completeness: event.completeness,
+        fillStatusBySlot: event.fillStatusBySlot,
+        statements: event.statements,
+        nextAction: event.nextAction,
+      })) as T;
+      return { ...next, completeness: event.completeness };
+    }
+    case 'expansion-suggested':
+      return {
+        ...current,
+        expandCorpusReason: event.reason ?? current.expandCorpusReason,
+        hardStopReason: event.hardStopReason ?? current.hardStopReason,
+      };
+  }
+}
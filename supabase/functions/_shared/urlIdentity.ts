@@ -0,0 +1,115 @@
+/**
+ * URL identity shared by the worker, the edge functions and the app. Each imports this file by
+ * path, so it must stay free of imports and runtime-specific APIs.
+ *
+ * A page is identified by its canonical URL when the page declares a trustworthy one, otherwise
+ * by where redirects ended, otherwise by the URL that was requested, always in normalized form.
+ */
+
+function stripTrailingSlash(u: URL): void {
+  if (u.pathname === '' || u.pathname === '/') u.pathname = '/';
+  else if (u.pathname.endsWith('/')) u.pathname = u.pathname.slice(0, -1);
+}
+
+/**
+ * Drops the fragment, query and trailing slash and defaults the scheme to https (`example.com/a/`
+ * becomes `https://example.com/a`). Unparseable input comes back trimmed, with the scheme added.
+ */
+export function normalizeUrl(input: string): string {
+  let s = (input || '').trim();
+  const hashIdx = s.indexOf('#');
+  if (hashIdx >= 0) s = s.slice(0, hashIdx);
+  const qIdx = s.indexOf('?');
+  if (qIdx >= 0) s = s.slice(0, qIdx);
+  s = s.trim().replace(/^(https?:\/\/)+/i, '');
+  if (!/^https?:\/\//i.test(s)) s = 'https://' + s;
+  try {
+    const u = new URL(s);
+    u.hash = '';
+    u.search = '';
+    stripTrailingSlash(u);
+    return u.toString();
+  } catch {
+    return s;
+  }
+}
+
+/** `href` resolved against `baseUrl` and normalized; null when it does not parse. Other schemes (mailto:) are kept. */
+export function resolveUrl(href: string, baseUrl: string): string | null {
+  try {
+    const u = new URL(href.trim(), baseUrl);
+    u.hash = '';
+    u.search = '';
+    stripTrailingSlash(u);
+    return u.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Comparison key for "is this the same page": normalized and lowercased, ignoring the scheme and a
+ * leading `www.`. Only for matching; never store or fetch it.
+ */
+export function urlIdentityKey(url: string): string {
+  const normalized = normalizeUrl(url);
+  try {
+    const u = new URL(normalized);
+    return (u.hostname.replace(/^www\./, '') + u.pathname).toLowerCase();
+  } catch {
+    return normalized.toLowerCase();
+  }
+}
+
+function sameSite(a: URL, b: URL): boolean {
+  return a.hostname.replace(/^www\./, '') === b.hostname.replace(/^www\./, '');
+}
+
+/**
+ * The page's `<link rel="canonical">` target, normalized. Ignored when it points at another site
+ * or, for a deeper page, at the site root: both are common CMS misconfigurations that would fold
+ * unrelated pages together.
+ */
+export function resolveCanonicalUrl(href: string | null | undefined, pageUrl: string): string | null {
+  if (!href?.trim()) return null;
+  const canonical = resolveUrl(href, pageUrl);
+  if (!canonical) return null;
+  try {
+    const c = new URL(canonical);
+    const page = new URL(pageUrl);
+    if (c.protocol !== 'http:' && c.protocol !== 'https:') return null;
+    if (!sameSite(c, page)) return null;
+    if (c.pathname === '/' && page.pathname !== '/') return null;
+    return canonical;
+  } catch {
+    return null;
+  }
+}
+
+export type PageUrlIdentity = {
+  /** The URL the page is stored and graphed under. */
+  url: string;
+  /** Where redirects ended, when that differs from the requested URL. */
+  finalUrl: string | null;
+  canonicalUrl: string | null;
+};
+
+export function resolvePageIdentity(
+  requestedUrl: string,
+  finalUrl?: string | null,
+  canonicalHref?: string | null
+): PageUrlIdentity {
+  const requested = normalizeUrl(requestedUrl);
+  const final = finalUrl ? normalizeUrl(finalUrl) : requested;
+  const canonicalUrl = resolveCanonicalUrl(canonicalHref, final);
+  return {
+    url: canonicalUrl ?? final,
+    finalUrl: final !== requested ? final : null,
+    canonicalUrl,
+  };
+}
+
+/** Every URL a stored page answers to, for matching links and edges against it. */
+export function pageUrlAliases(page: { url: string | null; final_url?: string | null; canonical_url?: string | null }): string[] {
+  return [page.url, page.final_url, page.canonical_url].filter((u): u is string => !!u);
+}
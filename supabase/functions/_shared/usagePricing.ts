@@ -0,0 +1,51 @@
+/**
+ * Model pricing for the usage ledger. Imported by path from the edge function, the worker and the
+ * app, so it must stay free of imports and runtime-specific APIs.
+ */
+
+export type UsagePhase =
+  | 'plan'
+  | 'extract'
+  | 'rerank'
+  | 'final'
+  | 'title'
+  | 'query_embedding'
+  | 'chunk_embedding'
+  | 'link_embedding'
+  | 'dive_embedding';
+
+/** USD per 1M tokens. Matched by longest model-name prefix, so dated snapshots inherit their base price. */
+const PRICE_PER_MILLION: Record<string, { prompt: number; completion: number }> = {
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4.1-nano': { prompt: 0.1, completion: 0.4 },
+  'gpt-4.1-mini': { prompt: 0.4, completion: 1.6 },
+  'gpt-4.1': { prompt: 2, completion: 8 },
+  'text-embedding-3-small': { prompt: 0.02, completion: 0 },
+  'text-embedding-3-large': { prompt: 0.13, completion: 0 },
+  'text-embedding-ada-002': { prompt: 0.1, completion: 0 },
+};
+
+/** Null for models without a known price (local servers, the hash and fake providers). */
+export function estimateCostUsd(model: string, promptTokens: number, completionTokens = 0): number | null {
+  const name = model.toLowerCase();
+  let match: string | null = null;
+  for (const prefix of Object.keys(PRICE_PER_MILLION)) {
+    if (name.startsWith(prefix) && (!match || prefix.length > match.length)) match = prefix;
+  }
+  if (!match) return null;
+  const price = PRICE_PER_MILLION[match];
+  return (promptTokens * price.prompt + completionTokens * price.completion) / 1_000_000;
+}
+
+export function formatCostUsd(cost: number): string {
+  if (cost === 0) return '$0';
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
+
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
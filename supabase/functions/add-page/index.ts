@@ -1,6 +1,7 @@
 
 
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import { normalizeUrl } from '../_shared/urlIdentity.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -43,21 +44,9 @@ Deno.serve(async (req) => {
     }
 
     
-    let s = (url || '').trim();
-    const hashIdx = s.indexOf('#');
-    if (hashIdx >= 0) s = s.slice(0, hashIdx);
-    const qIdx = s.indexOf('?');
-    if (qIdx >= 0) s = s.slice(0, qIdx);
-    s = s.trim();
-    s = s.replace(/^(https?:\/\/)+/i, '');
-    if (!/^https?:\/\//i.test(s)) s = 'https://' + s;
-    let normalizedUrl = s;
+    const normalizedUrl = normalizeUrl(url);
     try {
-      const u = new URL(s);
-      u.hash = '';
-      u.search = '';
-      if (u.pathname.endsWith('/') && u.pathname !== '/') u.pathname = u.pathname.slice(0, -1);
-      normalizedUrl = u.toString();
+      new URL(normalizedUrl);
     } catch {
       return new Response(
         JSON.stringify({ error: 'Invalid URL' }),
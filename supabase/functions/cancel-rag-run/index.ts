@@ -0,0 +1,70 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+/**
+ * Marks a running chat-with-rag run as cancelled. The run stops before its next iteration and
+ * streams `{ cancelled: true }` instead of an answer.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { rootMessageId } = (await req.json()) as { rootMessageId?: string };
+    if (!rootMessageId) {
+      return new Response(
+        JSON.stringify({ error: 'rootMessageId required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const authHeader = req.headers.get('Authorization');
+    const supabase = createClient(supabaseUrl, supabaseKey, {
+      global: { headers: authHeader ? { Authorization: authHeader } : {} },
+    });
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Users cannot update rag_runs themselves, so the owner check is explicit here.
+    const service = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const { data, error } = await service
+      .from('rag_runs')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('root_message_id', rootMessageId)
+      .eq('owner_id', user.id)
+      .eq('status', 'running')
+      .select('root_message_id');
+    if (error) {
+      console.error('[cancel-rag-run] failed to cancel run:', error.message);
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ cancelled: (data ?? []).length > 0 }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (e) {
+    console.error('[cancel-rag-run] unhandled error:', e);
+    const errMsg = e instanceof Error ? e.message : String(e);
+    return new Response(
+      JSON.stringify({ error: errMsg }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,6 +1,6 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { ChunkRow, ChatResponse, QuotePayload } from './types.ts';
-import { OPENAI_CHAT_MODEL } from './config.ts';
+import type { ChatProvider } from './llm.ts';
 import { LAST_MESSAGES_COUNT } from './config.ts';
 
 export async function getLastMessages(supabase: SupabaseClient, conversationId: string) {
@@ -14,7 +14,7 @@ export async function getLastMessages(supabase: SupabaseClient, conversationId:
 }
 
 export async function chat(
-  apiKey: string,
+  llm: ChatProvider,
   context: string,
   lastMessages: { role: string; content: string }[],
   userMessage: string,
@@ -45,14 +45,7 @@ Citation rules:
     { role: 'user', content: userMessage },
   ];
 
-  const res = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
-    body: JSON.stringify({ model: OPENAI_CHAT_MODEL, messages, response_format: { type: 'json_object' } }),
-  });
-  if (!res.ok) throw new Error(`OpenAI chat: ${res.status}`);
-  const data = (await res.json()) as { choices: { message: { content: string } }[] };
-  let raw = data.choices?.[0]?.message?.content ?? '{}';
+  let raw = await llm.complete('final', { messages, json: true });
   if (typeof raw === 'string' && raw.trim().startsWith('{')) {
     try {
       const inner = JSON.parse(raw) as { content?: string; quotes?: unknown[]; title?: string };
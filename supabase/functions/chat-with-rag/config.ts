@@ -1,12 +1,36 @@
+import type { LlmPhase } from './llm.ts';
+
 export const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-export const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
 export const OPENAI_CHAT_MODEL = 'gpt-4o-mini';
+
+export const CHAT_MODEL_BY_PHASE: Record<LlmPhase, string> = {
+  plan: OPENAI_CHAT_MODEL,
+  extract: OPENAI_CHAT_MODEL,
+  rerank: OPENAI_CHAT_MODEL,
+  final: OPENAI_CHAT_MODEL,
+  title: OPENAI_CHAT_MODEL,
+};
 export const MATCH_CHUNKS_PER_QUERY = 5;
 export const MATCH_CHUNKS_MERGED_CAP = 45;
+
+// Hybrid retrieval: reciprocal rank fusion of pgvector distance and full-text rank.
+// score = VECTOR_WEIGHT / (RRF_K + vector_rank) + KEYWORD_WEIGHT / (RRF_K + keyword_rank)
+export const HYBRID_RETRIEVAL_ENABLED = true;
+export const HYBRID_VECTOR_WEIGHT = 1.0;
+export const HYBRID_KEYWORD_WEIGHT = 1.0;
+export const HYBRID_RRF_K = 60;
+export const HYBRID_CANDIDATES_PER_RANKING = 30;
+
+// Rerank: 'llm' rescores merged candidates per subquery; 'none' skips the stage, so chunks keep the
+// fused (or, without hybrid search, distance) order. Overridable with the RERANKER env var.
+export const RERANKER: 'llm' | 'none' = 'none';
+export const RERANK_CANDIDATES_PER_QUERY = 15;
+export const RERANK_CANDIDATE_CAP = 90;
+export const RERANK_PASSAGE_CHARS = 500;
 export const LAST_MESSAGES_COUNT = 10;
 export const PAGE_CONTEXT_CHARS = 350;
 
@@ -18,4 +42,12 @@ export const MAX_EXPANSIONS = 2;
 export const STAGNATION_THRESHOLD = 0; 
 export const INCLUDE_FILL_STATUS_BY_SLOT = true;
 
-export const FINAL_ANSWER_CHUNKS_CAP = 80;
\ No newline at end of file
+export const FINAL_ANSWER_CHUNKS_CAP = 80;
+
+// Run replay: answer deltas are persisted in batches; a running run touches rag_runs.updated_at
+// every RUN_HEARTBEAT_MS, and a reattached client polls for new events and gives up on a run whose
+// heartbeat is older than RUN_STALE_MS (its function instance died).
+export const RUN_DELTA_FLUSH_MS = 1000;
+export const RUN_POLL_MS = 1000;
+export const RUN_HEARTBEAT_MS = 30_000;
+export const RUN_STALE_MS = 120_000;
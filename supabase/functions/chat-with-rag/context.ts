@@ -48,7 +48,7 @@ export async function loadRagContext(
     sourceIds.length > 0
       ? await supabase
           .from('pages')
-          .select('id, source_id, title, path, url')
+          .select('id, source_id, title, path, url, duplicate_of')
           .in('source_id', sourceIds)
           .eq('status', 'indexed')
       : { data: [] as PageRow[], error: null };
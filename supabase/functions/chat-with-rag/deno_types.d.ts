@@ -3,6 +3,11 @@
 declare const Deno: {
   serve: (handler: (req: Request) => Response | Promise<Response>) => void;
   env: { get: (key: string) => string | undefined };
+  test: (name: string, fn: () => void | Promise<void>) => void;
+};
+
+declare const EdgeRuntime: {
+  waitUntil: (promise: Promise<unknown>) => void;
 };
 
 declare module 'npm:@supabase/supabase-js@2' {
@@ -22,3 +27,10 @@ declare module 'supabase' {
     options?: Record<string, unknown>
   ): SupabaseClient;
 }
+
+// Tests assert with Node's built-in module, which Deno provides without a download.
+declare module 'node:assert/strict' {
+  export function deepStrictEqual(actual: unknown, expected: unknown, message?: string): void;
+  export function strictEqual(actual: unknown, expected: unknown, message?: string): void;
+  export function ok(value: unknown, message?: string): asserts value;
+}
@@ -1,13 +1,61 @@
-import { OPENAI_EMBEDDING_MODEL } from './config.ts';
-
-export async function embedBatch(apiKey: string, texts: string[]): Promise<number[][]> {
-  if (texts.length === 0) return [];
-  const res = await fetch('https://api.openai.com/v1/embeddings', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
-    body: JSON.stringify({ model: OPENAI_EMBEDDING_MODEL, input: texts }),
-  });
-  if (!res.ok) throw new Error(`OpenAI embed: ${res.status}`);
-  const data = (await res.json()) as { data: { embedding: number[] }[] };
-  return data.data.map((d) => d.embedding);
-}
\ No newline at end of file
+import { hashEmbed, resolveEmbeddingConfig } from '../_shared/embeddings.ts';
+import type { OnUsage } from './usage.ts';
+
+/**
+ * Query-side embedding providers, selected by ../_shared/embeddings.ts like the worker's –
+ * EMBEDDING_PROVIDER, EMBEDDING_MODEL, EMBEDDING_BASE_URL and EMBEDDING_DIMENSIONS must be set the
+ * same way for the worker and this function.
+ */
+export interface EmbeddingProvider {
+  readonly model: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+function openAICompatibleProvider(baseUrl: string, model: string, dimensions: number, apiKey?: string, onUsage?: OnUsage): EmbeddingProvider {
+  const url = `${baseUrl.replace(/\/$/, '')}/embeddings`;
+  return {
+    model,
+    dimensions,
+    async embed(texts: string[]): Promise<number[][]> {
+      if (texts.length === 0) return [];
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model, input: texts }),
+      });
+      if (!res.ok) throw new Error(`Embeddings (${model}): ${res.status}`);
+      const data = (await res.json()) as { data: { embedding: number[] }[]; usage?: { prompt_tokens?: number } };
+      if (onUsage && data.usage) {
+        onUsage({ phase: 'query_embedding', model, promptTokens: data.usage.prompt_tokens ?? 0, completionTokens: 0 });
+      }
+      const vectors = data.data.map((d) => d.embedding);
+      for (const v of vectors) {
+        if (v.length !== dimensions) {
+          throw new Error(`Embeddings (${model}): got dimension ${v.length}, expected ${dimensions}`);
+        }
+      }
+      return vectors;
+    },
+  };
+}
+
+function hashProvider(model: string, dimensions: number): EmbeddingProvider {
+  return {
+    model,
+    dimensions,
+    async embed(texts: string[]): Promise<number[][]> {
+      return texts.map((t) => hashEmbed(t, dimensions));
+    },
+  };
+}
+
+export function getEmbeddingProvider(onUsage?: OnUsage): { provider: EmbeddingProvider } | { error: string } {
+  const config = resolveEmbeddingConfig((name) => Deno.env.get(name));
+  if ('error' in config) return { error: config.error };
+  if (config.kind === 'hash') return { provider: hashProvider(config.model, config.dimensions) };
+  return { provider: openAICompatibleProvider(config.baseUrl, config.model, config.dimensions, config.apiKey, onUsage) };
+}
@@ -1,5 +1,5 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
-import { embedBatch } from './embed.ts';
+import type { EmbeddingProvider } from './embed.ts';
 import { capWithFairAllocation, deriveTitleFromUrl } from './utils.ts';
 
 export type SuggestedPage = {
@@ -26,7 +26,7 @@ type MatchRow = {
 
 export async function getTopSuggestedPages(
   supabase: SupabaseClient,
-  openaiKey: string,
+  embedder: EmbeddingProvider,
   sourceIds: string[],
   userMessage: string,
   queryStrings: string[] = [],
@@ -34,7 +34,7 @@ export async function getTopSuggestedPages(
 ): Promise<SuggestedPage[]> {
   if (sourceIds.length === 0) return [];
   const queries = queryStrings.length > 0 ? queryStrings.slice(0, 4) : [userMessage.trim().slice(0, 300)];
-  const queryEmbs = await embedBatch(openaiKey, queries);
+  const queryEmbs = await embedder.embed(queries);
   const matchMap = new Map<string, { m: MatchRow; distance: number }>();
   const matchesByQueryIndex: { m: MatchRow; distance: number }[][] = [];
   for (let i = 0; i < queryEmbs.length; i++) {
@@ -42,6 +42,7 @@ export async function getTopSuggestedPages(
       query_embedding: queryEmbs[i],
       match_source_ids: sourceIds,
       match_count: 12,
+      match_embedding_model: embedder.model,
     });
     if (rpcErr) {
       console.warn('[expand_corpus] match_discovered_links error:', rpcErr.message);
@@ -94,11 +95,11 @@ export async function getTopSuggestedPages(
 
 export async function doExpandCorpus(
   supabase: SupabaseClient,
-  openaiKey: string,
+  embedder: EmbeddingProvider,
   sourceIds: string[],
   userMessage: string,
   queryStrings: string[] = [],
 ): Promise<SuggestedPage | null> {
-  const list = await getTopSuggestedPages(supabase, openaiKey, sourceIds, userMessage, queryStrings, 1);
+  const list = await getTopSuggestedPages(supabase, embedder, sourceIds, userMessage, queryStrings, 1);
   return list[0] ?? null;
 }
\ No newline at end of file
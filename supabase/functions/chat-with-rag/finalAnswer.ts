@@ -3,7 +3,7 @@
 
 
 import type { SupabaseClient } from '@supabase/supabase-js';
-import { OPENAI_CHAT_MODEL } from './config.ts';
+import type { ChatProvider } from './llm.ts';
 import { FINAL_ANSWER_CHUNKS_CAP } from './config.ts';
 import { capWithFairAllocation } from './utils.ts';
 
@@ -82,7 +82,7 @@ export async function getEvidenceChunksForFinalAnswer(
 const FINAL_ANSWER_SYSTEM = `You write the final answer to the user's question using only the provided evidence (chunks). 
 Each chunk has an id in brackets; use [[quote:uuid]] in your answer for every chunk you cite (uuid = chunk id).
 
-Output JSON only:
+Output JSON only, with final_answer first:
 {
   "final_answer": "your answer text with [[quote:uuid]] placeholders for each citation",
   "cited_snippets": { "uuid-1": "exact verbatim passage from that chunk", "uuid-2": "..." }
@@ -94,11 +94,60 @@ Rules:
 - If some parts of the question could not be answered from the evidence: 
 (1) briefly say why (e.g. no evidence in the provided sources); (2) present what you did find with citations; (3) at the end list what could not be found.`;
 
+const JSON_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+/**
+ * Decodes one string field of a JSON object while the object is still being generated: each call
+ * takes the next raw fragment and returns the newly decoded part of the field's value. An escape
+ * split across fragments is held back until it completes.
+ */
+function createJsonStringFieldReader(field: string): (fragment: string) => string {
+  const keyPattern = new RegExp(`"${field}"\\s*:\\s*"`);
+  let raw = '';
+  let pos = -1;
+  let closed = false;
+  return (fragment) => {
+    raw += fragment;
+    if (closed) return '';
+    if (pos < 0) {
+      const m = keyPattern.exec(raw);
+      if (!m) return '';
+      pos = m.index + m[0].length;
+    }
+    let out = '';
+    while (pos < raw.length) {
+      const ch = raw[pos];
+      if (ch === '"') {
+        closed = true;
+        break;
+      }
+      if (ch !== '\\') {
+        out += ch;
+        pos++;
+        continue;
+      }
+      if (pos + 1 >= raw.length) break;
+      const esc = raw[pos + 1];
+      if (esc === 'u') {
+        if (pos + 6 > raw.length) break;
+        out += String.fromCharCode(parseInt(raw.slice(pos + 2, pos + 6), 16));
+        pos += 6;
+        continue;
+      }
+      out += JSON_ESCAPES[esc] ?? esc;
+      pos += 2;
+    }
+    return out;
+  };
+}
+
+/** With onAnswerDelta, the answer text (placeholders still raw) is passed on as the model writes it. */
 export async function callFinalAnswer(
-  apiKey: string,
+  llm: ChatProvider,
   userMessage: string,
   currentSlotStateJson: string,
   evidenceChunks: EvidenceChunk[],
+  onAnswerDelta?: (text: string) => Promise<void>,
 ): Promise<FinalAnswerResult> {
   const quoteBlock = evidenceChunks
     .map((q) => `[${q.id}]\n${q.snippet}`)
@@ -115,21 +164,23 @@ ${quoteBlock}
 
 Output JSON with final_answer and cited_snippets.`;
 
-  const res = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
-    body: JSON.stringify({
-      model: OPENAI_CHAT_MODEL,
-      messages: [
-        { role: 'system', content: FINAL_ANSWER_SYSTEM },
-        { role: 'user', content: userContent },
-      ],
-      response_format: { type: 'json_object' },
-    }),
-  });
-  if (!res.ok) throw new Error(`OpenAI final answer: ${res.status}`);
-  const raw = (await res.json()) as { choices: { message: { content: string } }[] };
-  const content = raw.choices?.[0]?.message?.content ?? '{}';
+  const request = {
+    messages: [
+      { role: 'system' as const, content: FINAL_ANSWER_SYSTEM },
+      { role: 'user' as const, content: userContent },
+    ],
+    json: true,
+  };
+  let content: string;
+  if (onAnswerDelta) {
+    const readAnswer = createJsonStringFieldReader('final_answer');
+    content = await llm.stream('final', request, async (fragment) => {
+      const text = readAnswer(fragment);
+      if (text) await onAnswerDelta(text);
+    });
+  } else {
+    content = await llm.complete('final', request);
+  }
   let parsed: unknown;
   try {
     parsed = JSON.parse(content);
@@ -4,8 +4,9 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { PageRow, SourceRow } from './types.ts';
 import type { QuoteOut } from './types.ts';
-import { replaceCitationPlaceholders, buildQuotesOut, updateQuoteContextFromPage } from './quotes.ts';
+import { replaceCitationPlaceholders, buildQuotesOut, updateQuoteContextFromPage, storedSpan, locateSnippet } from './quotes.ts';
 import { getLastMessages } from './chat.ts';
+import type { ChatProvider } from './llm.ts';
 
 export interface SaveAnswerParams {
   supabase: SupabaseClient;
@@ -78,13 +79,24 @@ export async function saveAssistantMessageWithQuotes(params: SaveAnswerParams):
     await supabase.from('messages').update({ suggested_page: null }).eq('id', appendToMessageId);
   }
 
-  
+  const pageContentById = new Map<string, string>();
   if (quoteIdsOrdered.length > 0) {
     const { data: chunkRows = [] } = await supabase
       .from('chunks')
-      .select('id, page_id, content')
+      .select('id, page_id, content, start_index, end_index, page_number')
       .in('id', quoteIdsOrdered);
-    const chunkById = new Map((chunkRows as { id: string; page_id: string; content: string | null }[]).map((c) => [c.id, c]));
+    type CitedChunk = {
+      id: string;
+      page_id: string;
+      content: string | null;
+      start_index: number | null;
+      end_index: number | null;
+      page_number: number | null;
+    };
+    const chunkById = new Map((chunkRows as CitedChunk[]).map((c) => [c.id, c]));
+    const chunkPageIds = [...new Set((chunkRows as CitedChunk[]).map((c) => c.page_id))];
+    const { data: pagesWithContent = [] } = await supabase.from('pages').select('id, content').in('id', chunkPageIds);
+    for (const p of pagesWithContent as { id: string; content: string | null }[]) pageContentById.set(p.id, p.content ?? '');
     const citedSnippets = lastExtractResult?.cited_snippets ?? {};
 
     for (let i = 0; i < quoteIdsOrdered.length; i++) {
@@ -109,6 +121,8 @@ export async function saveAssistantMessageWithQuotes(params: SaveAnswerParams):
       const rawSnippet = typeof citedSnippets[chunkId] === 'string' && citedSnippets[chunkId].trim().length > 0
         ? citedSnippets[chunkId].trim()
         : (chunk.content ?? '').trim();
+      const pageContent = pageContentById.get(chunk.page_id);
+      const span = pageContent ? locateSnippet(pageContent, rawSnippet, storedSpan(chunk)) : null;
 
       await supabase.from('quotes').insert({
         message_id: assistantRow.id,
@@ -119,6 +133,9 @@ export async function saveAssistantMessageWithQuotes(params: SaveAnswerParams):
         page_path: page.path ?? '',
         domain,
         page_url: fullPageUrl,
+        start_index: span?.start ?? null,
+        end_index: span?.end ?? null,
+        page_number: chunk.page_number,
         retrieved_in_reasoning_step_id: null,
         owner_id: ownerId,
         citation_order: i + 1,
@@ -126,52 +143,56 @@ export async function saveAssistantMessageWithQuotes(params: SaveAnswerParams):
     }
   }
 
-  const quotedPageIds = await (async () => {
-    const { data: qlist } = await supabase.from('quotes').select('page_id').eq('message_id', assistantRow.id);
-    return [...new Set((qlist ?? []).map((q: { page_id: string }) => q.page_id))];
-  })();
-  const { data: pagesWithContent = [] } = await supabase.from('pages').select('id, content').in('id', quotedPageIds);
-  const pageContentById = new Map((pagesWithContent as { id: string; content: string | null }[]).map((p) => [p.id, p.content ?? '']));
   const { data: quoteRows } = await supabase
     .from('quotes')
-    .select('id, page_id, snippet, page_title, page_path, domain, page_url, context_before, context_after')
+    .select('id, page_id, snippet, page_title, page_path, domain, page_url, context_before, context_after, start_index, end_index, page_number')
     .eq('message_id', assistantRow.id)
     .order('citation_order', { ascending: true });
-  const quoteRowsList = (quoteRows ?? []) as { id: string; page_id: string; snippet: string }[];
+  const quoteRowsList = (quoteRows ?? []) as {
+    id: string;
+    page_id: string;
+    snippet: string;
+    start_index: number | null;
+    end_index: number | null;
+    page_number: number | null;
+  }[];
   for (const q of quoteRowsList) {
     const pageContent = pageContentById.get(q.page_id);
     if (pageContent) {
-      await updateQuoteContextFromPage(supabase, q.id, q.snippet, pageContent);
+      await updateQuoteContextFromPage(supabase, q.id, q.snippet, pageContent, storedSpan(q));
     }
   }
-  const quotesForOut = quoteRowsList.map((q) => ({ snippet: q.snippet, pageId: q.page_id }));
+  const quotesForOut = quoteRowsList.map((q) => ({
+    snippet: q.snippet,
+    pageId: q.page_id,
+    span: storedSpan(q),
+    pageNumber: q.page_number,
+  }));
   const quotesOut = buildQuotesOut(conversationId, quotesForOut, pageById, sourceById, pageContentById);
 
   return { message: assistantRow, quotesOut };
 }
 
 export async function suggestConversationTitle(
-  openaiKey: string,
+  llm: ChatProvider,
   supabase: SupabaseClient,
   conversationId: string,
   userMessage: string,
   isFirstMessage: boolean,
 ): Promise<string | undefined> {
   if (!isFirstMessage) return undefined;
-  const titleRes = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${openaiKey}` },
-    body: JSON.stringify({
-      model: 'gpt-4o-mini',
+  let t: string | undefined;
+  try {
+    const content = await llm.complete('title', {
       messages: [
         { role: 'user', content: `Suggest a 3-6 word title for this conversation. Reply with only the title, no quotes.\n\nUser: ${userMessage.slice(0, 200)}` },
       ],
-      max_tokens: 20,
-    }),
-  });
-  if (!titleRes.ok) return undefined;
-  const j = (await titleRes.json()) as { choices?: { message?: { content?: string } }[] };
-  const t = j.choices?.[0]?.message?.content?.trim().slice(0, 80);
+      maxTokens: 20,
+    });
+    t = content.trim().slice(0, 80);
+  } catch {
+    return undefined;
+  }
   if (!t) return undefined;
   await supabase.from('conversations').update({ title: t }).eq('id', conversationId);
   return t;
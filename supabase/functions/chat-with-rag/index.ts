@@ -16,13 +16,21 @@ Deno.serve(async (req) => {
   const stream = new TransformStream<Uint8Array, Uint8Array>();
   const writer = stream.writable.getWriter();
 
+  // A client that went away (closed tab, dropped connection) must not stop the run: it keeps going,
+  // recording its events, and the client can reattach.
+  let clientGone = false;
   const emit = async (obj: unknown) => {
-    await writer.write(encoder.encode(JSON.stringify(obj) + '\n'));
+    if (clientGone) return;
+    try {
+      await writer.write(encoder.encode(JSON.stringify(obj) + '\n'));
+    } catch {
+      clientGone = true;
+    }
   };
 
   const log = (_phase: string, _detail?: Record<string, unknown>) => {};
 
-  (async () => {
+  const running = (async () => {
     try {
       await runRag(req, emit, log);
     } catch (e) {
@@ -34,9 +42,10 @@ Deno.serve(async (req) => {
         console.error('[RAG] failed to emit error', emitErr);
       }
     } finally {
-      await writer.close();
+      await writer.close().catch(() => undefined);
     }
   })();
+  EdgeRuntime.waitUntil(running);
 
   return new Response(stream.readable, {
     headers: {
@@ -0,0 +1,173 @@
+import { CHAT_MODEL_BY_PHASE, OPENAI_CHAT_MODEL } from './config.ts';
+import type { OnUsage } from './usage.ts';
+
+export type LlmPhase = 'plan' | 'extract' | 'rerank' | 'final' | 'title';
+
+export const LLM_PHASES: LlmPhase[] = ['plan', 'extract', 'rerank', 'final', 'title'];
+
+export type LlmMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+export interface LlmRequest {
+  messages: LlmMessage[];
+  /** Ask for response_format json_object. */
+  json?: boolean;
+  maxTokens?: number;
+}
+
+export interface ChatProvider {
+  /** Returns the raw assistant message content (a JSON string when req.json is set). */
+  complete(phase: LlmPhase, req: LlmRequest): Promise<string>;
+  /** Like complete, but passes each content fragment to onDelta as it arrives. Resolves to the full content. */
+  stream(phase: LlmPhase, req: LlmRequest, onDelta: (text: string) => Promise<void>): Promise<string>;
+  modelFor(phase: LlmPhase): string;
+}
+
+type PhaseEndpoint = { baseUrl: string; apiKey?: string; model: string };
+
+type CompletionUsage = { prompt_tokens?: number; completion_tokens?: number };
+
+/**
+ * OpenAI-compatible chat completions, routed per phase. Each phase can point at a different
+ * model and base URL (e.g. plan/extract on a local server, final answer on OpenAI). onUsage
+ * receives the token counts the server reports for each call.
+ */
+export function createOpenAICompatibleChatProvider(endpoints: Record<LlmPhase, PhaseEndpoint>, onUsage?: OnUsage): ChatProvider {
+  const report = (phase: LlmPhase, usage: CompletionUsage | undefined) => {
+    if (!onUsage || !usage) return;
+    onUsage({
+      phase,
+      model: endpoints[phase].model,
+      promptTokens: usage.prompt_tokens ?? 0,
+      completionTokens: usage.completion_tokens ?? 0,
+    });
+  };
+  const post = async (phase: LlmPhase, req: LlmRequest, stream: boolean): Promise<Response> => {
+    const { baseUrl, apiKey, model } = endpoints[phase];
+    const res = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: req.messages,
+        ...(req.json ? { response_format: { type: 'json_object' } } : {}),
+        ...(req.maxTokens != null ? { max_tokens: req.maxTokens } : {}),
+        ...(stream ? { stream: true, ...(onUsage ? { stream_options: { include_usage: true } } : {}) } : {}),
+      }),
+    });
+    if (!res.ok) throw new Error(`LLM ${phase} (${model}): ${res.status}`);
+    return res;
+  };
+
+  return {
+    modelFor: (phase) => endpoints[phase].model,
+    async complete(phase, req) {
+      const res = await post(phase, req, false);
+      const raw = (await res.json()) as { choices?: { message?: { content?: string } }[]; usage?: CompletionUsage };
+      report(phase, raw.usage);
+      return raw.choices?.[0]?.message?.content ?? (req.json ? '{}' : '');
+    },
+    async stream(phase, req, onDelta) {
+      const res = await post(phase, req, true);
+      const reader = res.body?.getReader();
+      if (!reader) return req.json ? '{}' : '';
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let content = '';
+      let usage: CompletionUsage | undefined;
+      // Server-sent events: one `data: {json}` line per fragment, ending with `data: [DONE]`.
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          const data = line.trim();
+          if (!data.startsWith('data:')) continue;
+          const payload = data.slice(5).trim();
+          if (payload === '[DONE]') continue;
+          let delta: string | undefined;
+          try {
+            const chunk = JSON.parse(payload) as { choices?: { delta?: { content?: string } }[]; usage?: CompletionUsage | null };
+            delta = chunk.choices?.[0]?.delta?.content;
+            // With include_usage the last chunk before [DONE] carries the totals and no choices.
+            if (chunk.usage) usage = chunk.usage;
+          } catch {
+            continue;
+          }
+          if (!delta) continue;
+          content += delta;
+          await onDelta(delta);
+        }
+      }
+      report(phase, usage);
+      return content || (req.json ? '{}' : '');
+    },
+  };
+}
+
+const FAKE_STREAM_FRAGMENT_CHARS = 7;
+
+export type FakeResponses = Partial<Record<LlmPhase, Array<string | Record<string, unknown>>>>;
+
+/**
+ * Replays canned responses per phase, in order. The last response of a phase repeats once the
+ * queue is exhausted so loops that call extract more often than scripted still terminate.
+ */
+export function createFakeChatProvider(responses: FakeResponses): ChatProvider {
+  const cursor: Record<LlmPhase, number> = { plan: 0, extract: 0, rerank: 0, final: 0, title: 0 };
+  const complete = async (phase: LlmPhase, req: LlmRequest): Promise<string> => {
+    const queue = responses[phase] ?? [];
+    if (queue.length === 0) return req.json ? '{}' : '';
+    const item = queue[Math.min(cursor[phase], queue.length - 1)];
+    cursor[phase]++;
+    return typeof item === 'string' ? item : JSON.stringify(item);
+  };
+  return {
+    modelFor: (phase) => `fake-${phase}`,
+    complete,
+    async stream(phase, req, onDelta) {
+      const content = await complete(phase, req);
+      // Small fragments so streaming consumers see partial JSON and split placeholders.
+      for (let i = 0; i < content.length; i += FAKE_STREAM_FRAGMENT_CHARS) {
+        await onDelta(content.slice(i, i + FAKE_STREAM_FRAGMENT_CHARS));
+      }
+      return content;
+    },
+  };
+}
+
+/**
+ * LLM_PROVIDER: openai (default) | fake.
+ * Per phase: LLM_MODEL_<PHASE>, LLM_BASE_URL_<PHASE>, LLM_API_KEY_<PHASE>, falling back to
+ * LLM_MODEL / LLM_BASE_URL / LLM_API_KEY / OPENAI_API_KEY and CHAT_MODEL_BY_PHASE.
+ * Fake: LLM_FAKE_RESPONSES is a JSON object of phase -> array of responses.
+ */
+export function getChatProvider(onUsage?: OnUsage): { provider: ChatProvider } | { error: string } {
+  const kind = (Deno.env.get('LLM_PROVIDER') || 'openai').toLowerCase();
+  if (kind === 'fake') {
+    const raw = Deno.env.get('LLM_FAKE_RESPONSES') || '{}';
+    try {
+      return { provider: createFakeChatProvider(JSON.parse(raw) as FakeResponses) };
+    } catch {
+      return { error: 'LLM_FAKE_RESPONSES is not valid JSON' };
+    }
+  }
+  if (kind !== 'openai') return { error: `Unknown LLM_PROVIDER: ${kind}` };
+
+  const endpoints = {} as Record<LlmPhase, PhaseEndpoint>;
+  for (const phase of LLM_PHASES) {
+    const suffix = phase.toUpperCase();
+    const baseUrl = Deno.env.get(`LLM_BASE_URL_${suffix}`) || Deno.env.get('LLM_BASE_URL') || 'https://api.openai.com/v1';
+    const apiKey = Deno.env.get(`LLM_API_KEY_${suffix}`) || Deno.env.get('LLM_API_KEY') || Deno.env.get('OPENAI_API_KEY');
+    const model = Deno.env.get(`LLM_MODEL_${suffix}`) || Deno.env.get('LLM_MODEL') || CHAT_MODEL_BY_PHASE[phase] || OPENAI_CHAT_MODEL;
+    if (!apiKey && baseUrl.includes('api.openai.com')) {
+      return { error: 'OPENAI_API_KEY secret not configured' };
+    }
+    endpoints[phase] = { baseUrl, apiKey, model };
+  }
+  return { provider: createOpenAICompatibleChatProvider(endpoints, onUsage) };
+}
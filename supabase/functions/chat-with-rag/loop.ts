@@ -1,7 +1,7 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { ExtractClaim, ExtractResult, ExtractSubquery } from './types.ts';
 import type { SuggestedPage } from './expand.ts';
-import { OPENAI_CHAT_MODEL } from './config.ts';
+import type { ChatProvider } from './llm.ts';
 
 export interface SlotRow {
   id: string;
@@ -55,7 +55,7 @@ For BROAD slots you may set broad_query_completed_slot_fully if no more retrieva
 otherwise "retrieve" with subqueries or "answer". If expand_corpus, set suggested_page_index (1–10) or omit for first.`;
 
 export async function callExtractAndDecide(
-  apiKey: string,
+  llm: ChatProvider,
   slots: SlotRow[],
   evidenceChunks: EvidenceChunk[],
   currentSlotStateJson: string,
@@ -131,21 +131,13 @@ ${quoteBlock}
 
 Output JSON: claims, next_action, why; add subqueries if retrieve; suggested_page_index if expand_corpus; broad_query_completed_slot_fully for BROAD slots needing no more retrieval.`;
 
-  const res = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
-    body: JSON.stringify({
-      model: OPENAI_CHAT_MODEL,
-      messages: [
-        { role: 'system', content: EXTRACT_SYSTEM },
-        { role: 'user', content: userContent },
-      ],
-      response_format: { type: 'json_object' },
-    }),
+  const content = await llm.complete('extract', {
+    messages: [
+      { role: 'system', content: EXTRACT_SYSTEM },
+      { role: 'user', content: userContent },
+    ],
+    json: true,
   });
-  if (!res.ok) throw new Error(`OpenAI extract: ${res.status}`);
-  const raw = (await res.json()) as { choices: { message: { content: string } }[] };
-  const content = raw.choices?.[0]?.message?.content ?? '{}';
   let parsed: unknown;
   try {
     parsed = JSON.parse(content);
@@ -1,5 +1,5 @@
 import type { PlanResult, PlanSlot, PlanSubquery, SlotType } from './types.ts';
-import { OPENAI_CHAT_MODEL } from './config.ts';
+import type { ChatProvider } from './llm.ts';
 
 const PLAN_SYSTEM = `You plan semantic search and evidence gathering for a question over indexed documents.
 
@@ -26,22 +26,14 @@ Rules:
 - Subqueries: only for slots with no dependencies (scalars and lists that do not dependOn another slot). 
 For scalar slots use 1–2 focused queries. For list slots use 1–2 high-level discovery (BROAD) queries (e.g. "company product list", "Biden major achievements").`;
 
-export async function callPlan(apiKey: string, userMessage: string): Promise<PlanResult> {
-  const res = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
-    body: JSON.stringify({
-      model: OPENAI_CHAT_MODEL,
-      messages: [
-        { role: 'system', content: PLAN_SYSTEM },
-        { role: 'user', content: userMessage },
-      ],
-      response_format: { type: 'json_object' },
-    }),
+export async function callPlan(llm: ChatProvider, userMessage: string): Promise<PlanResult> {
+  const content = await llm.complete('plan', {
+    messages: [
+      { role: 'system', content: PLAN_SYSTEM },
+      { role: 'user', content: userMessage },
+    ],
+    json: true,
   });
-  if (!res.ok) throw new Error(`OpenAI plan: ${res.status}`);
-  const raw = (await res.json()) as { choices: { message: { content: string } }[] };
-  const content = raw.choices?.[0]?.message?.content ?? '{}';
   let parsed: unknown;
   try {
     parsed = JSON.parse(content);
@@ -0,0 +1,19 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { checkQuota, type QuotaExceeded, type QuotaStatusRow } from '../_shared/quotas.ts';
+
+/** Null when the user may start another run. Fails open: a broken quota lookup must not block chat. */
+export async function ragRunQuotaExceeded(supabase: SupabaseClient, ownerId: string): Promise<QuotaExceeded | null> {
+  const { data, error } = await supabase.rpc('user_quota_status', { p_owner_id: ownerId });
+  if (error) {
+    console.error('[RAG] quota check failed', error.message);
+    return null;
+  }
+  const row = (Array.isArray(data) ? data[0] : data) as QuotaStatusRow | null;
+  return checkQuota('rag_runs_per_hour', row ?? null, (name) => Deno.env.get(name));
+}
+
+/** Counts a started run (add-page continuations included) toward rag_runs_per_hour. Needs the service-role client. */
+export async function recordRagRun(service: SupabaseClient, ownerId: string): Promise<void> {
+  const { error } = await service.from('quota_ledger').insert({ owner_id: ownerId, kind: 'rag_run' });
+  if (error) console.error('[RAG] failed to record run for quota', error.message);
+}
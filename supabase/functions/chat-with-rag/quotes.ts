@@ -1,51 +1,8 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
-import type { ChunkRow, PageRow, SourceRow, QuoteOut } from './types.ts';
+import type { ChunkRow, PageRow, SourceRow, QuoteOut, TextSpan } from './types.ts';
 import { PAGE_CONTEXT_CHARS } from './config.ts';
 
 
-
-
-
-export function snippetFromChunk(c: ChunkRow): string {
-  return (c.content ?? '').trim();
-}
-
-/**
- * Create one quote row from a chunk at retrieval time. Inserts into DB and returns the new quote id.
- * Caller must provide page info for page_title, page_path, domain.
- */
-export async function createQuoteFromChunk(
-  supabase: SupabaseClient,
-  params: {
-    chunk: ChunkRow;
-    page: PageRow;
-    domain: string;
-    retrievedInReasoningStepId: string;
-    ownerId: string;
-  },
-): Promise<string | null> {
-  const { chunk, page, domain, retrievedInReasoningStepId, ownerId } = params;
-  const snippet = snippetFromChunk(chunk);
-  const { data: row, error } = await supabase
-    .from('quotes')
-    .insert({
-      message_id: null,
-      page_id: chunk.page_id,
-      chunk_id: chunk.id,
-      snippet,
-      page_title: page.title ?? '',
-      page_path: page.path ?? '',
-      domain,
-      page_url: page.url ?? null,
-      retrieved_in_reasoning_step_id: retrievedInReasoningStepId,
-      owner_id: ownerId,
-    })
-    .select('id')
-    .single();
-  if (error || !row?.id) return null;
-  return row.id;
-}
-
 const QUOTE_PLACEHOLDER_REGEX = /\[\[quote:([^\]]+)\]\]/g;
 
 
@@ -77,34 +34,61 @@ export function replaceCitationPlaceholders(
   return { content, quoteIdsOrdered };
 }
 
-/**
- * Attach quotes to the final assistant message with citation order.
- * quoteIdsOrdered = list of quote ids in first-appearance order in the answer (deduplicated).
- */
-export async function attachQuotesToMessage(
-  supabase: SupabaseClient,
-  messageId: string,
-  quoteIdsOrdered: string[],
-): Promise<void> {
-  for (let n = 0; n < quoteIdsOrdered.length; n++) {
-    await supabase
-      .from('quotes')
-      .update({ message_id: messageId, citation_order: n + 1 })
-      .eq('id', quoteIdsOrdered[n]);
+const QUOTE_PLACEHOLDER_OPENING = '[[quote:';
+
+/** Where a trailing fragment that may still grow into a placeholder starts (text.length when there is none). */
+function pendingPlaceholderStart(text: string): number {
+  const start = text.lastIndexOf('[[');
+  if (start >= 0 && !text.includes(']]', start)) {
+    const tail = text.slice(start);
+    if (tail.startsWith(QUOTE_PLACEHOLDER_OPENING) || QUOTE_PLACEHOLDER_OPENING.startsWith(tail)) return start;
   }
+  return text.endsWith('[') ? text.length - 1 : text.length;
 }
 
-
-
-
+/**
+ * replaceCitationPlaceholders for an answer that arrives in pieces: push() returns the text that can
+ * be shown so far, numbering citations in the same first-appearance order; flush() returns whatever
+ * was held back once the answer is complete.
+ */
+export function createCitationStream(validQuoteIds: Set<string>): { push(text: string): string; flush(): string } {
+  const numberById = new Map<string, number>();
+  let pending = '';
+  const resolve = (text: string) =>
+    text.replace(QUOTE_PLACEHOLDER_REGEX, (_, rawId: string) => {
+      const id = rawId.trim();
+      if (!validQuoteIds.has(id)) return '';
+      let n = numberById.get(id);
+      if (n == null) {
+        n = numberById.size + 1;
+        numberById.set(id, n);
+      }
+      return `[${n}]`;
+    });
+  return {
+    push(text) {
+      pending += text;
+      const cut = pendingPlaceholderStart(pending);
+      const ready = pending.slice(0, cut);
+      pending = pending.slice(cut);
+      return resolve(ready);
+    },
+    flush() {
+      const rest = resolve(pending);
+      pending = '';
+      return rest;
+    },
+  };
+}
 
 export async function updateQuoteContextFromPage(
   supabase: SupabaseClient,
   quoteId: string,
   snippet: string,
   pageContent: string,
+  span: TextSpan | null = null,
 ): Promise<void> {
-  const { contextBefore, contextAfter } = getContextFromPage(pageContent, snippet, PAGE_CONTEXT_CHARS);
+  const { contextBefore, contextAfter } = getContextFromPage(pageContent, span ?? locateSnippet(pageContent, snippet), PAGE_CONTEXT_CHARS);
   await supabase
     .from('quotes')
     .update({
@@ -121,6 +105,12 @@ export function chunkShape(c: ChunkRow): string {
 
 const ELLIPSIS_RE = /\s*\.{2,}\s*|\s*…\s*/g;
 
+/** Recorded start_index/end_index of a chunk or quote row; null for rows written before offsets were stored. */
+export function storedSpan(c: { start_index?: number | null; end_index?: number | null }): TextSpan | null {
+  if (c.start_index == null || c.end_index == null || c.end_index <= c.start_index) return null;
+  return { start: c.start_index, end: c.end_index };
+}
+
 function findSnippetInText(text: string, snippet: string): { start: number; matchLen: number } | null {
   const idx = text.indexOf(snippet);
   if (idx >= 0) return { start: idx, matchLen: snippet.length };
@@ -141,10 +131,26 @@ function findSnippetInText(text: string, snippet: string): { start: number; matc
   return null;
 }
 
-function getContextFromPage(pageText: string, snippet: string, contextChars: number): { contextBefore: string; contextAfter: string } {
+/**
+ * Span of a snippet in the page text. With the chunk's span the search is confined to it, and a
+ * snippet that is the whole chunk (heading prefix + body) maps to the span itself; without one, or
+ * when the span doesn't fit the page text, falls back to a fuzzy search over the whole page.
+ */
+export function locateSnippet(pageText: string, snippet: string, within: TextSpan | null = null): TextSpan | null {
+  if (within && within.end <= pageText.length) {
+    const body = pageText.slice(within.start, within.end);
+    const found = findSnippetInText(body, snippet);
+    if (found) return { start: within.start + found.start, end: within.start + found.start + found.matchLen };
+    if (body.trim().length > 0 && snippet.includes(body.trim())) return within;
+  }
   const found = findSnippetInText(pageText, snippet);
-  if (!found) return { contextBefore: '', contextAfter: '' };
-  const { start: idx, matchLen } = found;
+  return found ? { start: found.start, end: found.start + found.matchLen } : null;
+}
+
+function getContextFromPage(pageText: string, span: TextSpan | null, contextChars: number): { contextBefore: string; contextAfter: string } {
+  if (!span || span.end > pageText.length) return { contextBefore: '', contextAfter: '' };
+  const idx = span.start;
+  const matchLen = span.end - span.start;
   const nearStart = idx < 80;
   const nearEnd = idx + matchLen > pageText.length - 80;
   const beforeStart = nearStart ? idx : Math.max(0, idx - contextChars);
@@ -156,7 +162,7 @@ function getContextFromPage(pageText: string, snippet: string, contextChars: num
 
 export function buildQuotesOut(
   conversationId: string,
-  quotes: { snippet: string; pageId: string }[],
+  quotes: { snippet: string; pageId: string; span?: TextSpan | null; pageNumber?: number | null }[],
   pageById: Map<string, PageRow>,
   sourceById: Map<string, SourceRow>,
   pageContentById: Map<string, string>,
@@ -165,8 +171,9 @@ export function buildQuotesOut(
     const page = pageById.get(q.pageId);
     const source = page ? sourceById.get(page.source_id) : null;
     const pageContent = pageContentById.get(q.pageId);
+    const span = q.span ?? (pageContent ? locateSnippet(pageContent, q.snippet) : null);
     const { contextBefore, contextAfter } = pageContent
-      ? getContextFromPage(pageContent, q.snippet, PAGE_CONTEXT_CHARS)
+      ? getContextFromPage(pageContent, span, PAGE_CONTEXT_CHARS)
       : { contextBefore: '', contextAfter: '' };
     const fullPageUrl = page?.url ?? null;
     let domain = '';
@@ -189,6 +196,8 @@ export function buildQuotesOut(
       ...(fullPageUrl ? { pageUrl: fullPageUrl } : {}),
       ...(contextBefore ? { contextBefore } : {}),
       ...(contextAfter ? { contextAfter } : {}),
+      ...(span ? { startIndex: span.start, endIndex: span.end } : {}),
+      ...(q.pageNumber != null ? { pageNumber: q.pageNumber } : {}),
     };
   });
 }
\ No newline at end of file
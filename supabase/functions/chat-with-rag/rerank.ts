@@ -0,0 +1,66 @@
+import type { ChunkRow } from './types.ts';
+import type { ChatProvider } from './llm.ts';
+import { RERANKER, RERANK_PASSAGE_CHARS } from './config.ts';
+
+export type RerankerKind = 'llm' | 'none';
+
+export interface Reranker {
+  readonly kind: RerankerKind;
+  /** Relevance of each candidate to the query, 0..1, aligned with `candidates`. */
+  score(query: string, candidates: ChunkRow[]): Promise<number[]>;
+}
+
+/**
+ * Scores candidates by position, so they keep the order they were passed in (the fused retrieval
+ * order of the rerank pool). Used when the LLM's scores cannot be parsed.
+ */
+export const noopReranker: Reranker = {
+  kind: 'none',
+  async score(_query, candidates) {
+    return candidates.map((_c, i) => 1 - i / candidates.length);
+  },
+};
+
+const RERANK_SYSTEM = `You score how well each passage answers a search query.
+Output JSON only: {"scores":[{"i":<passage number>,"score":<0-10>}]} with one entry per passage.
+10 = directly answers the query; 5 = related but incomplete; 0 = unrelated. Judge only the passage text.`;
+
+export function createLlmReranker(llm: ChatProvider): Reranker {
+  return {
+    kind: 'llm',
+    async score(query, candidates) {
+      if (candidates.length === 0) return [];
+      const passages = candidates
+        .map((c, i) => `[${i + 1}]\n${(c.content ?? '').slice(0, RERANK_PASSAGE_CHARS)}`)
+        .join('\n\n');
+      const content = await llm.complete('rerank', {
+        messages: [
+          { role: 'system', content: RERANK_SYSTEM },
+          { role: 'user', content: `Query: ${query}\n\nPassages:\n${passages}` },
+        ],
+        json: true,
+      });
+      const scores = candidates.map(() => 0);
+      try {
+        const parsed = JSON.parse(content) as { scores?: { i?: unknown; score?: unknown }[] };
+        for (const s of parsed.scores ?? []) {
+          const idx = Number(s.i) - 1;
+          const val = Number(s.score);
+          if (Number.isInteger(idx) && idx >= 0 && idx < scores.length && Number.isFinite(val)) {
+            scores[idx] = Math.max(0, Math.min(10, val)) / 10;
+          }
+        }
+      } catch {
+        return noopReranker.score(query, candidates);
+      }
+      return scores;
+    },
+  };
+}
+
+/** Null unless RERANKER is 'llm': retrieval then keeps each subquery's own fused order. */
+export function getReranker(llm: ChatProvider): Reranker | null {
+  const kind = Deno.env.get('RERANKER') || RERANKER;
+  if (kind === 'llm') return createLlmReranker(llm);
+  return null;
+}
@@ -0,0 +1,39 @@
+import { deepStrictEqual as assertEquals } from 'node:assert/strict';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { doRetrieve } from './retrieve.ts';
+import { getReranker, noopReranker } from './rerank.ts';
+import { createFakeChatProvider } from './llm.ts';
+import type { EmbeddingProvider } from './embed.ts';
+import type { ChunkRow } from './types.ts';
+
+const embedder: EmbeddingProvider = {
+  model: 'test-model',
+  dimensions: 3,
+  embed: async (texts) => texts.map(() => [1, 0, 0]),
+};
+
+function chunk(id: string, distance: number, fused_score: number): ChunkRow {
+  return { id, page_id: `page-${id}`, content: `text ${id}`, page_title: id, page_path: `/${id}`, source_domain: 'example.com', distance, fused_score };
+}
+
+// Fused order (b, a, c) differs from distance order (a, c, b), as when keyword rank outweighs vector rank.
+const rows = [chunk('b', 0.4, 0.032), chunk('a', 0.1, 0.03), chunk('c', 0.2, 0.016)];
+
+function fakeSupabase(): SupabaseClient {
+  return {
+    rpc: async () => ({ data: rows, error: null }),
+  } as unknown as SupabaseClient;
+}
+
+Deno.test('default RERANKER skips rerank and keeps the fused order', async () => {
+  const reranker = getReranker(createFakeChatProvider({}));
+  assertEquals(reranker, null);
+  const { chunks, rerankScores } = await doRetrieve(fakeSupabase(), embedder, ['page-a'], ['query'], 5, reranker);
+  assertEquals(chunks.map((c) => c.id), ['b', 'a', 'c']);
+  assertEquals(rerankScores, undefined);
+});
+
+Deno.test('no-op reranker keeps the fused order of the pool', async () => {
+  const { chunks } = await doRetrieve(fakeSupabase(), embedder, ['page-a'], ['query'], 5, noopReranker);
+  assertEquals(chunks.map((c) => c.id), ['b', 'a', 'c']);
+});
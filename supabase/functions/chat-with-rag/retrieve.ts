@@ -1,54 +1,194 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { ChunkRow } from './types.ts';
-import { embedBatch } from './embed.ts';
+import type { EmbeddingProvider } from './embed.ts';
+import type { Reranker } from './rerank.ts';
 import { MATCH_CHUNKS_PER_QUERY } from './config.ts';
 import { MATCH_CHUNKS_MERGED_CAP } from './config.ts';
+import {
+  HYBRID_RETRIEVAL_ENABLED,
+  HYBRID_VECTOR_WEIGHT,
+  HYBRID_KEYWORD_WEIGHT,
+  HYBRID_RRF_K,
+  HYBRID_CANDIDATES_PER_RANKING,
+} from './config.ts';
+import { RERANK_CANDIDATES_PER_QUERY, RERANK_CANDIDATE_CAP } from './config.ts';
 import { capWithFairAllocation } from './utils.ts';
 
 export interface RetrieveResult {
   chunks: ChunkRow[];
   
   chunksPerSubquery: number[];
+  /** Per subquery (same order as queries): the chunks it kept after rerank, best first. */
+  rerankScores?: { chunkId: string; score: number }[][];
 }
 
 function distanceOf(c: ChunkRow): number {
   return (c as { distance?: number }).distance ?? 1;
 }
 
+/** Lower is better. Hybrid rows sort by fused score, vector-only rows by distance. */
+function rankOf(c: ChunkRow): number {
+  return c.fused_score != null ? -c.fused_score : distanceOf(c);
+}
+
+/**
+ * Pages whose original (pages.duplicate_of, set by the indexer) is searched too are left out of the
+ * search; the rest keep their hits, collapsed onto the original by chunk text.
+ */
+function searchablePageIds(pageIds: string[], originalOf: Map<string, string>): string[] {
+  if (originalOf.size === 0) return pageIds;
+  const searched = new Set(pageIds);
+  return pageIds.filter((id) => !searched.has(originalOf.get(id) ?? ''));
+}
+
+/** Chunk id, or original page + normalized text for chunks of pages in a duplicate group. */
+function chunkCollapseKey(originalOf: Map<string, string>): (c: ChunkRow) => string {
+  const originals = new Set(originalOf.values());
+  return (c) => {
+    const original = originalOf.get(c.page_id) ?? (originals.has(c.page_id) ? c.page_id : null);
+    return original ? `${original}:${c.content.replace(/\s+/g, ' ').trim().toLowerCase()}` : c.id;
+  };
+}
+
+async function matchChunks(
+  supabase: SupabaseClient,
+  embedding: number[],
+  queryText: string,
+  pageIds: string[],
+  perQuery: number,
+  embeddingModel: string,
+): Promise<ChunkRow[]> {
+  if (HYBRID_RETRIEVAL_ENABLED) {
+    const { data, error } = await supabase.rpc('match_chunks_hybrid', {
+      query_embedding: embedding,
+      query_text: queryText,
+      match_page_ids: pageIds,
+      match_count: perQuery,
+      match_embedding_model: embeddingModel,
+      vector_weight: HYBRID_VECTOR_WEIGHT,
+      keyword_weight: HYBRID_KEYWORD_WEIGHT,
+      rrf_k: HYBRID_RRF_K,
+      candidate_count: HYBRID_CANDIDATES_PER_RANKING,
+    });
+    if (!error) return (data || []) as ChunkRow[];
+    console.warn('[RAG] match_chunks_hybrid failed, falling back to vector only:', error.message);
+  }
+  const { data } = await supabase.rpc('match_chunks', {
+    query_embedding: embedding,
+    match_page_ids: pageIds,
+    match_count: perQuery,
+    match_embedding_model: embeddingModel,
+  });
+  return (data || []) as ChunkRow[];
+}
+
 export async function doRetrieve(
   supabase: SupabaseClient,
-  openaiKey: string,
+  embedder: EmbeddingProvider,
   pageIds: string[],
   queries: string[],
   perQuery = MATCH_CHUNKS_PER_QUERY,
+  reranker: Reranker | null = null,
+  originalOf: Map<string, string> = new Map(),
 ): Promise<RetrieveResult> {
-  const embeddings = await embedBatch(openaiKey, queries);
+  const fetchPerQuery = reranker ? Math.max(perQuery, RERANK_CANDIDATES_PER_QUERY) : perQuery;
+  const embeddings = await embedder.embed(queries);
+  const searchPageIds = searchablePageIds(pageIds, originalOf);
+  const keyOf = chunkCollapseKey(originalOf);
   const chunkMap = new Map<string, ChunkRow>();
   const chunksByQueryIndex: ChunkRow[][] = [];
   const chunksPerSubquery: number[] = [];
   for (let i = 0; i < embeddings.length; i++) {
-    const { data: matchedChunks } = await supabase.rpc('match_chunks', {
-      query_embedding: embeddings[i],
-      match_page_ids: pageIds,
-      match_count: perQuery,
-    });
-    const list = (matchedChunks || []) as ChunkRow[];
+    const list = await matchChunks(supabase, embeddings[i], queries[i], searchPageIds, fetchPerQuery, embedder.model);
     chunksPerSubquery.push(list.length);
     chunksByQueryIndex.push(list);
     for (const c of list) {
-      const dist = distanceOf(c);
-      const existing = chunkMap.get(c.id);
-      if (!existing || distanceOf(existing) > dist) {
-        chunkMap.set(c.id, { ...c, distance: dist });
+      const existing = chunkMap.get(keyOf(c));
+      if (!existing || rankOf(existing) > rankOf(c)) {
+        chunkMap.set(keyOf(c), { ...c, distance: distanceOf(c) });
       }
     }
   }
+  if (reranker) {
+    return rerankCandidates(reranker, queries, chunkMap, chunksByQueryIndex, chunksPerSubquery, perQuery, keyOf);
+  }
   const chunks = capWithFairAllocation(
     chunkMap,
     chunksByQueryIndex,
     MATCH_CHUNKS_MERGED_CAP,
-    (c) => c.id,
-    distanceOf,
+    keyOf,
+    rankOf,
   );
   return { chunks, chunksPerSubquery };
-}
\ No newline at end of file
+}
+
+/**
+ * Score the merged candidate pool against every subquery, keep each subquery's top `perQuery`
+ * by rerank score, then apply the usual fair cap ordered by best score across subqueries.
+ */
+async function rerankCandidates(
+  reranker: Reranker,
+  queries: string[],
+  chunkMap: Map<string, ChunkRow>,
+  chunksByQueryIndex: ChunkRow[][],
+  chunksPerSubquery: number[],
+  perQuery: number,
+  keyOf: (c: ChunkRow) => string,
+): Promise<RetrieveResult> {
+  const pool = capWithFairAllocation(chunkMap, chunksByQueryIndex, RERANK_CANDIDATE_CAP, keyOf, rankOf);
+  const scoresByQuery = await Promise.all(queries.map((q) => reranker.score(q, pool)));
+  const bestScore = new Map<string, number>();
+  const groups: ChunkRow[][] = [];
+  const rerankScores: { chunkId: string; score: number }[][] = [];
+  for (const scores of scoresByQuery) {
+    const ranked = pool
+      .map((c, j) => ({ c, score: scores[j] ?? 0 }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, perQuery);
+    groups.push(ranked.map((r) => r.c));
+    rerankScores.push(ranked.map((r) => ({ chunkId: r.c.id, score: r.score })));
+    for (const r of ranked) {
+      if ((bestScore.get(r.c.id) ?? -1) < r.score) bestScore.set(r.c.id, r.score);
+    }
+  }
+  const keptMap = new Map(pool.filter((c) => bestScore.has(c.id)).map((c) => [c.id, c]));
+  const chunks = capWithFairAllocation(
+    keptMap,
+    groups,
+    MATCH_CHUNKS_MERGED_CAP,
+    (c) => c.id,
+    (c) => -(bestScore.get(c.id) ?? 0),
+  );
+  return { chunks, chunksPerSubquery, rerankScores };
+}
+
+/**
+ * Chunks embedded with a different model are filtered out by match_chunks, so a corpus indexed entirely
+ * under another model would just retrieve nothing. Surface that as an error instead.
+ */
+export async function checkEmbeddingModel(
+  supabase: SupabaseClient,
+  embedder: EmbeddingProvider,
+  pageIds: string[],
+): Promise<{ error: string } | { mismatchedChunks: number }> {
+  const { data, error } = await supabase.rpc('chunk_embedding_models', { match_page_ids: pageIds });
+  if (error) return { mismatchedChunks: 0 };
+  const rows = (data ?? []) as { embedding_model: string | null; chunk_count: number }[];
+  let matching = 0;
+  let mismatched = 0;
+  const otherModels: string[] = [];
+  for (const r of rows) {
+    if (r.embedding_model === embedder.model) {
+      matching += Number(r.chunk_count);
+    } else {
+      mismatched += Number(r.chunk_count);
+      otherModels.push(r.embedding_model ?? 'unknown');
+    }
+  }
+  if (matching === 0 && mismatched > 0) {
+    return {
+      error: `Sources were indexed with ${otherModels.join(', ')} but chat is configured for ${embedder.model}. Recrawl the sources or align EMBEDDING_PROVIDER / EMBEDDING_MODEL.`,
+    };
+  }
+  return { mismatchedChunks: mismatched };
+}
@@ -0,0 +1,237 @@
+import { deepStrictEqual as assertEquals } from 'node:assert/strict';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { runRag } from './run.ts';
+import { createFakeChatProvider } from './llm.ts';
+import type { EmbeddingProvider } from './embed.ts';
+import { hashEmbed } from '../_shared/embeddings.ts';
+
+type Row = Record<string, unknown>;
+type Result = { data: unknown; error: { message: string } | null };
+
+const OWNER_ID = 'user-1';
+
+/** Upsert conflict target when the caller passes no onConflict. */
+const PRIMARY_KEYS: Record<string, string> = { rag_runs: 'root_message_id' };
+
+/** The slice of the PostgREST query builder that runRag uses, over in-memory rows. */
+class FakeQuery implements PromiseLike<Result> {
+  private action: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+  private values: Row[] = [];
+  private patch: Row = {};
+  private conflictKeys: string[] = [];
+  private ignoreDuplicates = false;
+  private filters: ((row: Row) => boolean)[] = [];
+  private orderBy: { column: string; ascending: boolean } | null = null;
+  private max = Infinity;
+  private returning = false;
+  private shape: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private table: string, private rows: Row[], private nextId: () => number) {}
+
+  select() {
+    if (this.action !== 'select') this.returning = true;
+    return this;
+  }
+  insert(values: Row | Row[]) {
+    this.action = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+  upsert(values: Row | Row[], options?: { onConflict?: string; ignoreDuplicates?: boolean }) {
+    this.insert(values);
+    this.action = 'upsert';
+    this.conflictKeys = (options?.onConflict ?? PRIMARY_KEYS[this.table] ?? 'id').split(',');
+    this.ignoreDuplicates = options?.ignoreDuplicates ?? false;
+    return this;
+  }
+  update(patch: Row) {
+    this.action = 'update';
+    this.patch = patch;
+    return this;
+  }
+  delete() {
+    this.action = 'delete';
+    return this;
+  }
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => (row[column] ?? null) === value);
+    return this;
+  }
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+  gte(column: string, value: number | string) {
+    this.filters.push((row) => (row[column] as number | string) >= value);
+    return this;
+  }
+  lt(column: string, value: number | string) {
+    this.filters.push((row) => (row[column] as number | string) < value);
+    return this;
+  }
+  order(column: string, options?: { ascending?: boolean }) {
+    this.orderBy = { column, ascending: options?.ascending ?? true };
+    return this;
+  }
+  limit(count: number) {
+    this.max = count;
+    return this;
+  }
+  single() {
+    this.shape = 'single';
+    return this;
+  }
+  maybeSingle() {
+    this.shape = 'maybeSingle';
+    return this;
+  }
+
+  then<T1 = Result, T2 = never>(
+    onfulfilled?: ((value: Result) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null,
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private execute(): Result {
+    let matched: Row[];
+    if (this.action === 'insert' || this.action === 'upsert') {
+      matched = [];
+      for (const value of this.values) {
+        const existing = this.action === 'upsert' ? this.rows.find((r) => this.conflictKeys.every((k) => r[k] === value[k])) : undefined;
+        if (existing) {
+          if (!this.ignoreDuplicates) Object.assign(existing, value);
+          matched.push(existing);
+          continue;
+        }
+        const id = this.nextId();
+        const row = { id: `${this.table}-${id}`, created_at: new Date(Date.UTC(2026, 0, 1) + id).toISOString(), ...value };
+        this.rows.push(row);
+        matched.push(row);
+      }
+    } else {
+      matched = this.rows.filter((row) => this.filters.every((f) => f(row)));
+      if (this.action === 'update') for (const row of matched) Object.assign(row, this.patch);
+      if (this.action === 'delete') for (const row of matched) this.rows.splice(this.rows.indexOf(row), 1);
+      if (this.orderBy) {
+        const { column, ascending } = this.orderBy;
+        const sign = ascending ? 1 : -1;
+        matched = [...matched].sort((a, b) => sign * String(a[column]).localeCompare(String(b[column]), 'en', { numeric: true }));
+      }
+      matched = matched.slice(0, this.max);
+    }
+    const data = this.action === 'select' || this.returning ? matched.map((row) => ({ ...row })) : null;
+    if (this.shape === 'many') return { data, error: null };
+    if (!data?.length) return { data: null, error: this.shape === 'single' ? { message: `No ${this.table} row` } : null };
+    return { data: data[0], error: null };
+  }
+}
+
+function createFakeSupabase(tables: Record<string, Row[]>, rpcs: Record<string, (args: Row) => unknown>): SupabaseClient {
+  let id = 0;
+  const nextId = () => ++id;
+  return {
+    from: (table: string) => new FakeQuery(table, (tables[table] ??= []), nextId),
+    rpc: async (name: string, args: Row) =>
+      rpcs[name] ? { data: rpcs[name](args), error: null } : { data: null, error: { message: `Unknown RPC ${name}` } },
+    auth: { getUser: async () => ({ data: { user: { id: OWNER_ID } }, error: null }) },
+  } as unknown as SupabaseClient;
+}
+
+const embedder: EmbeddingProvider = {
+  model: 'hash-v1-64',
+  dimensions: 64,
+  embed: async (texts) => texts.map((t) => hashEmbed(t, 64)),
+};
+
+const CHUNK_TEXT = 'Autovacuum starts on a table once its dead tuples pass the vacuum threshold.';
+
+function seedTables(): Record<string, Row[]> {
+  return {
+    conversations: [{ id: 'conv-1', owner_id: OWNER_ID, dynamic_mode: false }],
+    messages: [{ id: 'msg-1', conversation_id: 'conv-1', owner_id: OWNER_ID, role: 'user', content: 'When does autovacuum run?', created_at: '2025-12-31T00:00:00.000Z' }],
+    sources: [{ id: 'src-1', conversation_id: 'conv-1', owner_id: OWNER_ID, domain: 'notes.example.com' }],
+    pages: [
+      {
+        id: 'page-1',
+        source_id: 'src-1',
+        title: 'Tuning autovacuum',
+        path: '/posts/autovacuum-tuning',
+        url: 'https://notes.example.com/posts/autovacuum-tuning',
+        duplicate_of: null,
+        status: 'indexed',
+        content: `Intro.\n\n${CHUNK_TEXT}\n\nMore.`,
+      },
+    ],
+    chunks: [{ id: 'chunk-1', page_id: 'page-1', content: CHUNK_TEXT, start_index: 8, end_index: 8 + CHUNK_TEXT.length, page_number: null }],
+  };
+}
+
+function rpcs(quotaRow: Row | null = null): Record<string, (args: Row) => unknown> {
+  const hit = { id: 'chunk-1', page_id: 'page-1', content: CHUNK_TEXT, page_title: 'Tuning autovacuum', page_path: '/posts/autovacuum-tuning', source_domain: 'notes.example.com', distance: 0.2, fused_score: 0.03 };
+  return {
+    get_lead_chunks: () => [],
+    chunk_embedding_models: () => [{ embedding_model: embedder.model, chunk_count: 1 }],
+    match_chunks_hybrid: () => [hit],
+    match_chunks: () => [hit],
+    user_quota_status: () => (quotaRow ? [quotaRow] : []),
+  };
+}
+
+function request(body: Row): Request {
+  return new Request('http://localhost/chat-with-rag', { method: 'POST', body: JSON.stringify(body) });
+}
+
+Deno.test('runRag plans, retrieves, extracts and streams a cited answer offline', async () => {
+  const tables = seedTables();
+  const db = createFakeSupabase(tables, rpcs());
+  const llm = createFakeChatProvider({
+    plan: [{ action: 'retrieve', why: 'Need the trigger', slots: [{ name: 'answer', type: 'scalar' }], subqueries: [{ slot: 'answer', query: 'autovacuum threshold' }] }],
+    extract: [{ claims: [{ slot: 'answer', value: 'dead tuples pass the threshold', chunkIds: ['chunk-1'] }], next_action: 'answer', why: 'Found it' }],
+    final: [{ final_answer: 'Once dead tuples pass the vacuum threshold [[quote:chunk-1]].', cited_snippets: { 'chunk-1': CHUNK_TEXT } }],
+  });
+  const events: Row[] = [];
+  await runRag(
+    request({ conversationId: 'conv-1', userMessage: 'When does autovacuum run?', rootMessageId: 'msg-1' }),
+    async (obj) => void events.push(obj as Row),
+    () => {},
+    { llm, embedder, supabase: db, serviceSupabase: db },
+  );
+
+  const done = events.find((e) => e.done) as { message: { content: string }; quotes: unknown[] } | undefined;
+  assertEquals(events.find((e) => e.error), undefined);
+  assertEquals(done?.message.content, 'Once dead tuples pass the vacuum threshold [1].');
+  assertEquals(done?.quotes.length, 1);
+  assertEquals(events.filter((e) => typeof e.delta === 'string').map((e) => e.delta).join(''), done?.message.content);
+  assertEquals(
+    events.filter((e) => e.progress).map((e) => (e.progress as { type: string }).type),
+    ['plan-ready', 'subqueries-issued', 'chunks-retrieved', 'claims-extracted', 'completeness-updated'],
+  );
+
+  assertEquals(tables.quotes.map((q) => [q.chunk_id, q.snippet, q.start_index]), [['chunk-1', CHUNK_TEXT, 8]]);
+  assertEquals(tables.rag_runs.map((r) => r.status), ['completed']);
+  assertEquals(tables.quota_ledger.map((r) => [r.owner_id, r.kind]), [[OWNER_ID, 'rag_run']]);
+  assertEquals((tables.rag_run_events.at(-1)?.event as Row).done, true);
+});
+
+Deno.test('runRag stops at the question quota before starting a run', async () => {
+  const tables = seedTables();
+  const quotaRow = { max_pages_per_day: null, max_embedding_tokens_per_day: null, max_rag_runs_per_hour: 2, rag_runs_last_hour: 2, rag_runs_window_start: '2026-01-01T00:00:00.000Z' };
+  const db = createFakeSupabase(tables, rpcs(quotaRow));
+  const events: Row[] = [];
+  await runRag(
+    request({ conversationId: 'conv-1', userMessage: 'When does autovacuum run?', rootMessageId: 'msg-1' }),
+    async (obj) => void events.push(obj as Row),
+    () => {},
+    { llm: createFakeChatProvider({}), embedder, supabase: db, serviceSupabase: db },
+  );
+
+  assertEquals(events, [
+    {
+      error: 'Question limit reached (2 per hour).',
+      quota: { kind: 'rag_runs_per_hour', limit: 2, used: 2, retryAt: '2026-01-01T01:00:00.000Z' },
+    },
+  ]);
+  assertEquals(tables.rag_runs, undefined);
+  assertEquals(tables.quota_ledger, undefined);
+});
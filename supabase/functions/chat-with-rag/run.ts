@@ -20,39 +20,95 @@ import type { PageRow, SourceRow } from './types.ts';
 import { callPlan } from './plan.ts';
 import { callExtractAndDecide, insertClaims } from './loop.ts';
 import type { SlotRow, EvidenceChunk } from './loop.ts';
-import { doRetrieve } from './retrieve.ts';
+import { doRetrieve, checkEmbeddingModel } from './retrieve.ts';
+import { getEmbeddingProvider, type EmbeddingProvider } from './embed.ts';
+import { getChatProvider, type ChatProvider } from './llm.ts';
+import { getReranker, type Reranker } from './rerank.ts';
 import { getEvidenceChunksForFinalAnswer, callFinalAnswer } from './finalAnswer.ts';
+import { createCitationStream } from './quotes.ts';
 import { slotCompleteness, overallCompleteness } from './completeness.ts';
 import type { SlotForCompleteness, SlotCompletenessMeta } from './completeness.ts';
 import { doExpandCorpus, getTopSuggestedPages, type SuggestedPage } from './expand.ts';
 import { getLastMessages } from './chat.ts';
+import type { ProgressSubquery, RagProgressEvent } from '../_shared/ragProgress.ts';
+import { replayRun, startRun, type RunRecorder } from './runs.ts';
+import { createUsageMeter, type MessageUsage, type UsageMeter } from './usage.ts';
+import { ragRunQuotaExceeded, recordRagRun } from './quota.ts';
+import { quotaExceededMessage } from '../_shared/quotas.ts';
 
 export type Emit = (obj: unknown) => Promise<void>;
 export type Log = (phase: string, detail?: Record<string, unknown>) => void;
 
-export async function runRag(req: Request, emit: Emit, log: Log): Promise<void> {
+/** Overrides for tests: a fake ChatProvider, the hash embedder and in-memory clients so the loop runs offline. */
+export interface RunRagDeps {
+  llm?: ChatProvider;
+  embedder?: EmbeddingProvider;
+  supabase?: SupabaseClient;
+  serviceSupabase?: SupabaseClient;
+}
+
+function createUserClient(req: Request): SupabaseClient {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+  const authHeader = req.headers.get('Authorization');
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: authHeader ? { Authorization: authHeader } : {} },
+  }) as SupabaseClient;
+}
+
+/** For quota_ledger, usage_ledger and rag_runs, which users can read but not write. */
+function createServiceClient(): SupabaseClient {
+  return createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!) as SupabaseClient;
+}
+
+/**
+ * With `attach: true` and a rootMessageId, replays that question's in-flight or finished run
+ * instead of starting one.
+ */
+export async function runRag(req: Request, streamEmit: Emit, log: Log, deps: RunRagDeps = {}): Promise<void> {
   log('start');
-  const body = (await req.json()) as LoadRagBody & { rootMessageId?: string };
+  let emit = streamEmit;
+  const body = (await req.json()) as LoadRagBody & { rootMessageId?: string; attach?: boolean };
   const { conversationId, userMessage, rootMessageId: bodyRootMessageId, appendToMessageId, scrapedPageDisplay } = body;
 
+  if (body.attach) {
+    if (!bodyRootMessageId) {
+      await emit({ error: 'rootMessageId required' });
+      return;
+    }
+    const supabase = deps.supabase ?? createUserClient(req);
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      await emit({ error: 'Authentication required' });
+      return;
+    }
+    log('attach', { rootMessageId: bodyRootMessageId });
+    await replayRun(supabase, bodyRootMessageId, emit);
+    return;
+  }
+
   if (!conversationId || !userMessage?.trim()) {
     log('error', { reason: 'conversationId and userMessage required' });
     await emit({ error: 'conversationId and userMessage required' });
     return;
   }
 
-  const openaiKey = Deno.env.get('OPENAI_API_KEY');
-  if (!openaiKey) {
-    await emit({ error: 'OPENAI_API_KEY secret not configured' });
+  const usage = createUsageMeter();
+  const llmResult = deps.llm ? { provider: deps.llm } : getChatProvider(usage.record);
+  if ('error' in llmResult) {
+    await emit({ error: llmResult.error });
+    return;
+  }
+  const llm = llmResult.provider;
+  const embedderResult = deps.embedder ? { provider: deps.embedder } : getEmbeddingProvider(usage.record);
+  if ('error' in embedderResult) {
+    await emit({ error: embedderResult.error });
     return;
   }
+  const embedder = embedderResult.provider;
+  const reranker = getReranker(llm);
 
-  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-  const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
-  const authHeader = req.headers.get('Authorization');
-  const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-    global: { headers: authHeader ? { Authorization: authHeader } : {} },
-  }) as SupabaseClient;
+  const supabase = deps.supabase ?? createUserClient(req);
 
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) {
@@ -76,8 +132,45 @@ export async function runRag(req: Request, emit: Emit, log: Log): Promise<void>
     return;
   }
 
+  const quota = await ragRunQuotaExceeded(supabase, ctx.ownerId);
+  if (quota) {
+    log('quota-exceeded', { kind: quota.kind, limit: quota.limit, used: quota.used });
+    await emit({ error: quotaExceededMessage(quota), quota });
+    return;
+  }
+  const service = deps.serviceSupabase ?? createServiceClient();
+  await recordRagRun(service, ctx.ownerId);
+
+  const run = await startRun(service, { rootMessageId: ctx.rootMessageId, conversationId: ctx.conversationId, ownerId: ctx.ownerId }, emit);
+  emit = run.emit;
+
   try {
-  const c = ctx as RagContextReady;
+    await answerQuestion(ctx, { supabase, llm, embedder, reranker, usage, run, log });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    log('error', { error: msg, stack: err instanceof Error ? err.stack : undefined });
+    await emit({ error: msg });
+  } finally {
+    await run.end();
+    await usage.flush(service, { ownerId: ctx.ownerId, conversationId: ctx.conversationId, rootMessageId: ctx.rootMessageId });
+  }
+}
+
+interface AnswerDeps {
+  supabase: SupabaseClient;
+  llm: ChatProvider;
+  embedder: EmbeddingProvider;
+  reranker: Reranker | null;
+  usage: UsageMeter;
+  run: RunRecorder;
+  log: Log;
+}
+
+/** Plans (unless an add-page continuation reuses the plan), runs the retrieve/extract loop and saves the answer or stub message. */
+async function answerQuestion(c: RagContextReady, deps: AnswerDeps): Promise<void> {
+  const { supabase, llm, embedder, reranker, usage, run, log } = deps;
+  const emit = run.emit;
+  const emitProgress = (event: RagProgressEvent) => emit({ progress: event });
   const {
     conversationId: convId,
     ownerId,
@@ -100,13 +193,25 @@ export async function runRag(req: Request, emit: Emit, log: Log): Promise<void>
     scrapedPageDisplay: scrapedDisplay,
   } = c;
 
+  const embeddingCheck = await checkEmbeddingModel(supabase, embedder, pageIds);
+  if ('error' in embeddingCheck) {
+    await emit({ error: embeddingCheck.error });
+    return;
+  }
+  if (embeddingCheck.mismatchedChunks > 0) {
+    log('embedding-model-mismatch', { model: embedder.model, skippedChunks: embeddingCheck.mismatchedChunks });
+  }
+  const originalPageById = new Map(
+    pages.filter((p) => p.duplicate_of).map((p) => [p.id, p.duplicate_of as string]),
+  );
+
   let slots: SlotDb[] = initialSlots;
   let slotIdByName = initialSlotIdByName;
   let planResult: PlanResult | null = initialPlanResult;
 
   if (!planResult) {
     log('plan-call');
-    planResult = await callPlan(openaiKey, userMsg);
+    planResult = await callPlan(llm, userMsg);
     log('plan-result', { action: planResult.action, slotCount: planResult.slots.length, subqueryCount: planResult.subqueries.length });
     const { data: stepRow, error: stepErr } = await supabase
       .from('reasoning_steps')
@@ -158,17 +263,6 @@ export async function runRag(req: Request, emit: Emit, log: Log): Promise<void>
         });
       }
     }
-    await emit({ plan: { action: planResult.action, why: planResult.why, slots: planResult.slots, subqueries: planResult.subqueries } });
-    const initialThought = {
-      slots: (planResult.slots ?? []).map((s) => {
-        const o: { name: string; type: string; description?: string; dependsOn?: string } = { name: s.name, type: s.type };
-        if (s.description) o.description = s.description;
-        if (s.dependsOn) o.dependsOn = s.dependsOn;
-        return o;
-      }),
-      steps: [],
-    };
-    await emit({ thoughtProcess: initialThought });
   }
 
   let totalSubqueriesRun = 0;
@@ -177,7 +271,7 @@ export async function runRag(req: Request, emit: Emit, log: Log): Promise<void>
     iter: number;
     action: string;
     why?: string;
-    subqueries?: { slot: string; query: string }[];
+    subqueries?: { slot: string; query: string; rerankScore?: number }[];
     chunksPerSubquery?: number[];
     quotesFound?: number;
     claims?: unknown[];
@@ -197,6 +291,7 @@ export async function runRag(req: Request, emit: Emit, log: Log): Promise<void>
     clarifyQuestions?: string[];
     extractionGaps?: string[];
     partialAnswerNote?: string;
+    usage?: MessageUsage;
   } = {
     slots: (planResult?.slots ?? []).map((s) => {
       const o: { name: string; type: string; description?: string; dependsOn?: string } = { name: s.name, type: s.type };
@@ -263,23 +358,41 @@ export async function runRag(req: Request, emit: Emit, log: Log): Promise<void>
   const extractionGapsAccumulated: string[] = [];
   let slotItemCountBySlotId = new Map<string, number>();
 
-  const produceFinalAnswer = async (): Promise<{ finalAnswer: string; cited_snippets: Record<string, string>; validQuoteIds: Set<string> }> => {
+  /** streamAnswer: false when the caller may discard the answer (it must not have been shown already). */
+  const produceFinalAnswer = async (streamAnswer = true): Promise<{ finalAnswer: string; cited_snippets: Record<string, string>; validQuoteIds: Set<string> }> => {
     const evidenceForFinal = await getEvidenceChunksForFinalAnswer(supabase, slots.map((s) => s.id), evidenceChunksById);
     const currentSlotState = await getCurrentSlotItemsState();
     const currentSlotStateJson = Object.keys(currentSlotState).length > 0 ? JSON.stringify(currentSlotState, null, 2) : '{}';
-    const result = await callFinalAnswer(openaiKey, userMsg, currentSlotStateJson, evidenceForFinal);
+    const validQuoteIds = new Set(evidenceForFinal.map((c) => c.id));
+    const citations = createCitationStream(validQuoteIds);
+    const emitDelta = async (text: string) => {
+      if (text) await emit({ delta: text });
+    };
+    const result = await callFinalAnswer(
+      llm,
+      userMsg,
+      currentSlotStateJson,
+      evidenceForFinal,
+      streamAnswer ? (text) => emitDelta(citations.push(text)) : undefined,
+    );
+    if (streamAnswer) await emitDelta(citations.flush());
     return {
       finalAnswer: result.final_answer,
       cited_snippets: result.cited_snippets,
-      validQuoteIds: new Set(evidenceForFinal.map((c) => c.id)),
+      validQuoteIds,
     };
   };
 
   if (thoughtProcess.slots.length > 0) {
-    await emit({ thoughtProcess: { ...thoughtProcess } });
+    await emitProgress({ type: 'plan-ready', slots: thoughtProcess.slots, planReason: thoughtProcess.planReason });
   }
 
   while (!done && iteration < MAX_ITERATIONS) {
+    if (iteration > 0 && (await run.isCancelled())) {
+      log('cancelled', { iteration });
+      await emit({ cancelled: true });
+      return;
+    }
     iteration++;
     slotItemCountBySlotId = await getSlotItemCountBySlotId();
 
@@ -421,15 +534,43 @@ export async function runRag(req: Request, emit: Emit, log: Log): Promise<void>
     }
 
     totalSubqueriesRun += subqueriesToRun.length;
+    const issuedSubqueries: ProgressSubquery[] = subqueriesWithSlot.length
+      ? subqueriesWithSlot.map((sq) => ({ slot: slots.find((s) => s.id === sq.slotId)?.name ?? '', query: sq.query }))
+      : subqueriesToRun.map((q) => ({ slot: '', query: q }));
+    await emitProgress({ type: 'subqueries-issued', iter: iteration, subqueries: issuedSubqueries });
 
     log('retrieve-start', { iteration, subqueryCount: subqueriesToRun.length });
-    const { chunks: retrievedChunks, chunksPerSubquery } = await doRetrieve(
+    const { chunks: retrievedChunks, chunksPerSubquery, rerankScores } = await doRetrieve(
       supabase,
-      openaiKey,
+      embedder,
       pageIds,
       subqueriesToRun,
+      undefined,
+      reranker,
+      originalPageById,
     );
-    log('retrieve-done', { chunksRetrieved: retrievedChunks.length, chunksPerSubquery });
+    log('retrieve-done', { chunksRetrieved: retrievedChunks.length, chunksPerSubquery, reranked: !!rerankScores });
+    const topRerankScoreByQuery = new Map<string, number>();
+    if (rerankScores) {
+      await Promise.all(
+        subqueriesToRun.map((query, i) => {
+          const scores = rerankScores[i] ?? [];
+          if (scores.length > 0) topRerankScoreByQuery.set(query, scores[0].score);
+          return supabase
+            .from('reasoning_subqueries')
+            .update({ rerank_scores: scores })
+            .eq('reasoning_step_id', currentStepId)
+            .eq('query_text', query);
+        }),
+      );
+    }
+    await emitProgress({
+      type: 'chunks-retrieved',
+      iter: iteration,
+      quotesFound: retrievedChunks.length,
+      chunksPerSubquery: chunksPerSubquery?.length ? chunksPerSubquery : undefined,
+      rerankScoreByQuery: topRerankScoreByQuery.size > 0 ? Object.fromEntries(topRerankScoreByQuery) : undefined,
+    });
 
     
     for (const chunk of retrievedChunks) {
@@ -461,7 +602,7 @@ export async function runRag(req: Request, emit: Emit, log: Log): Promise<void>
     const finishedQueryingSlotNames = slots.filter((s) => s.finished_querying).map((s) => s.name);
     const topSuggestedPages: SuggestedPage[] | null =
       dynamicMode && sourceIds.length > 0
-        ? await getTopSuggestedPages(supabase, openaiKey, sourceIds, userMsg, subqueriesToRun.slice(0, 3), suggestedPageCandidates)
+        ? await getTopSuggestedPages(supabase, embedder, sourceIds, userMsg, subqueriesToRun.slice(0, 3), suggestedPageCandidates)
         : null;
     log('extract-call', { iteration, chunkCount: evidenceChunksForExtract.length, topSuggestedCount: topSuggestedPages?.length ?? 0 });
     const snippetPreviews = evidenceChunksForExtract.map((q) => (q.snippet ?? '').slice(0, 120));
@@ -478,7 +619,7 @@ export async function runRag(req: Request, emit: Emit, log: Log): Promise<void>
       };
     });
     const extractResult = await callExtractAndDecide(
-      openaiKey,
+      llm,
       slotRowsForExtract,
       evidenceChunksForExtract,
       currentSlotStateJson,
@@ -534,6 +675,13 @@ export async function runRag(req: Request, emit: Emit, log: Log): Promise<void>
       ownerId,
       allowedKeysByMappingSlotId,
     });
+    await emitProgress({
+      type: 'claims-extracted',
+      iter: iteration,
+      claims: extractResult.claims,
+      why: extractResult.why,
+      extractionGaps: extractionGapsAccumulated.length > 0 ? [...extractionGapsAccumulated] : undefined,
+    });
 
     slotItemCountBySlotId = await getSlotItemCountBySlotId();
     const thisStepQueriesBySlotId = new Map<string, string[]>();
@@ -613,9 +761,11 @@ export async function runRag(req: Request, emit: Emit, log: Log): Promise<void>
       }
     }
 
-    const subqueriesForStep = subqueriesWithSlot.length
-      ? subqueriesWithSlot.map((sq) => ({ slot: slots.find((s) => s.id === sq.slotId)?.name ?? '', query: sq.query }))
-      : subqueriesToRun.map((q) => ({ slot: '', query: q }));
+    const withRerankScore = <T extends { query: string }>(sq: T) => {
+      const rerankScore = topRerankScoreByQuery.get(sq.query);
+      return rerankScore != null ? { ...sq, rerankScore } : sq;
+    };
+    const subqueriesForStep = issuedSubqueries.map(withRerankScore);
     const stepStatements: string[] = [];
     stepStatements.push(`Retrieved ${retrievedChunks.length} chunks from this step.`);
     stepStatements.push(extractResult.why ?? 'Extract');
@@ -652,7 +802,14 @@ export async function runRag(req: Request, emit: Emit, log: Log): Promise<void>
     if (extractionGapsAccumulated.length > 0) {
       thoughtProcess.extractionGaps = [...extractionGapsAccumulated];
     }
-    await emit({ thoughtProcess: { ...thoughtProcess } });
+    await emitProgress({
+      type: 'completeness-updated',
+      iter: iteration,
+      completeness,
+      fillStatusBySlot: stepEntry.fillStatusBySlot,
+      statements: stepStatements,
+      nextAction: effectiveNextAction,
+    });
 
     await emit({
       step: iteration,
@@ -691,7 +848,7 @@ export async function runRag(req: Request, emit: Emit, log: Log): Promise<void>
         ? questions.map((q, i) => `${i + 1}. ${q}`).join('\n')
         : String(questions);
       thoughtProcess.clarifyQuestions = Array.isArray(questions) ? questions : [content];
-      await emit({ thoughtProcess: { ...thoughtProcess } });
+      thoughtProcess.usage = usage.summary();
       const { data: clarifyMsg, error: clarifyErr } = await insertClarifyMessage(supabase, convId, ownerId, content, thoughtProcess, questions);
       if (!clarifyErr && clarifyMsg) {
         await emit({ clarify: true, questions: Array.isArray(questions) ? questions : [content] });
@@ -749,16 +906,21 @@ export async function runRag(req: Request, emit: Emit, log: Log): Promise<void>
           const oneBased = typeof idx === 'number' && idx >= 1 && idx <= topSuggestedPages.length ? idx : 1;
           suggestedPage = topSuggestedPages[oneBased - 1];
         } else {
-          suggestedPage = await doExpandCorpus(supabase, openaiKey, sourceIds, userMsg, subqueriesToRun.slice(0, 3));
+          suggestedPage = await doExpandCorpus(supabase, embedder, sourceIds, userMsg, subqueriesToRun.slice(0, 3));
         }
         if (suggestedPage) log('expand-suggested', { url: suggestedPage.url });
       }
       thoughtProcess.expandCorpusReason = extractResult.why;
       if (extractionGapsAccumulated.length > 0) thoughtProcess.extractionGaps = [...extractionGapsAccumulated];
-      await emit({ thoughtProcess: { ...thoughtProcess } });
+      await emitProgress({
+        type: 'expansion-suggested',
+        reason: extractResult.why,
+        suggestedPage: suggestedPage ? { title: suggestedPage.title, url: suggestedPage.url } : null,
+      });
       const stubContent = suggestedPage
         ? "Consider adding the suggested page below, then I can answer with the full picture."
         : "I couldn't find enough in the current pages. Add more sources if you have them.";
+      thoughtProcess.usage = usage.summary();
       const { data: stubMsg, error: stubErr } = await insertExpandCorpusMessage(
         supabase,
         convId,
@@ -798,15 +960,21 @@ export async function runRag(req: Request, emit: Emit, log: Log): Promise<void>
           thoughtProcess.expandCorpusReason = thoughtProcess.hardStopReason === 'No evidence found (0% completeness)'
             ? 'Suggesting a page to add.'
             : thoughtProcess.hardStopReason + '; suggesting a page to add.';
-          await emit({ thoughtProcess: { ...thoughtProcess } });
-          const suggestedPage = await doExpandCorpus(supabase, openaiKey, sourceIds, userMsg, subqueriesToRun.slice(0, 3));
+          const suggestedPage = await doExpandCorpus(supabase, embedder, sourceIds, userMsg, subqueriesToRun.slice(0, 3));
           if (suggestedPage) log('expand-suggested-on-stagnation', { url: suggestedPage.url });
+          await emitProgress({
+            type: 'expansion-suggested',
+            reason: thoughtProcess.expandCorpusReason,
+            hardStopReason: thoughtProcess.hardStopReason,
+            suggestedPage: suggestedPage ? { title: suggestedPage.title, url: suggestedPage.url } : null,
+          });
           const stagnationModelMessage = (lastExtractResult?.why ?? '').trim();
           const stubContent = stagnationModelMessage.length > 0
             ? stagnationModelMessage
             : suggestedPage
               ? "I didn't find any evidence in the current sources for that. Consider adding the suggested page below, then ask again."
               : "I didn't find any evidence in the current sources for that. You could try adding more sources or rephrasing.";
+          thoughtProcess.usage = usage.summary();
           const { data: stubMsg, error: stubErr } = await insertRetrieveHardStopMessage(
             supabase,
             convId,
@@ -823,7 +991,7 @@ export async function runRag(req: Request, emit: Emit, log: Log): Promise<void>
           return;
         }
         const noEvidenceMessage = "I didn't find any evidence in the current sources for that. You could try adding more sources or rephrasing.";
-        const finalResult = await produceFinalAnswer();
+        const finalResult = await produceFinalAnswer(lastCompleteness > 0);
         finalAnswer = lastCompleteness > 0 ? finalResult.finalAnswer : noEvidenceMessage;
         lastExtractResult = { ...lastExtractResult, cited_snippets: finalResult.cited_snippets };
         validQuoteIdsForSave = finalResult.validQuoteIds;
@@ -859,13 +1027,14 @@ export async function runRag(req: Request, emit: Emit, log: Log): Promise<void>
     if (extractionGapsAccumulated.length > 0) thoughtProcess.extractionGaps = [...extractionGapsAccumulated];
     const lastCompleteness = lastStep?.completeness ?? 0;
     const noEvidenceMessage = "I didn't find any evidence in the current sources for that. You could try adding more sources or rephrasing.";
-    const finalResult = await produceFinalAnswer();
+    const finalResult = await produceFinalAnswer(lastCompleteness !== 0);
     finalAnswer = lastCompleteness === 0 ? noEvidenceMessage : finalResult.finalAnswer;
     lastExtractResult = { ...lastExtractResult, cited_snippets: finalResult.cited_snippets };
     validQuoteIdsForSave = finalResult.validQuoteIds;
   }
 
   if (finalAnswer != null && finalAnswer.length > 0) {
+    thoughtProcess.usage = usage.summary();
     const { message: assistantRow, quotesOut } = await saveAssistantMessageWithQuotes({
       supabase,
       conversationId: convId,
@@ -883,7 +1052,7 @@ export async function runRag(req: Request, emit: Emit, log: Log): Promise<void>
     });
 
     const isFirstMessage = !appendId && (await getLastMessages(supabase, convId)).length <= 1;
-    const suggestedTitle = await suggestConversationTitle(openaiKey, supabase, convId, userMsg, isFirstMessage);
+    const suggestedTitle = await suggestConversationTitle(llm, supabase, convId, userMsg, isFirstMessage);
 
     log('answer-done', { iteration, completeness: thoughtProcess.completeness });
     await emit({
@@ -899,9 +1068,4 @@ export async function runRag(req: Request, emit: Emit, log: Log): Promise<void>
       ...(suggestedTitle ? { suggestedTitle } : {}),
     });
   }
-  } catch (err) {
-    const msg = err instanceof Error ? err.message : String(err);
-    log('error', { error: msg, stack: err instanceof Error ? err.stack : undefined });
-    await emit({ error: msg });
-  }
 }
\ No newline at end of file
@@ -0,0 +1,144 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { RUN_DELTA_FLUSH_MS, RUN_HEARTBEAT_MS, RUN_POLL_MS, RUN_STALE_MS } from './config.ts';
+import type { Emit } from './run.ts';
+
+export type RunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface RunRecorder {
+  /** Streams the event to the client and appends it to the run's event log. */
+  emit: Emit;
+  isCancelled(): Promise<boolean>;
+  /** Marks a run that ended without a terminal event as failed. */
+  end(): Promise<void>;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function terminalStatus(event: Record<string, unknown>): RunStatus | null {
+  if (event.done === true) return 'completed';
+  if (event.cancelled === true) return 'cancelled';
+  if (event.error != null) return 'failed';
+  return null;
+}
+
+/**
+ * Registers the run for rootMessageId, replacing the log of an earlier run of the same question
+ * (an add-page continuation re-runs it), and keeps its heartbeat (updated_at) fresh until it ends.
+ * Takes the service-role client: users can read rag_runs but not change a run's status.
+ */
+export async function startRun(
+  service: SupabaseClient,
+  run: { rootMessageId: string; conversationId: string; ownerId: string },
+  emit: Emit,
+): Promise<RunRecorder> {
+  const { rootMessageId, ownerId } = run;
+  await service.from('rag_run_events').delete().eq('root_message_id', rootMessageId);
+  await service.from('rag_runs').upsert({
+    root_message_id: rootMessageId,
+    conversation_id: run.conversationId,
+    owner_id: ownerId,
+    status: 'running',
+    updated_at: new Date().toISOString(),
+  });
+
+  let seq = 0;
+  let pendingDelta = '';
+  let deltaSince = 0;
+  let finished = false;
+  const heartbeat = setInterval(() => {
+    void service
+      .from('rag_runs')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('root_message_id', rootMessageId)
+      .eq('status', 'running')
+      .then(({ error }) => {
+        if (error) console.error('[RAG] failed to record run heartbeat', error.message);
+      });
+  }, RUN_HEARTBEAT_MS);
+
+  const append = async (event: unknown) => {
+    const { error } = await service.from('rag_run_events').insert({ root_message_id: rootMessageId, seq, owner_id: ownerId, event });
+    if (error) console.error('[RAG] failed to record run event', error.message);
+    seq++;
+  };
+  const flushDelta = async () => {
+    if (!pendingDelta) return;
+    const delta = pendingDelta;
+    pendingDelta = '';
+    await append({ delta });
+  };
+  const setStatus = async (status: RunStatus) => {
+    finished = true;
+    clearInterval(heartbeat);
+    await service
+      .from('rag_runs')
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('root_message_id', rootMessageId)
+      .eq('status', 'running');
+  };
+
+  return {
+    async emit(obj) {
+      const event = (obj ?? {}) as Record<string, unknown>;
+      if (typeof event.delta === 'string') {
+        await emit(obj);
+        if (!pendingDelta) deltaSince = Date.now();
+        pendingDelta += event.delta;
+        if (Date.now() - deltaSince >= RUN_DELTA_FLUSH_MS) await flushDelta();
+        return;
+      }
+      const status = terminalStatus(event);
+      if (!status) await emit(obj);
+      await flushDelta();
+      await append(obj);
+      if (status) {
+        // Recorded before the client sees it, so a client that then looks for running runs never
+        // finds this one.
+        await setStatus(status);
+        await emit(obj);
+      }
+    },
+    async isCancelled() {
+      const { data } = await service.from('rag_runs').select('status').eq('root_message_id', rootMessageId).maybeSingle();
+      return (data as { status?: string } | null)?.status === 'cancelled';
+    },
+    async end() {
+      if (finished) return;
+      await flushDelta();
+      await setStatus('failed');
+    },
+  };
+}
+
+/**
+ * Streams the events a run has recorded so far, then follows it until it finishes. Ends without a
+ * terminal event when the run was cancelled before its loop noticed, and with an error when the
+ * run's heartbeat stopped (a long LLM call records no events but still beats).
+ */
+export async function replayRun(supabase: SupabaseClient, rootMessageId: string, emit: Emit): Promise<void> {
+  let nextSeq = 0;
+  for (;;) {
+    const { data: run } = await supabase.from('rag_runs').select('status, updated_at').eq('root_message_id', rootMessageId).maybeSingle();
+    if (!run) {
+      await emit({ error: 'No run found for this message' });
+      return;
+    }
+    const { data: rows } = await supabase
+      .from('rag_run_events')
+      .select('seq, event')
+      .eq('root_message_id', rootMessageId)
+      .gte('seq', nextSeq)
+      .order('seq', { ascending: true });
+    for (const row of (rows ?? []) as { seq: number; event: unknown }[]) {
+      await emit(row.event);
+      nextSeq = row.seq + 1;
+    }
+    const { status, updated_at } = run as { status: RunStatus; updated_at: string };
+    if (status !== 'running') return;
+    if (Date.now() - new Date(updated_at).getTime() > RUN_STALE_MS) {
+      await emit({ error: 'The run stopped responding' });
+      return;
+    }
+    await sleep(RUN_POLL_MS);
+  }
+}
@@ -1,5 +1,5 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
-import { embedBatch } from './embed.ts';
+import type { EmbeddingProvider } from './embed.ts';
 import { deriveTitleFromUrl, extractQueryTerms, partitionByTermMatch } from './utils.ts';
 
 export type SuggestedPage = {
@@ -14,7 +14,7 @@ export type SuggestedPage = {
 
 export async function trySuggestPage(
   supabase: SupabaseClient,
-  openaiKey: string,
+  embedder: EmbeddingProvider,
   conversationId: string,
   userMessage: string,
   searchQueries: string[],
@@ -26,7 +26,7 @@ export async function trySuggestPage(
     ...(searchQueries.some((q) => q.toLowerCase().includes(userMessage.trim().toLowerCase().slice(0, 30))) ? [] : [userMessage.trim()]),
   ];
   const uniqueQueries = [...new Set(suggestionQueries)].slice(0, 4);
-  const queryEmbs = await embedBatch(openaiKey, uniqueQueries);
+  const queryEmbs = await embedder.embed(uniqueQueries);
 
   const matchMap = new Map<string, { m: { to_url: string; anchor_text: string | null; snippet: string; source_id: string; from_page_id: string | null }; distance: number }>();
   for (let i = 0; i < queryEmbs.length; i++) {
@@ -34,6 +34,7 @@ export async function trySuggestPage(
       query_embedding: queryEmbs[i],
       match_source_ids: allSourceIds,
       match_count: 12,
+      match_embedding_model: embedder.model,
     });
     if (rpcErr) {
       console.error('[RAG-SUGGEST] match_discovered_links RPC error:', rpcErr.message, '| queryIndex:', i);
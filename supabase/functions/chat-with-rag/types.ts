@@ -21,6 +21,9 @@ export interface QuoteOut {
   pageUrl?: string;
   contextBefore?: string;
   contextAfter?: string;
+  startIndex?: number;
+  endIndex?: number;
+  pageNumber?: number;
 }
 
 
@@ -101,9 +104,24 @@ export type ChunkRow = {
   page_path: string;
   source_domain: string;
   distance?: number;
+  fused_score?: number;
+  start_index?: number | null;
+  end_index?: number | null;
+  page_number?: number | null;
 };
 
-export type PageRow = { id: string; source_id: string; title: string | null; path: string; url: string };
+/** Character range [start, end) in pages.content. */
+export type TextSpan = { start: number; end: number };
+
+export type PageRow = {
+  id: string;
+  source_id: string;
+  title: string | null;
+  path: string;
+  url: string;
+  /** Set when the page near-duplicates another page in the conversation. */
+  duplicate_of?: string | null;
+};
 export type SourceRow = { id: string; domain: string };
 
 
@@ -0,0 +1,53 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { estimateCostUsd, type UsagePhase } from '../_shared/usagePricing.ts';
+
+export type UsageEntry = { phase: UsagePhase; model: string; promptTokens: number; completionTokens: number };
+
+export type OnUsage = (entry: UsageEntry) => void;
+
+/** Totals saved on the message's thought process; costUsd is null when no call had a known price. */
+export type MessageUsage = { promptTokens: number; completionTokens: number; costUsd: number | null };
+
+export interface UsageMeter {
+  record: OnUsage;
+  summary(): MessageUsage;
+  /** Writes every recorded call to usage_ledger; users cannot insert there, so pass the service-role client. */
+  flush(supabase: SupabaseClient, run: { ownerId: string; conversationId: string; rootMessageId: string }): Promise<void>;
+}
+
+export function createUsageMeter(): UsageMeter {
+  const entries: UsageEntry[] = [];
+  return {
+    record(entry) {
+      entries.push(entry);
+    },
+    summary() {
+      let promptTokens = 0;
+      let completionTokens = 0;
+      let costUsd: number | null = null;
+      for (const e of entries) {
+        promptTokens += e.promptTokens;
+        completionTokens += e.completionTokens;
+        const cost = estimateCostUsd(e.model, e.promptTokens, e.completionTokens);
+        if (cost != null) costUsd = (costUsd ?? 0) + cost;
+      }
+      return { promptTokens, completionTokens, costUsd };
+    },
+    async flush(supabase, run) {
+      if (entries.length === 0) return;
+      const { error } = await supabase.from('usage_ledger').insert(
+        entries.map((e) => ({
+          owner_id: run.ownerId,
+          conversation_id: run.conversationId,
+          root_message_id: run.rootMessageId,
+          phase: e.phase,
+          model: e.model,
+          prompt_tokens: e.promptTokens,
+          completion_tokens: e.completionTokens,
+          cost_usd: estimateCostUsd(e.model, e.promptTokens, e.completionTokens),
+        })),
+      );
+      if (error) console.error('[RAG] failed to record usage', error.message);
+    },
+  };
+}
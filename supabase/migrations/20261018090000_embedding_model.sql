@@ -0,0 +1,106 @@
+-- Record which embedding model/dimension produced each vector so mixed corpora can be detected.
+
+ALTER TABLE "public"."chunks" ADD COLUMN IF NOT EXISTS "embedding_model" "text";
+ALTER TABLE "public"."chunks" ADD COLUMN IF NOT EXISTS "embedding_dimensions" integer;
+ALTER TABLE "public"."encoded_discovered" ADD COLUMN IF NOT EXISTS "embedding_model" "text";
+
+-- Everything embedded before this migration came from OpenAI text-embedding-3-small.
+UPDATE "public"."chunks"
+SET "embedding_model" = 'text-embedding-3-small', "embedding_dimensions" = 1536
+WHERE "embedding" IS NOT NULL AND "embedding_model" IS NULL;
+
+UPDATE "public"."encoded_discovered"
+SET "embedding_model" = 'text-embedding-3-small'
+WHERE "embedding" IS NOT NULL AND "embedding_model" IS NULL;
+
+
+DROP FUNCTION IF EXISTS "public"."match_chunks"("query_embedding" "extensions"."vector", "match_page_ids" "uuid"[], "match_count" integer);
+
+CREATE OR REPLACE FUNCTION "public"."match_chunks"("query_embedding" "extensions"."vector", "match_page_ids" "uuid"[], "match_count" integer DEFAULT 10, "match_embedding_model" "text" DEFAULT NULL) RETURNS TABLE("id" "uuid", "page_id" "uuid", "content" "text", "source_id" "uuid", "page_title" "text", "page_path" "text", "page_url" "text", "source_domain" "text", "distance" double precision)
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO 'public', 'extensions'
+    AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.page_id,
+    c.content,
+    p.source_id,
+    p.title AS page_title,
+    p.path AS page_path,
+    p.url AS page_url,
+    s.domain AS source_domain,
+    (c.embedding <=> query_embedding) AS distance
+  FROM chunks c
+  JOIN pages p ON p.id = c.page_id
+  JOIN sources s ON s.id = p.source_id
+  WHERE c.embedding IS NOT NULL
+    AND c.page_id = ANY(match_page_ids)
+    AND (match_embedding_model IS NULL OR c.embedding_model = match_embedding_model)
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+ALTER FUNCTION "public"."match_chunks"("query_embedding" "extensions"."vector", "match_page_ids" "uuid"[], "match_count" integer, "match_embedding_model" "text") OWNER TO "postgres";
+
+GRANT ALL ON FUNCTION "public"."match_chunks"("query_embedding" "extensions"."vector", "match_page_ids" "uuid"[], "match_count" integer, "match_embedding_model" "text") TO "anon";
+GRANT ALL ON FUNCTION "public"."match_chunks"("query_embedding" "extensions"."vector", "match_page_ids" "uuid"[], "match_count" integer, "match_embedding_model" "text") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."match_chunks"("query_embedding" "extensions"."vector", "match_page_ids" "uuid"[], "match_count" integer, "match_embedding_model" "text") TO "service_role";
+
+
+DROP FUNCTION IF EXISTS "public"."match_discovered_links"("query_embedding" "extensions"."vector", "match_source_ids" "uuid"[], "match_count" integer);
+
+CREATE OR REPLACE FUNCTION "public"."match_discovered_links"("query_embedding" "extensions"."vector", "match_source_ids" "uuid"[], "match_count" integer DEFAULT 5, "match_embedding_model" "text" DEFAULT NULL) RETURNS TABLE("id" "uuid", "to_url" "text", "anchor_text" "text", "snippet" "text", "source_id" "uuid", "from_page_id" "uuid", "distance" double precision)
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO 'public', 'extensions'
+    AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ed.id,
+    pe.to_url,
+    ed.anchor_text,
+    ed.snippet,
+    p.source_id,
+    pe.from_page_id,
+    (ed.embedding <=> query_embedding)::float AS distance
+  FROM encoded_discovered ed
+  JOIN page_edges pe ON pe.id = ed.page_edge_id
+  JOIN pages p ON p.id = pe.from_page_id
+  WHERE p.source_id = ANY(match_source_ids)
+    AND ed.embedding IS NOT NULL
+    AND (match_embedding_model IS NULL OR ed.embedding_model = match_embedding_model)
+    AND NOT EXISTS (
+      SELECT 1 FROM pages p2
+      WHERE p2.source_id = p.source_id AND p2.url = pe.to_url
+    )
+  ORDER BY ed.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+ALTER FUNCTION "public"."match_discovered_links"("query_embedding" "extensions"."vector", "match_source_ids" "uuid"[], "match_count" integer, "match_embedding_model" "text") OWNER TO "postgres";
+
+GRANT ALL ON FUNCTION "public"."match_discovered_links"("query_embedding" "extensions"."vector", "match_source_ids" "uuid"[], "match_count" integer, "match_embedding_model" "text") TO "anon";
+GRANT ALL ON FUNCTION "public"."match_discovered_links"("query_embedding" "extensions"."vector", "match_source_ids" "uuid"[], "match_count" integer, "match_embedding_model" "text") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."match_discovered_links"("query_embedding" "extensions"."vector", "match_source_ids" "uuid"[], "match_count" integer, "match_embedding_model" "text") TO "service_role";
+
+
+CREATE OR REPLACE FUNCTION "public"."chunk_embedding_models"("match_page_ids" "uuid"[]) RETURNS TABLE("embedding_model" "text", "chunk_count" bigint)
+    LANGUAGE "sql" SECURITY DEFINER
+    SET "search_path" TO 'public'
+    AS $$
+  SELECT c.embedding_model, count(*) AS chunk_count
+  FROM chunks c
+  WHERE c.page_id = ANY(match_page_ids)
+    AND c.embedding IS NOT NULL
+  GROUP BY c.embedding_model;
+$$;
+
+ALTER FUNCTION "public"."chunk_embedding_models"("match_page_ids" "uuid"[]) OWNER TO "postgres";
+
+GRANT ALL ON FUNCTION "public"."chunk_embedding_models"("match_page_ids" "uuid"[]) TO "anon";
+GRANT ALL ON FUNCTION "public"."chunk_embedding_models"("match_page_ids" "uuid"[]) TO "authenticated";
+GRANT ALL ON FUNCTION "public"."chunk_embedding_models"("match_page_ids" "uuid"[]) TO "service_role";
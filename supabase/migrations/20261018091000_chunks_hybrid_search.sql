@@ -0,0 +1,82 @@
+-- Full-text index over chunk content and a hybrid (keyword + vector) match using reciprocal rank fusion.
+
+ALTER TABLE "public"."chunks"
+  ADD COLUMN IF NOT EXISTS "content_tsv" "tsvector" GENERATED ALWAYS AS (to_tsvector('english'::regconfig, coalesce("content", ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS "idx_chunks_content_tsv" ON "public"."chunks" USING "gin" ("content_tsv");
+
+
+CREATE OR REPLACE FUNCTION "public"."match_chunks_hybrid"(
+  "query_embedding" "extensions"."vector",
+  "query_text" "text",
+  "match_page_ids" "uuid"[],
+  "match_count" integer DEFAULT 10,
+  "match_embedding_model" "text" DEFAULT NULL,
+  "vector_weight" double precision DEFAULT 1.0,
+  "keyword_weight" double precision DEFAULT 1.0,
+  "rrf_k" integer DEFAULT 60,
+  "candidate_count" integer DEFAULT 30
+) RETURNS TABLE("id" "uuid", "page_id" "uuid", "content" "text", "source_id" "uuid", "page_title" "text", "page_path" "text", "page_url" "text", "source_domain" "text", "distance" double precision, "keyword_rank" integer, "fused_score" double precision)
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO 'public', 'extensions'
+    AS $$
+DECLARE
+  tsq tsquery := websearch_to_tsquery('english'::regconfig, coalesce(query_text, ''));
+BEGIN
+  RETURN QUERY
+  WITH vector_ranked AS (
+    SELECT c.id AS chunk_id,
+           row_number() OVER (ORDER BY c.embedding <=> query_embedding) AS rnk
+    FROM chunks c
+    WHERE c.embedding IS NOT NULL
+      AND c.page_id = ANY(match_page_ids)
+      AND (match_embedding_model IS NULL OR c.embedding_model = match_embedding_model)
+    ORDER BY c.embedding <=> query_embedding
+    LIMIT candidate_count
+  ),
+  keyword_ranked AS (
+    SELECT c.id AS chunk_id,
+           row_number() OVER (ORDER BY ts_rank_cd(c.content_tsv, tsq) DESC) AS rnk
+    FROM chunks c
+    WHERE c.page_id = ANY(match_page_ids)
+      AND c.embedding IS NOT NULL
+      AND (match_embedding_model IS NULL OR c.embedding_model = match_embedding_model)
+      AND numnode(tsq) > 0
+      AND c.content_tsv @@ tsq
+    ORDER BY ts_rank_cd(c.content_tsv, tsq) DESC
+    LIMIT candidate_count
+  ),
+  fused AS (
+    SELECT coalesce(v.chunk_id, k.chunk_id) AS chunk_id,
+           k.rnk AS k_rnk,
+           coalesce(vector_weight / (rrf_k + v.rnk), 0)
+             + coalesce(keyword_weight / (rrf_k + k.rnk), 0) AS score
+    FROM vector_ranked v
+    FULL OUTER JOIN keyword_ranked k ON k.chunk_id = v.chunk_id
+  )
+  SELECT
+    c.id,
+    c.page_id,
+    c.content,
+    p.source_id,
+    p.title AS page_title,
+    p.path AS page_path,
+    p.url AS page_url,
+    s.domain AS source_domain,
+    (c.embedding <=> query_embedding)::float AS distance,
+    f.k_rnk::integer AS keyword_rank,
+    f.score::float AS fused_score
+  FROM fused f
+  JOIN chunks c ON c.id = f.chunk_id
+  JOIN pages p ON p.id = c.page_id
+  JOIN sources s ON s.id = p.source_id
+  ORDER BY f.score DESC
+  LIMIT match_count;
+END;
+$$;
+
+ALTER FUNCTION "public"."match_chunks_hybrid"("query_embedding" "extensions"."vector", "query_text" "text", "match_page_ids" "uuid"[], "match_count" integer, "match_embedding_model" "text", "vector_weight" double precision, "keyword_weight" double precision, "rrf_k" integer, "candidate_count" integer) OWNER TO "postgres";
+
+GRANT ALL ON FUNCTION "public"."match_chunks_hybrid"("query_embedding" "extensions"."vector", "query_text" "text", "match_page_ids" "uuid"[], "match_count" integer, "match_embedding_model" "text", "vector_weight" double precision, "keyword_weight" double precision, "rrf_k" integer, "candidate_count" integer) TO "anon";
+GRANT ALL ON FUNCTION "public"."match_chunks_hybrid"("query_embedding" "extensions"."vector", "query_text" "text", "match_page_ids" "uuid"[], "match_count" integer, "match_embedding_model" "text", "vector_weight" double precision, "keyword_weight" double precision, "rrf_k" integer, "candidate_count" integer) TO "authenticated";
+GRANT ALL ON FUNCTION "public"."match_chunks_hybrid"("query_embedding" "extensions"."vector", "query_text" "text", "match_page_ids" "uuid"[], "match_count" integer, "match_embedding_model" "text", "vector_weight" double precision, "keyword_weight" double precision, "rrf_k" integer, "candidate_count" integer) TO "service_role";
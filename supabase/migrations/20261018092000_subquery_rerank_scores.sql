@@ -0,0 +1,3 @@
+-- Rerank scores per subquery: [{ "chunkId": uuid, "score": 0..1 }, ...] best first.
+
+ALTER TABLE "public"."reasoning_subqueries" ADD COLUMN IF NOT EXISTS "rerank_scores" "jsonb";
@@ -0,0 +1,3 @@
+-- Structured page content (headings, paragraphs, list items, tables) kept by the crawler for section-aware chunking.
+
+ALTER TABLE "public"."pages" ADD COLUMN IF NOT EXISTS "content_blocks" "jsonb";
@@ -0,0 +1,5 @@
+-- Exact character span of a quote in its page's stored content (pages.content), copied from chunk offsets at answer time.
+
+ALTER TABLE "public"."quotes"
+  ADD COLUMN IF NOT EXISTS "start_index" integer,
+  ADD COLUMN IF NOT EXISTS "end_index" integer;
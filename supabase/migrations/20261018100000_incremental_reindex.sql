@@ -0,0 +1,14 @@
+-- Content hashes so a recrawl only re-chunks changed pages and only re-embeds changed chunks.
+-- pages.indexed_content_hash is the content_hash the page's current chunks were built from.
+
+ALTER TABLE "public"."pages"
+  ADD COLUMN IF NOT EXISTS "content_hash" "text",
+  ADD COLUMN IF NOT EXISTS "indexed_content_hash" "text";
+
+ALTER TABLE "public"."chunks" ADD COLUMN IF NOT EXISTS "content_hash" "text";
+
+CREATE INDEX IF NOT EXISTS "idx_chunks_page_id_content_hash" ON "public"."chunks" USING "btree" ("page_id", "content_hash");
+
+ALTER TABLE "public"."crawl_jobs"
+  ADD COLUMN IF NOT EXISTS "pages_changed" integer,
+  ADD COLUMN IF NOT EXISTS "pages_unchanged" integer;
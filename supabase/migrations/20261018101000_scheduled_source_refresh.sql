@@ -0,0 +1,16 @@
+-- Per-source refresh schedule picked up by the worker, plus HTTP validators for conditional page fetches.
+
+ALTER TABLE "public"."sources"
+  ADD COLUMN IF NOT EXISTS "refresh_interval" "text" DEFAULT 'off'::"text" NOT NULL,
+  ADD COLUMN IF NOT EXISTS "next_refresh_at" timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS "last_refreshed_at" timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS "last_content_changed_at" timestamp with time zone;
+
+ALTER TABLE "public"."sources"
+  ADD CONSTRAINT "sources_refresh_interval_check" CHECK (("refresh_interval" = ANY (ARRAY['off'::"text", 'daily'::"text", 'weekly'::"text"])));
+
+CREATE INDEX IF NOT EXISTS "idx_sources_next_refresh" ON "public"."sources" USING "btree" ("next_refresh_at") WHERE ("refresh_interval" <> 'off'::"text");
+
+ALTER TABLE "public"."pages"
+  ADD COLUMN IF NOT EXISTS "etag" "text",
+  ADD COLUMN IF NOT EXISTS "last_modified" "text";
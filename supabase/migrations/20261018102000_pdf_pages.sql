@@ -0,0 +1,10 @@
+-- PDF ingestion: the response type a page was read from, and the PDF page number each chunk (and the quotes cut from it) starts on.
+
+ALTER TABLE "public"."pages"
+  ADD COLUMN IF NOT EXISTS "content_type" "text";
+
+ALTER TABLE "public"."chunks"
+  ADD COLUMN IF NOT EXISTS "page_number" integer;
+
+ALTER TABLE "public"."quotes"
+  ADD COLUMN IF NOT EXISTS "page_number" integer;
@@ -0,0 +1,21 @@
+-- Uploaded-file sources: files live in the private source-files bucket under <owner_id>/<source_id>/, one page per file.
+
+ALTER TABLE "public"."sources"
+  ADD COLUMN IF NOT EXISTS "kind" "text" DEFAULT 'web'::"text" NOT NULL;
+
+ALTER TABLE "public"."sources"
+  ADD CONSTRAINT "sources_kind_check" CHECK (("kind" = ANY (ARRAY['web'::"text", 'file'::"text"])));
+
+ALTER TABLE "public"."pages"
+  ADD COLUMN IF NOT EXISTS "storage_path" "text";
+
+
+INSERT INTO "storage"."buckets" ("id", "name", "public")
+VALUES ('source-files', 'source-files', false)
+ON CONFLICT ("id") DO NOTHING;
+
+CREATE POLICY "Users can upload their own source files" ON "storage"."objects" FOR INSERT WITH CHECK ((("bucket_id" = 'source-files'::"text") AND (("storage"."foldername"("name"))[1] = (( SELECT "auth"."uid"() AS "uid"))::"text")));
+
+CREATE POLICY "Users can view their own source files" ON "storage"."objects" FOR SELECT USING ((("bucket_id" = 'source-files'::"text") AND (("storage"."foldername"("name"))[1] = (( SELECT "auth"."uid"() AS "uid"))::"text")));
+
+CREATE POLICY "Users can delete their own source files" ON "storage"."objects" FOR DELETE USING ((("bucket_id" = 'source-files'::"text") AND (("storage"."foldername"("name"))[1] = (( SELECT "auth"."uid"() AS "uid"))::"text")));
@@ -0,0 +1,7 @@
+-- How the worker fetches a source's pages: static HTML, a headless browser, or static with a browser fallback for near-empty pages.
+
+ALTER TABLE "public"."sources"
+  ADD COLUMN IF NOT EXISTS "fetch_strategy" "text" DEFAULT 'auto'::"text" NOT NULL;
+
+ALTER TABLE "public"."sources"
+  ADD CONSTRAINT "sources_fetch_strategy_check" CHECK (("fetch_strategy" = ANY (ARRAY['auto'::"text", 'static'::"text", 'browser'::"text"])));
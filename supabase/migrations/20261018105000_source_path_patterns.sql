@@ -0,0 +1,10 @@
+-- Crawl scoping for web sources: include/exclude path patterns (globs, or re: regexes) and optional seeding from sitemap.xml.
+
+ALTER TABLE "public"."sources"
+  ADD COLUMN IF NOT EXISTS "include_patterns" "text"[] DEFAULT '{}'::"text"[] NOT NULL;
+
+ALTER TABLE "public"."sources"
+  ADD COLUMN IF NOT EXISTS "exclude_patterns" "text"[] DEFAULT '{}'::"text"[] NOT NULL;
+
+ALTER TABLE "public"."sources"
+  ADD COLUMN IF NOT EXISTS "use_sitemap" boolean DEFAULT false NOT NULL;
@@ -0,0 +1,4 @@
+-- Custom crawl profile for web sources: {max_pages, max_link_depth, max_pages_per_prefix, max_total_bytes}; null keeps the crawl_depth preset.
+
+ALTER TABLE "public"."sources"
+  ADD COLUMN IF NOT EXISTS "crawl_budget" "jsonb";
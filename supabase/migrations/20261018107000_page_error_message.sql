@@ -0,0 +1,4 @@
+-- Reason a page failed to fetch or extract (pages.status = 'error'); cleared when the page indexes again.
+
+ALTER TABLE "public"."pages"
+  ADD COLUMN IF NOT EXISTS "error_message" "text";
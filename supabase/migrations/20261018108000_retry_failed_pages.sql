@@ -0,0 +1,7 @@
+-- HTTP status of a page's last fetch, and crawl jobs that only re-fetch a source's failed pages (explicit_crawl_urls, no link following).
+
+ALTER TABLE "public"."pages"
+  ADD COLUMN IF NOT EXISTS "http_status" integer;
+
+ALTER TABLE "public"."crawl_jobs"
+  ADD COLUMN IF NOT EXISTS "retry_failed" boolean DEFAULT false NOT NULL;
@@ -0,0 +1,5 @@
+-- Where a page's fetch ended after redirects and the URL it declares as canonical. Pages are stored under the canonical URL when it is trusted, so two URLs for one article share a row.
+
+ALTER TABLE "public"."pages"
+  ADD COLUMN IF NOT EXISTS "final_url" text,
+  ADD COLUMN IF NOT EXISTS "canonical_url" text;
@@ -0,0 +1,7 @@
+-- SimHash fingerprint of each page's text, and the earlier page in the conversation it near-duplicates. Duplicates are not embedded and retrieval collapses them onto the original.
+
+ALTER TABLE "public"."pages"
+  ADD COLUMN IF NOT EXISTS "simhash" text,
+  ADD COLUMN IF NOT EXISTS "duplicate_of" uuid REFERENCES "public"."pages"("id") ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS "pages_duplicate_of_idx" ON "public"."pages" USING btree ("duplicate_of") WHERE "duplicate_of" IS NOT NULL;
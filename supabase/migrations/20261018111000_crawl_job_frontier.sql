@@ -0,0 +1,17 @@
+-- Pausable crawl jobs: a 'paused' status, and each job's BFS frontier (queue, visited and discovered URLs, counters) so a paused, requeued or crashed crawl resumes where it stopped. Kept out of crawl_jobs, which the app polls and receives over Realtime; only the worker reads it.
+
+ALTER TABLE "public"."crawl_jobs" DROP CONSTRAINT IF EXISTS "crawl_jobs_status_check";
+ALTER TABLE "public"."crawl_jobs"
+  ADD CONSTRAINT "crawl_jobs_status_check" CHECK (("status" = ANY (ARRAY['queued'::"text", 'running'::"text", 'indexing'::"text", 'encoding'::"text", 'completed'::"text", 'failed'::"text", 'cancelled'::"text", 'paused'::"text"])));
+
+CREATE TABLE IF NOT EXISTS "public"."crawl_frontiers" (
+    "job_id" "uuid" NOT NULL,
+    "frontier" "jsonb" NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "crawl_frontiers_pkey" PRIMARY KEY ("job_id"),
+    CONSTRAINT "crawl_frontiers_job_id_fkey" FOREIGN KEY ("job_id") REFERENCES "public"."crawl_jobs"("id") ON DELETE CASCADE
+);
+
+ALTER TABLE "public"."crawl_frontiers" ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON TABLE "public"."crawl_frontiers" TO "service_role";
@@ -0,0 +1,43 @@
+-- Resumable, cancellable chat-with-rag runs, keyed by the question's root message. rag_run_events keeps every NDJSON event the run streamed (answer deltas coalesced) so a client that lost the stream can reattach and replay it; setting a run's status to 'cancelled' stops its loop before the next iteration. Users cannot update runs: chat-with-rag records status and heartbeat, and cancel-rag-run sets 'cancelled', both with the service role.
+
+CREATE TABLE IF NOT EXISTS "public"."rag_runs" (
+    "root_message_id" "uuid" NOT NULL,
+    "conversation_id" "uuid" NOT NULL,
+    "owner_id" "uuid" NOT NULL,
+    "status" "text" DEFAULT 'running'::"text" NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "rag_runs_pkey" PRIMARY KEY ("root_message_id"),
+    CONSTRAINT "rag_runs_status_check" CHECK (("status" = ANY (ARRAY['running'::"text", 'completed'::"text", 'failed'::"text", 'cancelled'::"text"]))),
+    CONSTRAINT "rag_runs_root_message_id_fkey" FOREIGN KEY ("root_message_id") REFERENCES "public"."messages"("id") ON DELETE CASCADE,
+    CONSTRAINT "rag_runs_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE CASCADE,
+    CONSTRAINT "rag_runs_owner_id_fkey" FOREIGN KEY ("owner_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "idx_rag_runs_conversation_status" ON "public"."rag_runs" USING "btree" ("conversation_id", "status");
+
+CREATE TABLE IF NOT EXISTS "public"."rag_run_events" (
+    "root_message_id" "uuid" NOT NULL,
+    "seq" integer NOT NULL,
+    "owner_id" "uuid" NOT NULL,
+    "event" "jsonb" NOT NULL,
+    CONSTRAINT "rag_run_events_pkey" PRIMARY KEY ("root_message_id", "seq"),
+    CONSTRAINT "rag_run_events_root_message_id_fkey" FOREIGN KEY ("root_message_id") REFERENCES "public"."rag_runs"("root_message_id") ON DELETE CASCADE,
+    CONSTRAINT "rag_run_events_owner_id_fkey" FOREIGN KEY ("owner_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE
+);
+
+ALTER TABLE "public"."rag_runs" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."rag_run_events" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can insert own rag_runs" ON "public"."rag_runs" FOR INSERT WITH CHECK (("owner_id" = "auth"."uid"()));
+CREATE POLICY "Users can view own rag_runs" ON "public"."rag_runs" FOR SELECT USING (("owner_id" = "auth"."uid"()));
+CREATE POLICY "Users can insert own rag_run_events" ON "public"."rag_run_events" FOR INSERT WITH CHECK (("owner_id" = "auth"."uid"()));
+CREATE POLICY "Users can view own rag_run_events" ON "public"."rag_run_events" FOR SELECT USING (("owner_id" = "auth"."uid"()));
+CREATE POLICY "Users can delete own rag_run_events" ON "public"."rag_run_events" FOR DELETE USING (("owner_id" = "auth"."uid"()));
+
+GRANT ALL ON TABLE "public"."rag_runs" TO "anon";
+GRANT ALL ON TABLE "public"."rag_runs" TO "authenticated";
+GRANT ALL ON TABLE "public"."rag_runs" TO "service_role";
+GRANT ALL ON TABLE "public"."rag_run_events" TO "anon";
+GRANT ALL ON TABLE "public"."rag_run_events" TO "authenticated";
+GRANT ALL ON TABLE "public"."rag_run_events" TO "service_role";
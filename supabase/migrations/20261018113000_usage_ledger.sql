@@ -0,0 +1,60 @@
+-- One row per model or embedding call, written by chat-with-rag (plan, extract, rerank, final, title, query embeddings) and the worker (chunk, link and dive embeddings). Rows are written with the service role only, since embedding tokens count toward user quotas; users can read their own. cost_usd is estimated from supabase/functions/_shared/usagePricing.ts at write time and is null for models without a known price. usage_summary totals the caller's rows, optionally since a date and for one source.
+
+CREATE TABLE IF NOT EXISTS "public"."usage_ledger" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "owner_id" "uuid" NOT NULL,
+    "conversation_id" "uuid",
+    "root_message_id" "uuid",
+    "source_id" "uuid",
+    "crawl_job_id" "uuid",
+    "phase" "text" NOT NULL,
+    "model" "text" NOT NULL,
+    "prompt_tokens" integer DEFAULT 0 NOT NULL,
+    "completion_tokens" integer DEFAULT 0 NOT NULL,
+    "cost_usd" numeric(12,6),
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "usage_ledger_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "usage_ledger_phase_check" CHECK (("phase" = ANY (ARRAY['plan'::"text", 'extract'::"text", 'rerank'::"text", 'final'::"text", 'title'::"text", 'query_embedding'::"text", 'chunk_embedding'::"text", 'link_embedding'::"text", 'dive_embedding'::"text"]))),
+    CONSTRAINT "usage_ledger_owner_id_fkey" FOREIGN KEY ("owner_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE,
+    CONSTRAINT "usage_ledger_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE SET NULL,
+    CONSTRAINT "usage_ledger_root_message_id_fkey" FOREIGN KEY ("root_message_id") REFERENCES "public"."messages"("id") ON DELETE SET NULL,
+    CONSTRAINT "usage_ledger_source_id_fkey" FOREIGN KEY ("source_id") REFERENCES "public"."sources"("id") ON DELETE SET NULL,
+    CONSTRAINT "usage_ledger_crawl_job_id_fkey" FOREIGN KEY ("crawl_job_id") REFERENCES "public"."crawl_jobs"("id") ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_usage_ledger_owner_created" ON "public"."usage_ledger" USING "btree" ("owner_id", "created_at");
+CREATE INDEX IF NOT EXISTS "idx_usage_ledger_source" ON "public"."usage_ledger" USING "btree" ("source_id");
+CREATE INDEX IF NOT EXISTS "idx_usage_ledger_conversation" ON "public"."usage_ledger" USING "btree" ("conversation_id");
+
+ALTER TABLE "public"."usage_ledger" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own usage_ledger" ON "public"."usage_ledger" FOR SELECT USING (("owner_id" = "auth"."uid"()));
+
+GRANT ALL ON TABLE "public"."usage_ledger" TO "anon";
+GRANT ALL ON TABLE "public"."usage_ledger" TO "authenticated";
+GRANT ALL ON TABLE "public"."usage_ledger" TO "service_role";
+
+
+CREATE OR REPLACE FUNCTION "public"."usage_summary"(
+  "p_since" timestamp with time zone DEFAULT NULL,
+  "p_source_id" "uuid" DEFAULT NULL
+) RETURNS TABLE("prompt_tokens" bigint, "completion_tokens" bigint, "cost_usd" numeric, "call_count" bigint)
+    LANGUAGE "sql" STABLE SECURITY INVOKER
+    SET "search_path" TO 'public'
+    AS $$
+  SELECT
+    coalesce(sum(u.prompt_tokens), 0)::bigint,
+    coalesce(sum(u.completion_tokens), 0)::bigint,
+    coalesce(sum(u.cost_usd), 0)::numeric,
+    count(*)::bigint
+  FROM usage_ledger u
+  WHERE u.owner_id = auth.uid()
+    AND (p_since IS NULL OR u.created_at >= p_since)
+    AND (p_source_id IS NULL OR u.source_id = p_source_id);
+$$;
+
+ALTER FUNCTION "public"."usage_summary"("p_since" timestamp with time zone, "p_source_id" "uuid") OWNER TO "postgres";
+
+GRANT ALL ON FUNCTION "public"."usage_summary"("p_since" timestamp with time zone, "p_source_id" "uuid") TO "anon";
+GRANT ALL ON FUNCTION "public"."usage_summary"("p_since" timestamp with time zone, "p_source_id" "uuid") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."usage_summary"("p_since" timestamp with time zone, "p_source_id" "uuid") TO "service_role";
@@ -0,0 +1,89 @@
+-- Per-user limits on crawling, embedding and chat-with-rag runs. A null column falls back to the QUOTA_MAX_* environment default of the worker or edge function (no limit when that is unset too). Rows are managed with the service role; users can only read their own. quota_ledger gets one row per started chat-with-rag run and per indexed page, inserted with the service role by chat-with-rag and the worker; like usage_ledger (embedding tokens) users cannot write it, and neither cascades from conversations or sources, so deleting data does not reset a window. user_quota_status returns a user's limits next to what they used in each rolling window, and when the oldest counted use in each window happened so callers can say when room frees up.
+
+CREATE TABLE IF NOT EXISTS "public"."user_quotas" (
+    "owner_id" "uuid" NOT NULL,
+    "max_pages_per_day" integer,
+    "max_embedding_tokens_per_day" bigint,
+    "max_rag_runs_per_hour" integer,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "user_quotas_pkey" PRIMARY KEY ("owner_id"),
+    CONSTRAINT "user_quotas_owner_id_fkey" FOREIGN KEY ("owner_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE
+);
+
+ALTER TABLE "public"."user_quotas" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own user_quotas" ON "public"."user_quotas" FOR SELECT USING (("owner_id" = "auth"."uid"()));
+
+GRANT SELECT ON TABLE "public"."user_quotas" TO "anon";
+GRANT SELECT ON TABLE "public"."user_quotas" TO "authenticated";
+GRANT ALL ON TABLE "public"."user_quotas" TO "service_role";
+
+CREATE TABLE IF NOT EXISTS "public"."quota_ledger" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "owner_id" "uuid" NOT NULL,
+    "kind" "text" NOT NULL,
+    "amount" integer DEFAULT 1 NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "quota_ledger_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "quota_ledger_kind_check" CHECK (("kind" = ANY (ARRAY['page'::"text", 'rag_run'::"text"]))),
+    CONSTRAINT "quota_ledger_owner_id_fkey" FOREIGN KEY ("owner_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "idx_quota_ledger_owner_kind_created" ON "public"."quota_ledger" USING "btree" ("owner_id", "kind", "created_at");
+
+ALTER TABLE "public"."quota_ledger" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own quota_ledger" ON "public"."quota_ledger" FOR SELECT USING (("owner_id" = "auth"."uid"()));
+
+GRANT SELECT ON TABLE "public"."quota_ledger" TO "anon";
+GRANT SELECT ON TABLE "public"."quota_ledger" TO "authenticated";
+GRANT ALL ON TABLE "public"."quota_ledger" TO "service_role";
+
+
+CREATE OR REPLACE FUNCTION "public"."user_quota_status"("p_owner_id" "uuid")
+RETURNS TABLE(
+  "max_pages_per_day" integer,
+  "max_embedding_tokens_per_day" bigint,
+  "max_rag_runs_per_hour" integer,
+  "pages_today" bigint,
+  "pages_window_start" timestamp with time zone,
+  "embedding_tokens_today" bigint,
+  "embedding_window_start" timestamp with time zone,
+  "rag_runs_last_hour" bigint,
+  "rag_runs_window_start" timestamp with time zone
+)
+    LANGUAGE "sql" STABLE SECURITY INVOKER
+    SET "search_path" TO 'public'
+    AS $$
+  SELECT
+    q.max_pages_per_day,
+    q.max_embedding_tokens_per_day,
+    q.max_rag_runs_per_hour,
+    p.pages, p.window_start,
+    e.tokens, e.window_start,
+    r.runs, r.window_start
+  FROM (SELECT 1) AS one
+  LEFT JOIN user_quotas q ON q.owner_id = p_owner_id
+  CROSS JOIN LATERAL (
+    SELECT coalesce(sum(l.amount), 0)::bigint AS pages, min(l.created_at) AS window_start
+    FROM quota_ledger l
+    WHERE l.owner_id = p_owner_id AND l.kind = 'page' AND l.created_at >= now() - interval '1 day'
+  ) p
+  CROSS JOIN LATERAL (
+    SELECT coalesce(sum(u.prompt_tokens), 0)::bigint AS tokens, min(u.created_at) AS window_start
+    FROM usage_ledger u
+    WHERE u.owner_id = p_owner_id AND u.created_at >= now() - interval '1 day'
+      AND u.phase = ANY (ARRAY['query_embedding', 'chunk_embedding', 'link_embedding', 'dive_embedding'])
+  ) e
+  CROSS JOIN LATERAL (
+    SELECT coalesce(sum(l.amount), 0)::bigint AS runs, min(l.created_at) AS window_start
+    FROM quota_ledger l
+    WHERE l.owner_id = p_owner_id AND l.kind = 'rag_run' AND l.created_at >= now() - interval '1 hour'
+  ) r;
+$$;
+
+ALTER FUNCTION "public"."user_quota_status"("p_owner_id" "uuid") OWNER TO "postgres";
+
+GRANT ALL ON FUNCTION "public"."user_quota_status"("p_owner_id" "uuid") TO "anon";
+GRANT ALL ON FUNCTION "public"."user_quota_status"("p_owner_id" "uuid") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."user_quota_status"("p_owner_id" "uuid") TO "service_role";
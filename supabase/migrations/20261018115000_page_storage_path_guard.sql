@@ -0,0 +1,29 @@
+-- Uploaded files are downloaded by the worker with the service role, so pages.storage_path must not be pointed at another user's folder. Users may only set it on insert, inside <owner_id>/<source_id>/; after that only the service role can change it.
+
+CREATE OR REPLACE FUNCTION "public"."guard_page_storage_path"() RETURNS "trigger"
+    LANGUAGE "plpgsql"
+    SET "search_path" TO 'public'
+    AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.storage_path IS DISTINCT FROM OLD.storage_path THEN
+      RAISE EXCEPTION 'storage_path cannot be changed';
+    END IF;
+    RETURN NEW;
+  END IF;
+  IF NEW.storage_path IS NOT NULL
+     AND (NOT starts_with(NEW.storage_path, NEW.owner_id::text || '/' || NEW.source_id::text || '/')
+          OR '..' = ANY (string_to_array(NEW.storage_path, '/'))) THEN
+    RAISE EXCEPTION 'storage_path must be inside the source folder';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+ALTER FUNCTION "public"."guard_page_storage_path"() OWNER TO "postgres";
+
+-- Named to fire after set_pages_owner, which fills owner_id on insert.
+CREATE OR REPLACE TRIGGER "set_pages_storage_path_guard" BEFORE INSERT OR UPDATE ON "public"."pages" FOR EACH ROW EXECUTE FUNCTION "public"."guard_page_storage_path"();
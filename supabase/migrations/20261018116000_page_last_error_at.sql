@@ -0,0 +1,4 @@
+-- When a page's last fetch failed. A failed refetch of a page that already has content keeps it indexed and only records error_message and last_error_at; pages without content move to status 'error'.
+
+ALTER TABLE "public"."pages"
+  ADD COLUMN IF NOT EXISTS "last_error_at" timestamp with time zone;
@@ -2,18 +2,14 @@
 
 
 
-import * as cheerio from 'cheerio';
-import fetch from 'node-fetch';
 import { supabase } from './db';
 import { indexSinglePageForRag, embedDiscoveredLinksForPage } from './indexer';
+import { contentHash } from './contentHash';
+import { getEmbeddingProvider } from './embeddings';
 import { extractLinks, extractLinksWithContext } from './crawler';
-import {
-  CRAWLER_USER_AGENT,
-  DEFAULT_PAGE_TITLE,
-  MAIN_CONTENT_SELECTOR,
-  MAX_PAGE_CONTENT_LENGTH,
-} from './crawler/constants';
-import { normalizeUrlForCrawl } from './crawler/urlUtils';
+import { normalizeUrl, resolvePageIdentity } from './crawler/urlUtils';
+import { readDocumentWithStrategy } from './crawler/document';
+import { politeFetch } from './crawler/hostScheduler';
 import { updateCrawlJob } from './crawler/job';
 import type { Source } from './types';
 
@@ -29,6 +25,39 @@ const SEED_EDGES_LIMIT = 10;
 
 const DEFAULT_SNIPPET_FALLBACK = 'Link from page';
 
+/** Links an already-stored page into the source's graph: seed pages point at it and dangling edges to any of `urls` resolve to it. */
+async function linkExistingPage(sourceId: string, pageId: string, urls: string[]): Promise<void> {
+  const { data: source } = await supabase.from('sources').select('owner_id').eq('id', sourceId).single();
+  const ownerId = (source as { owner_id?: string } | null)?.owner_id;
+  if (!ownerId) return;
+  const { data: seedPages } = await supabase
+    .from('pages')
+    .select('id')
+    .eq('source_id', sourceId)
+    .neq('id', pageId)
+    .limit(SEED_EDGES_LIMIT);
+  if (seedPages?.length) {
+    await supabase.from('page_edges').upsert(
+      seedPages.map((p: { id: string }) => ({
+        from_page_id: p.id,
+        to_url: urls[0],
+        owner_id: ownerId,
+      })),
+      { onConflict: 'from_page_id,to_url', ignoreDuplicates: true }
+    );
+  }
+  const { data: sourcePages } = await supabase.from('pages').select('id').eq('source_id', sourceId);
+  const fromPageIds = (sourcePages ?? []).map((p: { id: string }) => p.id);
+  if (fromPageIds.length > 0) {
+    await supabase
+      .from('page_edges')
+      .update({ to_page_id: pageId })
+      .in('to_url', urls)
+      .in('from_page_id', fromPageIds)
+      .is('to_page_id', null);
+  }
+}
+
 export async function processAddPageJob(job: {
   id: string;
   source_id: string;
@@ -40,7 +69,7 @@ export async function processAddPageJob(job: {
     await updateCrawlJob(jobId, { status: 'failed', error_message: 'No URL in explicit_crawl_urls' });
     return;
   }
-  const normalizedUrl = normalizeUrlForCrawl(url);
+  const normalizedUrl = normalizeUrl(url);
 
   console.log('[add-page] process start', { jobId: jobId.slice(0, 8), url: normalizedUrl.slice(0, 50) });
 
@@ -56,45 +85,13 @@ export async function processAddPageJob(job: {
 
     if (existing) {
       console.log('[add-page] page already exists', existing.id, '- backfilling edges and completing');
-      const { data: source } = await supabase.from('sources').select('owner_id').eq('id', sourceId).single();
-      const ownerId = (source as { owner_id?: string } | null)?.owner_id;
-      if (ownerId) {
-        const { data: seedPages } = await supabase
-          .from('pages')
-          .select('id')
-          .eq('source_id', sourceId)
-          .neq('id', existing.id)
-          .limit(SEED_EDGES_LIMIT);
-        if (seedPages?.length) {
-          const edges = seedPages.map((p: { id: string }) => ({
-            from_page_id: p.id,
-            to_url: normalizedUrl,
-            owner_id: ownerId,
-          }));
-          await supabase.from('page_edges').upsert(edges, {
-            onConflict: 'from_page_id,to_url',
-            ignoreDuplicates: true,
-          });
-        }
-        const { data: sourcePages } = await supabase.from('pages').select('id').eq('source_id', sourceId);
-        const fromPageIds = (sourcePages ?? []).map((p: { id: string }) => p.id);
-        if (fromPageIds.length > 0) {
-          await supabase
-            .from('page_edges')
-            .update({ to_page_id: existing.id })
-            .eq('to_url', normalizedUrl)
-            .in('from_page_id', fromPageIds)
-            .is('to_page_id', null);
-        }
-      }
+      await linkExistingPage(sourceId, existing.id, [normalizedUrl]);
       await updateCrawlJob(jobId, { status: 'completed' });
       return;
     }
 
     
-    const res = await fetch(normalizedUrl, {
-      headers: { 'User-Agent': CRAWLER_USER_AGENT },
-    });
+    const res = await politeFetch(normalizedUrl);
     if (!res.ok) {
       await updateCrawlJob(jobId, {
         status: 'failed',
@@ -102,19 +99,28 @@ export async function processAddPageJob(job: {
       });
       throw new Error(`Failed to fetch: HTTP ${res.status}`);
     }
-    const html = await res.text();
-
-    const $ = cheerio.load(html);
-    const title = $('title').first().text().trim() || $('h1').first().text().trim() || DEFAULT_PAGE_TITLE;
-    const content =
-      $(MAIN_CONTENT_SELECTOR)
-        .first()
-        .text()
-        .trim()
-        .substring(0, MAX_PAGE_CONTENT_LENGTH) ||
-      $('body').text().trim().substring(0, MAX_PAGE_CONTENT_LENGTH);
-
-    const urlObj = new URL(normalizedUrl);
+    const { data: strategySource } = await supabase.from('sources').select('fetch_strategy').eq('id', sourceId).single();
+    const strategy = (strategySource as Pick<Source, 'fetch_strategy'> | null)?.fetch_strategy ?? 'auto';
+    const { html, title, content, blocks: contentBlocks, contentType, canonicalHref } = await readDocumentWithStrategy(res, normalizedUrl, strategy);
+
+    const identity = resolvePageIdentity(normalizedUrl, res.url, canonicalHref);
+    const pageUrls = identity.url === normalizedUrl ? [normalizedUrl] : [normalizedUrl, identity.url];
+    if (identity.url !== normalizedUrl) {
+      const { data: stored } = await supabase
+        .from('pages')
+        .select('id')
+        .eq('source_id', sourceId)
+        .eq('url', identity.url)
+        .maybeSingle();
+      if (stored) {
+        console.log('[add-page] url is an alias of an existing page', stored.id, '- backfilling edges and completing');
+        await linkExistingPage(sourceId, stored.id, pageUrls);
+        await updateCrawlJob(jobId, { status: 'completed' });
+        return;
+      }
+    }
+
+    const urlObj = new URL(identity.url);
     const path = urlObj.pathname + urlObj.search;
 
     
@@ -135,10 +141,16 @@ export async function processAddPageJob(job: {
       .from('pages')
       .insert({
         source_id: sourceId,
-        url: normalizedUrl,
+        url: identity.url,
+        final_url: identity.finalUrl,
+        canonical_url: identity.canonicalUrl,
+        http_status: res.status,
         title,
         path,
         content,
+        content_blocks: contentBlocks.length > 0 ? contentBlocks : null,
+        content_hash: contentHash(content),
+        content_type: contentType,
         status: 'indexed',
         owner_id: ownerId,
       })
@@ -151,40 +163,11 @@ export async function processAddPageJob(job: {
           .from('pages')
           .select('id')
           .eq('source_id', sourceId)
-          .eq('url', normalizedUrl)
+          .eq('url', identity.url)
           .maybeSingle();
         if (existingAfterConflict) {
           console.log('[add-page] insert conflict (page already exists)', existingAfterConflict.id, '- backfilling edges and completing');
-          const { data: source2 } = await supabase.from('sources').select('owner_id').eq('id', sourceId).single();
-          const ownerId2 = (source2 as { owner_id?: string } | null)?.owner_id;
-          if (ownerId2) {
-            const { data: seedPages2 } = await supabase
-              .from('pages')
-              .select('id')
-              .eq('source_id', sourceId)
-              .neq('id', existingAfterConflict.id)
-              .limit(SEED_EDGES_LIMIT);
-            if (seedPages2?.length) {
-              await supabase.from('page_edges').upsert(
-                seedPages2.map((p: { id: string }) => ({
-                  from_page_id: p.id,
-                  to_url: normalizedUrl,
-                  owner_id: ownerId2,
-                })),
-                { onConflict: 'from_page_id,to_url', ignoreDuplicates: true }
-              );
-            }
-            const { data: sourcePages2 } = await supabase.from('pages').select('id').eq('source_id', sourceId);
-            const fromPageIds2 = (sourcePages2 ?? []).map((p: { id: string }) => p.id);
-            if (fromPageIds2.length > 0) {
-              await supabase
-                .from('page_edges')
-                .update({ to_page_id: existingAfterConflict.id })
-                .eq('to_url', normalizedUrl)
-                .in('from_page_id', fromPageIds2)
-                .is('to_page_id', null);
-            }
-          }
+          await linkExistingPage(sourceId, existingAfterConflict.id, pageUrls);
           await updateCrawlJob(jobId, { status: 'completed' });
           return;
         }
@@ -220,7 +203,7 @@ export async function processAddPageJob(job: {
       await supabase
         .from('page_edges')
         .update({ to_page_id: newPage.id })
-        .eq('to_url', normalizedUrl)
+        .in('to_url', pageUrls)
         .in('from_page_id', fromPageIds)
         .is('to_page_id', null);
     }
@@ -232,8 +215,8 @@ export async function processAddPageJob(job: {
     } as Source;
     const isSurface = (source as { suggestion_mode?: string }).suggestion_mode !== 'dive';
     
-    const linksWithContext = isSurface ? extractLinksWithContext(html, normalizedUrl, sourceForExtract) : [];
-    const linksUrlOnly = extractLinks(html, normalizedUrl, sourceForExtract);
+    const linksWithContext = isSurface ? extractLinksWithContext(html, res.url || normalizedUrl, sourceForExtract) : [];
+    const linksUrlOnly = extractLinks(html, res.url || normalizedUrl, sourceForExtract);
     console.log('[add-page] links', {
       withContext: linksWithContext.length,
       urlOnly: linksUrlOnly.length,
@@ -304,18 +287,18 @@ export async function processAddPageJob(job: {
     }
 
     
-    await indexSinglePageForRag(newPage.id, content, ownerId, jobId);
+    await indexSinglePageForRag(newPage.id, content, ownerId, jobId, contentBlocks);
 
     
-    const apiKey = process.env.OPENAI_API_KEY;
+    const embedder = getEmbeddingProvider();
     const conversationId = (source as { conversation_id?: string }).conversation_id;
-    if (!apiKey) {
-      console.log('[add-page] SKIP embedDiscoveredLinksForPage: OPENAI_API_KEY not set');
+    if (!embedder) {
+      console.log('[add-page] SKIP embedDiscoveredLinksForPage: no embedding provider configured');
     } else if (!conversationId) {
       console.log('[add-page] SKIP embedDiscoveredLinksForPage: source.conversation_id is null/undefined');
     } else {
       console.log('[add-page] calling embedDiscoveredLinksForPage', { conversationId: conversationId.slice(0, 8), newPageId: newPage.id?.slice(0, 8) });
-      await embedDiscoveredLinksForPage(conversationId, newPage.id, apiKey, jobId, ownerId);
+      await embedDiscoveredLinksForPage(conversationId, newPage.id, embedder, jobId, ownerId);
     }
 
     
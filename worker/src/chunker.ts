@@ -0,0 +1,158 @@
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
+import { blockToText, BLOCK_SEPARATOR, type ContentBlock } from './crawler/structure';
+
+export const CHUNK_MAX_CHARS = 600;
+export const CHUNK_OVERLAP_CHARS = 100;
+
+const TABLE_MAX_CHARS = 4000;
+const HEADING_PATH_SEPARATOR = ' > ';
+
+const textSplitter = new RecursiveCharacterTextSplitter({
+  chunkSize: CHUNK_MAX_CHARS,
+  chunkOverlap: CHUNK_OVERLAP_CHARS,
+});
+
+export type StructuredChunk = {
+  /** Chunk text as embedded and stored: heading path prefix, blank line, body. */
+  content: string;
+  body: string;
+  headingPath: string[];
+  /** Character span of the body in pages.content; null when it could not be located exactly. */
+  start_index: number | null;
+  end_index: number | null;
+  /** 1-based PDF page the chunk starts on; null for HTML pages. */
+  page_number: number | null;
+};
+
+type Span = { start: number; end: number } | null;
+type PositionedBlock = { block: ContentBlock; text: string; start: number };
+type Section = { headingPath: string[]; blocks: PositionedBlock[] };
+
+function toSections(blocks: ContentBlock[]): Section[] {
+  const sections: Section[] = [];
+  const stack: { level: number; text: string }[] = [];
+  let current: Section = { headingPath: [], blocks: [] };
+  let offset = 0;
+  for (const block of blocks) {
+    const text = blockToText(block);
+    const start = offset;
+    offset += text.length + BLOCK_SEPARATOR.length;
+    if (block.type === 'heading') {
+      if (current.blocks.length > 0) sections.push(current);
+      while (stack.length > 0 && stack[stack.length - 1].level >= block.level) stack.pop();
+      stack.push({ level: block.level, text: block.text });
+      current = { headingPath: stack.map((h) => h.text), blocks: [] };
+      continue;
+    }
+    current.blocks.push({ block, text, start });
+  }
+  if (current.blocks.length > 0) sections.push(current);
+  return sections;
+}
+
+/**
+ * Tables stay whole; oversized ones are split by rows with the header row repeated. The span of a
+ * continuation piece covers only its own rows, not the repeated header.
+ */
+function tablePieces(block: Extract<ContentBlock, { type: 'table' }>, start: number): { text: string; span: Span }[] {
+  const full = blockToText(block);
+  if (full.length <= TABLE_MAX_CHARS || block.rows.length < 2) {
+    return [{ text: full, span: { start, end: start + full.length } }];
+  }
+  const header = block.rows[0].join(' | ');
+  const pieces: { text: string; span: Span }[] = [];
+  let rows: string[] = [header];
+  let length = header.length;
+  let pieceStart = start;
+  let cursor = start + header.length + 1;
+  for (const row of block.rows.slice(1)) {
+    const line = row.join(' | ');
+    if (rows.length > 1 && length + 1 + line.length > TABLE_MAX_CHARS) {
+      pieces.push({ text: rows.join('\n'), span: { start: pieceStart, end: cursor - 1 } });
+      rows = [header];
+      length = header.length;
+      pieceStart = cursor;
+    }
+    rows.push(line);
+    length += 1 + line.length;
+    cursor += line.length + 1;
+  }
+  if (rows.length > 1) pieces.push({ text: rows.join('\n'), span: { start: pieceStart, end: cursor - 1 } });
+  return pieces;
+}
+
+/** Splits oversized text and locates each piece in it; the splitter trims, so pieces are substrings. */
+async function splitWithSpans(text: string, offset: number): Promise<{ text: string; span: Span }[]> {
+  const pieces = await textSplitter.splitText(text);
+  let cursor = 0;
+  return pieces.map((piece) => {
+    const at = text.indexOf(piece, cursor);
+    if (at < 0) return { text: piece, span: null };
+    cursor = at + 1;
+    return { text: piece, span: { start: offset + at, end: offset + at + piece.length } };
+  });
+}
+
+function withPrefix(headingPath: string[], body: string, span: Span, page?: number): StructuredChunk {
+  const prefix = headingPath.join(HEADING_PATH_SEPARATOR);
+  return {
+    content: prefix ? `${prefix}\n\n${body}` : body,
+    body,
+    headingPath,
+    start_index: span?.start ?? null,
+    end_index: span?.end ?? null,
+    page_number: page ?? null,
+  };
+}
+
+/**
+ * Section-aware chunking: never crosses a heading boundary, packs consecutive paragraphs and list
+ * items up to CHUNK_MAX_CHARS, keeps tables intact, and prefixes each chunk with its heading path.
+ * Blocks from different PDF pages are never packed together.
+ * Offsets refer to blocksToText(blocks), which is what pages.content holds for structured pages.
+ */
+export async function chunkContentBlocks(blocks: ContentBlock[]): Promise<StructuredChunk[]> {
+  const out: StructuredChunk[] = [];
+  for (const section of toSections(blocks)) {
+    let pending: PositionedBlock[] = [];
+    let pendingLength = 0;
+    const flush = () => {
+      if (pending.length === 0) return;
+      const first = pending[0];
+      const last = pending[pending.length - 1];
+      const body = pending.map((b) => b.text).join(BLOCK_SEPARATOR);
+      out.push(withPrefix(section.headingPath, body, { start: first.start, end: last.start + last.text.length }, first.block.page));
+      pending = [];
+      pendingLength = 0;
+    };
+
+    for (const positioned of section.blocks) {
+      const { block, text, start } = positioned;
+      if (block.type === 'table') {
+        flush();
+        for (const piece of tablePieces(block, start)) out.push(withPrefix(section.headingPath, piece.text, piece.span, block.page));
+        continue;
+      }
+      if (text.length > CHUNK_MAX_CHARS) {
+        flush();
+        for (const piece of await splitWithSpans(text, start)) out.push(withPrefix(section.headingPath, piece.text, piece.span, block.page));
+        continue;
+      }
+      if (pending.length > 0 && pending[0].block.page !== block.page) flush();
+      const add = text.length + (pending.length > 0 ? BLOCK_SEPARATOR.length : 0);
+      if (pendingLength + add > CHUNK_MAX_CHARS) flush();
+      pending.push(positioned);
+      pendingLength += text.length + (pending.length > 1 ? BLOCK_SEPARATOR.length : 0);
+    }
+    flush();
+  }
+  return out;
+}
+
+/** Plain-text fallback for pages without content_blocks (older crawls). Offsets refer to `text` as given. */
+export async function chunkPlainText(text: string): Promise<StructuredChunk[]> {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  const pieces = await splitWithSpans(trimmed, text.length - text.trimStart().length);
+  return pieces.map((piece) => withPrefix([], piece.text, piece.span));
+}
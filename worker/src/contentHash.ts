@@ -0,0 +1,6 @@
+import { createHash } from 'crypto';
+
+/** Stable hash of page or chunk text, used to skip re-chunking and re-embedding unchanged content. */
+export function contentHash(text: string): string {
+  return createHash('sha256').update(text, 'utf8').digest('hex');
+}
@@ -0,0 +1,29 @@
+import type { CrawlBudget, Source } from '../types';
+import { MAX_CUSTOM_PAGES, MAX_PAGES } from './constants';
+
+/** Page limit for a crawl: the source's custom budget when set, else its depth preset. */
+export function resolveMaxPages(source: Source): number {
+  const custom = source.crawl_budget?.max_pages;
+  if (custom != null && custom > 0) return Math.min(Math.floor(custom), MAX_CUSTOM_PAGES);
+  return MAX_PAGES[source.crawl_depth] ?? (source.crawl_depth === 'dynamic' ? 1 : 15);
+}
+
+/** First path segment, so `/docs/a` and `/docs/b/c` share the `/docs` prefix; the root page is `/`. */
+export function pathPrefix(url: string): string {
+  try {
+    const first = new URL(url).pathname.split('/').filter(Boolean)[0];
+    return first ? `/${first}` : '/';
+  } catch {
+    return '/';
+  }
+}
+
+/**
+ * Positive integer limits only, except that a link depth of 0 means "seeds only"; anything else
+ * means "no limit".
+ */
+export function budgetLimit(budget: CrawlBudget | null | undefined, key: Exclude<keyof CrawlBudget, 'max_pages'>): number | null {
+  const value = budget?.[key];
+  if (value == null) return null;
+  return value > 0 || (value === 0 && key === 'max_link_depth') ? value : null;
+}
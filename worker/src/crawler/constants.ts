@@ -91,4 +91,50 @@ export function isSkipSectionHeading(text: string): boolean {
   return SKIP_SECTION_HEADINGS.some(
     (h) => t === h || t.startsWith(h + ' ') || t.startsWith(h + '(')
   );
-}
\ No newline at end of file
+}
+export const PDF_CONTENT_TYPE = 'application/pdf';
+
+
+export const MAX_PDF_BYTES = 20 * 1024 * 1024;
+
+
+export const RENDER_FALLBACK_MIN_CHARS = 200;
+
+
+export const RENDER_TIMEOUT_MS = 30000;
+
+
+export const MAX_SITEMAP_FETCHES = 20;
+
+
+export const MAX_SITEMAP_URLS = 2000;
+
+
+export const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+
+export const MAX_CUSTOM_PAGES = 2000;
+
+
+export const FETCH_TIMEOUT_MS = 20000;
+
+
+export const HOST_REQUESTS_PER_SECOND = 1;
+
+
+export const HOST_BURST = 2;
+
+
+export const MAX_CRAWL_DELAY_SECONDS = 30;
+
+
+export const MAX_FETCH_ATTEMPTS = 3;
+
+
+export const RETRY_BASE_DELAY_MS = 1000;
+
+
+export const MAX_RETRY_DELAY_MS = 60000;
+
+
+export const FRONTIER_SAVE_INTERVAL = 5;
@@ -1,71 +1,220 @@
-import * as cheerio from 'cheerio';
-import fetch from 'node-fetch';
 import { supabase } from '../db';
 import type { Page, Source } from '../types';
-import {
-  CRAWLER_USER_AGENT,
-  DEFAULT_PAGE_TITLE,
-  LOG_URL_MAX_LENGTH,
-  MAIN_CONTENT_SELECTOR,
-  MAX_PAGE_CONTENT_LENGTH,
-  PAGE_TITLE_SUFFIX_REGEX,
-} from './constants';
-import { normalizeUrlForCrawl } from './urlUtils';
+import { LOG_URL_MAX_LENGTH } from './constants';
+import { normalizeUrl, resolvePageIdentity } from './urlUtils';
+import { isPdfResponse } from './pdf';
+import { readDocumentWithStrategy } from './document';
+import { politeFetch } from './hostScheduler';
+import { contentHash } from '../contentHash';
 
+/**
+ * A page this source already has, re-fetched on recrawl: conditionally (ETag / Last-Modified) when
+ * the server gave validators, otherwise compared by content hash.
+ */
+export type ExistingSourcePage = {
+  id: string;
+  content_hash: string | null;
+  etag?: string | null;
+  last_modified?: string | null;
+};
+
+const MAX_ERROR_MESSAGE_LENGTH = 500;
+
+/**
+ * Records why the fetch failed. Pages that still hold content from an earlier fetch stay
+ * `indexed` so chat keeps reading them; only content-less pages are marked `error` (and retried by
+ * the next crawl). New URLs get a content-less error row.
+ */
+async function recordPageError(
+  url: string,
+  source: Source,
+  existing: ExistingSourcePage | undefined,
+  reason: string,
+  httpStatus: number | null = null
+): Promise<void> {
+  const error_message = reason.slice(0, MAX_ERROR_MESSAGE_LENGTH);
+  const now = new Date().toISOString();
+  if (existing) {
+    await supabase
+      .from('pages')
+      .update({
+        ...(existing.content_hash ? {} : { status: 'error' as const }),
+        error_message,
+        http_status: httpStatus,
+        last_error_at: now,
+        updated_at: now,
+      })
+      .eq('id', existing.id);
+    return;
+  }
+  let path = url;
+  try {
+    const u = new URL(url);
+    path = u.pathname + u.search;
+  } catch {
+    /* keep the raw url */
+  }
+  const { error } = await supabase.from('pages').insert({
+    source_id: source.id,
+    url,
+    path,
+    status: 'error' as const,
+    error_message,
+    http_status: httpStatus,
+    last_error_at: now,
+    owner_id: source.owner_id,
+  });
+  if (error) console.warn('crawl: could not record page error', url.slice(0, LOG_URL_MAX_LENGTH), error.message);
+}
+
+/** This source's row for `url`: preloaded for pages stored before the crawl, looked up for ones stored during it. */
+async function findSourcePage(
+  sourceId: string,
+  url: string,
+  existingInSource: Map<string, ExistingSourcePage> | undefined
+): Promise<ExistingSourcePage | undefined> {
+  const known = existingInSource?.get(url);
+  if (known) return known;
+  const { data } = await supabase
+    .from('pages')
+    .select('id, content_hash, etag, last_modified')
+    .eq('source_id', sourceId)
+    .eq('url', url)
+    .maybeSingle();
+  return (data as ExistingSourcePage | null) ?? undefined;
+}
+
+/** Folds a row stored under an alias URL into the page's canonical row; quotes and incoming edges move with it. */
+async function mergeDuplicatePage(duplicateId: string, pageId: string): Promise<void> {
+  await supabase.from('quotes').update({ page_id: pageId }).eq('page_id', duplicateId);
+  await supabase.from('page_edges').update({ to_page_id: pageId }).eq('to_page_id', duplicateId);
+  const { error } = await supabase.from('pages').delete().eq('id', duplicateId);
+  if (error) console.warn('crawl: could not remove duplicate page', duplicateId.slice(0, 8), error.message);
+}
+
+/**
+ * `changed` is true for new pages and for existing pages whose text hash differs from the stored
+ * one (their chunks are rebuilt at indexing time); false when a recrawled page is unchanged.
+ * `notModified` means the server answered 304, so `html` is empty and links must come from stored edges.
+ */
 export async function crawlPage(
   url: string,
   source: Source,
   conversationId: string,
-  existingInConversation?: Set<string>
-): Promise<{ page: Page | null; html: string; inserted: boolean } | null> {
+  existingInConversation?: Set<string>,
+  existingInSource?: Map<string, ExistingSourcePage>
+): Promise<{ page: Page | null; html: string; bytes: number; inserted: boolean; changed: boolean; notModified?: boolean } | null> {
   if (!conversationId) {
     throw new Error(`conversationId is required for page insertion`);
   }
 
+  const normalized = normalizeUrl(url);
+  const existing = existingInSource?.get(normalized);
+  const skip = !existing && existingInConversation?.has(normalized);
   try {
-    const normalized = normalizeUrlForCrawl(url);
-    const skip = existingInConversation?.has(normalized);
+    const strategy = source.fetch_strategy ?? 'auto';
     if (skip) {
-      const response = await fetch(url, { headers: { 'User-Agent': CRAWLER_USER_AGENT } });
+      const response = await politeFetch(url);
       if (!response.ok) throw new Error(`HTTP ${response.status}`);
-      const html = await response.text();
+      const { html, bytes } = isPdfResponse(response.headers.get('content-type'), url)
+        ? { html: '', bytes: 0 }
+        : await readDocumentWithStrategy(response, url, strategy);
       console.log('[crawl] [crawlPage] SKIP (already in conversation)', {
         urlNorm: normalized.slice(-60),
         inputUrlTail: url.slice(-50),
       });
-      return { page: null, html, inserted: false };
+      return { page: null, html, bytes, inserted: false, changed: false };
     }
 
-    const response = await fetch(url, {
-      headers: { 'User-Agent': CRAWLER_USER_AGENT },
+    const response = await politeFetch(url, {
+      ...(existing?.etag ? { 'If-None-Match': existing.etag } : {}),
+      ...(existing?.last_modified ? { 'If-Modified-Since': existing.last_modified } : {}),
     });
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
+    if (existing && response.status === 304) {
+      const { data: touched, error: touchError } = await supabase
+        .from('pages')
+        .update({ status: 'indexed' as const, error_message: null, http_status: 304, updated_at: new Date().toISOString() })
+        .eq('id', existing.id)
+        .select()
+        .single();
+      if (touchError || !touched) {
+        console.error('crawl: page refresh failed', url.slice(0, LOG_URL_MAX_LENGTH), touchError?.message);
+        return null;
+      }
+      console.log('[crawl] [crawlPage] NOT MODIFIED', { pageId: existing.id.slice(0, 8), urlNorm: normalized.slice(-60) });
+      return { page: touched as Page, html: '', bytes: 0, inserted: false, changed: false, notModified: true };
     }
 
-    const html = await response.text();
-    const $ = cheerio.load(html);
+    if (!response.ok) {
+      console.error('crawl: page fetch failed', url.slice(0, LOG_URL_MAX_LENGTH), `HTTP ${response.status}`);
+      await recordPageError(url, source, existing, `HTTP ${response.status}`, response.status);
+      return null;
+    }
 
-    const rawTitle = $('title').first().text().trim() ||
-      $('h1').first().text().trim() ||
-      DEFAULT_PAGE_TITLE;
-    const title = rawTitle.replace(PAGE_TITLE_SUFFIX_REGEX, '').trim() || rawTitle;
+    const { html, title, content, blocks: contentBlocks, contentType, bytes, canonicalHref } = await readDocumentWithStrategy(response, url, strategy);
 
-    // Main content: try semantic/standard selectors (main, article, #content, #bodyContent, etc.); fall back to body if none match or text is empty
-    const mainContent = $(MAIN_CONTENT_SELECTOR).first();
-    const mainText = (mainContent.length > 0 ? mainContent.text() : $('body').text()).trim().substring(0, MAX_PAGE_CONTENT_LENGTH);
-    const content = mainText || $('body').text().trim().substring(0, MAX_PAGE_CONTENT_LENGTH);
+    // Redirects and rel=canonical can reveal that this URL is an alias of a page stored under another one.
+    const identity = resolvePageIdentity(url, response.url, canonicalHref);
+    let target = existing;
+    if (identity.url !== normalized) {
+      const stored = await findSourcePage(source.id, identity.url, existingInSource);
+      if (stored) {
+        if (existing && existing.id !== stored.id) await mergeDuplicatePage(existing.id, stored.id);
+        target = stored;
+      } else if (!existing && existingInConversation?.has(identity.url)) {
+        console.log('[crawl] [crawlPage] SKIP (alias of a page already in conversation)', { urlNorm: normalized.slice(-60), identity: identity.url.slice(-60) });
+        return { page: null, html, bytes, inserted: false, changed: false };
+      }
+    }
 
-    const urlObj = new URL(url);
+    const urlObj = new URL(identity.url);
     const path = urlObj.pathname + urlObj.search;
+    const hash = contentHash(content);
+    const validators = {
+      url: identity.url,
+      final_url: identity.finalUrl,
+      canonical_url: identity.canonicalUrl,
+      http_status: response.status,
+      etag: response.headers.get('etag'),
+      last_modified: response.headers.get('last-modified'),
+      content_type: contentType,
+    };
+
+    if (target) {
+      const changed = target.content_hash !== hash;
+      const { data: refreshed, error: refreshError } = await supabase
+        .from('pages')
+        .update({
+          title,
+          path,
+          status: 'indexed' as const,
+          error_message: null,
+          updated_at: new Date().toISOString(),
+          ...validators,
+          ...(changed
+            ? { content, content_blocks: contentBlocks.length > 0 ? contentBlocks : null, content_hash: hash }
+            : {}),
+        })
+        .eq('id', target.id)
+        .select()
+        .single();
+      if (refreshError || !refreshed) {
+        console.error('crawl: page refresh failed', url.slice(0, LOG_URL_MAX_LENGTH), refreshError?.message);
+        return null;
+      }
+      console.log('[crawl] [crawlPage] REFRESH existing page', { pageId: target.id.slice(0, 8), changed, urlNorm: normalized.slice(-60) });
+      return { page: refreshed as Page, html, bytes, inserted: false, changed };
+    }
 
     const insertData = {
       source_id: source.id,
-      url: url,
       title: title,
       path: path,
       content: content,
+      content_blocks: contentBlocks.length > 0 ? contentBlocks : null,
+      content_hash: hash,
+      ...validators,
       status: 'indexed' as const,
       owner_id: source.owner_id,
     };
@@ -88,25 +237,26 @@ export async function crawlPage(
         throw new Error(`Source ${source.id.slice(0, 8)} was deleted during crawl. Stopping.`);
       }
 
-      const { data: existing } = await supabase
+      const { data: conflicting } = await supabase
         .from('pages')
         .select('*')
         .eq('source_id', source.id)
-        .eq('url', url)
+        .eq('url', identity.url)
         .single();
 
-      if (existing) {
+      if (conflicting) {
         console.log('[crawl] [crawlPage] INSERT conflict (existing for this source)', { urlNorm: normalized.slice(-60) });
-        return { page: existing as Page, html, inserted: false };
+        return { page: conflicting as Page, html, bytes, inserted: false, changed: false };
       }
       console.error('crawl: page insert failed', url.slice(0, LOG_URL_MAX_LENGTH), error.message);
       return null;
     }
     console.log('[crawl] [crawlPage] INSERT new page', { pageId: (page as Page).id?.slice(0, 8), urlNorm: normalized.slice(-60) });
-    return { page: page as Page, html, inserted: true };
+    return { page: page as Page, html, bytes, inserted: true, changed: true };
   } catch (error) {
     const msg = error instanceof Error ? error.message : String(error);
     console.error('crawl: page fetch failed', url.slice(0, LOG_URL_MAX_LENGTH), msg);
+    if (!skip && !msg.includes('was deleted')) await recordPageError(url, source, existing, msg);
     return null;
   }
 }
\ No newline at end of file
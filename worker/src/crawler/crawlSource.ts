@@ -1,14 +1,30 @@
-import fetch from 'node-fetch';
 import RobotsParser from 'robots-parser';
 import { supabase } from '../db';
 import { indexSourceForRag } from '../indexer';
 import type { CrawlJob, Source } from '../types';
-import { MAX_LINKS_PER_PAGE_DYNAMIC, MAX_PAGES } from './constants';
-import { crawlPage } from './crawlPage';
+import { FRONTIER_SAVE_INTERVAL, MAX_LINKS_PER_PAGE_DYNAMIC } from './constants';
+import { budgetLimit, pathPrefix, resolveMaxPages } from './budget';
+import { staticFetcher } from './fetchStrategy';
+import { setHostCrawlDelay } from './hostScheduler';
+import { crawlPage, type ExistingSourcePage } from './crawlPage';
 import { extractLinks, extractLinksWithContext } from './links';
-import { updateJobStatus } from './job';
-import { normalizeUrlForCrawl } from './urlUtils';
+import { jobStopStatus, STOPPED_JOB_STATUSES, updateJobStatus } from './job';
+import { clearFrontier, loadFrontier, saveFrontier, type CrawlFrontier } from './frontier';
+import { normalizeUrl, pageUrlAliases } from './urlUtils';
 import { updateCrawlJob } from './job';
+import { createPathFilter } from './pathPatterns';
+import { collectSitemapUrls, sitemapCandidates } from './sitemap';
+import { recordIndexedPage, remainingPagesToday } from '../quotas';
+
+function sameSite(a: URL, b: URL): boolean {
+  return a.hostname.replace(/^www\./, '') === b.hostname.replace(/^www\./, '');
+}
+
+/** Links recorded for a page on an earlier crawl; used when the page answered 304 Not Modified. */
+async function storedOutgoingLinks(pageId: string): Promise<string[]> {
+  const { data } = await supabase.from('page_edges').select('to_url').eq('from_page_id', pageId);
+  return (data ?? []).map((e: { to_url: string | null }) => e.to_url).filter((u): u is string => !!u);
+}
 
 export async function crawlSource(job: CrawlJob, source: Source): Promise<void> {
   let conversationId = source.conversation_id;
@@ -42,16 +58,17 @@ async function crawlSourceWithConversationId(
   source: Source,
   conversationId: string
 ): Promise<void> {
-  const rawDepth = (source as { crawl_depth?: string }).crawl_depth;
-  let maxPages: number =
-    (rawDepth ? MAX_PAGES[rawDepth as Source['crawl_depth']] : undefined) ??
-    (rawDepth === 'dynamic' ? 1 : 15);
+  let maxPages = resolveMaxPages(source);
+  const maxLinkDepth = budgetLimit(source.crawl_budget, 'max_link_depth');
+  const maxPagesPerPrefix = budgetLimit(source.crawl_budget, 'max_pages_per_prefix');
+  const maxTotalBytes = budgetLimit(source.crawl_budget, 'max_total_bytes');
 
   const explicitKey = (job as { explicit_crawl_urls?: string[] | null }).explicit_crawl_urls;
+  const retryOnly = job.retry_failed === true;
   const seedUrls: string[] =
     explicitKey && explicitKey.length > 0
-      ? explicitKey.map((u) => normalizeUrlForCrawl(u))
-      : [normalizeUrlForCrawl(source.initial_url)];
+      ? explicitKey.map((u) => normalizeUrl(u))
+      : [normalizeUrl(source.initial_url)];
 
   if (seedUrls.length > maxPages) {
     maxPages = seedUrls.length;
@@ -61,24 +78,70 @@ async function crawlSourceWithConversationId(
   const discovered = new Set<string>();
   const queue: string[] = [...seedUrls];
   seedUrls.forEach((u) => discovered.add(u));
+  const linkDepth = new Map<string, number>(seedUrls.map((u) => [u, 0]));
+  const pagesPerPrefix = new Map<string, number>();
+  const seedSet = new Set(seedUrls);
+  let totalBytes = 0;
   
   let newPagesCount = 0;
+  let pagesChanged = 0;
+  let pagesUnchanged = 0;
+
+  const resumed = await loadFrontier(job.id);
+  if (resumed) {
+    queue.splice(0, queue.length, ...resumed.queue);
+    resumed.visited.forEach((u) => visited.add(u));
+    resumed.discovered.forEach((u) => discovered.add(u));
+    Object.entries(resumed.linkDepth).forEach(([u, d]) => linkDepth.set(u, d));
+    Object.entries(resumed.pagesPerPrefix).forEach(([p, n]) => pagesPerPrefix.set(p, n));
+    totalBytes = resumed.totalBytes;
+    newPagesCount = resumed.newPagesCount;
+    pagesChanged = resumed.pagesChanged;
+    pagesUnchanged = resumed.pagesUnchanged;
+    console.log('crawl: resuming from saved frontier', { source: source.id.slice(0, 8), visited: visited.size, queued: queue.length });
+  }
+  // The daily allowance already counts the pages this job crawled before it was paused.
+  const pagesLeftToday = await remainingPagesToday(job.owner_id);
+  if (pagesLeftToday != null && pagesChanged + pagesUnchanged + pagesLeftToday < maxPages) {
+    maxPages = pagesChanged + pagesUnchanged + pagesLeftToday;
+    console.log('crawl: page budget capped by daily quota', { source: source.id.slice(0, 8), maxPages });
+  }
+  const snapshotFrontier = (): CrawlFrontier => ({
+    queue: [...queue],
+    visited: [...visited],
+    discovered: [...discovered],
+    linkDepth: Object.fromEntries(queue.map((u) => [u, linkDepth.get(u) ?? 0])),
+    pagesPerPrefix: Object.fromEntries(pagesPerPrefix),
+    totalBytes,
+    newPagesCount,
+    pagesChanged,
+    pagesUnchanged,
+  });
+  let pagesSinceFrontierSave = 0;
 
   
   const existingInConversation = new Set<string>();
   
   const existingPageIdByUrl = new Map<string, string>();
+  // This source's own pages are re-fetched (recrawl) rather than skipped.
+  const existingInSource = new Map<string, ExistingSourcePage>();
   const { data: convSources } = await supabase.from('sources').select('id').eq('conversation_id', conversationId);
   const convSourceIds = (convSources ?? []).map((s: { id: string }) => s.id);
   if (convSourceIds.length > 0) {
-    const { data: existingPages } = await supabase.from('pages').select('id, url').in('source_id', convSourceIds);
-    (existingPages ?? []).forEach((p: { id: string; url: string }) => {
-      const norm = normalizeUrlForCrawl(p.url);
-      existingInConversation.add(norm);
+    const { data: existingPages } = await supabase
+      .from('pages')
+      .select('id, url, final_url, canonical_url, source_id, content_hash, etag, last_modified')
+      .in('source_id', convSourceIds);
+    (existingPages ?? []).forEach((p: ExistingSourcePage & { url: string; final_url: string | null; canonical_url: string | null; source_id: string }) => {
+      const norm = normalizeUrl(p.url);
+      pageUrlAliases(p).forEach((u) => existingInConversation.add(normalizeUrl(u)));
       existingPageIdByUrl.set(norm, p.id);
+      if (p.source_id === source.id) {
+        existingInSource.set(norm, { id: p.id, content_hash: p.content_hash, etag: p.etag, last_modified: p.last_modified });
+      }
     });
   }
-  const seedNorm = seedUrls[0] ? normalizeUrlForCrawl(seedUrls[0]) : '';
+  const seedNorm = seedUrls[0] ? normalizeUrl(seedUrls[0]) : '';
   const seedInSet = seedNorm && existingInConversation.has(seedNorm);
   const seedPageId = seedNorm ? existingPageIdByUrl.get(seedNorm) ?? null : null;
 
@@ -88,31 +151,64 @@ async function crawlSourceWithConversationId(
   let robotsParser: ReturnType<typeof RobotsParser> | null = null;
   try {
     const robotsUrl = new URL('/robots.txt', firstSeedUrl).toString();
-    const robotsResponse = await fetch(robotsUrl);
+    const robotsResponse = await staticFetcher.fetch(robotsUrl);
     if (robotsResponse.ok) {
       const robotsText = await robotsResponse.text();
       robotsParser = RobotsParser(robotsUrl, robotsText);
+      setHostCrawlDelay(firstSeedUrl, robotsParser.getCrawlDelay('ScholiaCrawler'));
     }
   } catch (err) {
     console.warn('crawl: robots.txt unavailable', firstSeedUrl.slice(0, 50), err instanceof Error
      ? err.message : err);
   }
 
-  if (queue.length === 0) {
+  if (queue.length === 0 && !resumed) {
     return;
   }
 
+  // Seeds are always crawled; the patterns only gate what gets queued after them.
+  const pathFilter = createPathFilter(source.include_patterns ?? [], source.exclude_patterns ?? []);
+
+  // Sitemap URLs count as one link from the seed, so a link depth of 0 leaves them out.
+  if (!resumed && source.use_sitemap && !(explicitKey && explicitKey.length > 0) && maxPages > 1 && maxLinkDepth !== 0) {
+    const seedHost = new URL(firstSeedUrl);
+    const sitemapUrls = await collectSitemapUrls(
+      sitemapCandidates(firstSeedUrl, robotsParser?.getSitemaps() ?? []),
+      (u) =>
+        !discovered.has(u) &&
+        sameSite(new URL(u), seedHost) &&
+        pathFilter(u) &&
+        (!robotsParser || robotsParser.isAllowed(u, 'ScholiaCrawler') !== false)
+    );
+    // Shallow paths first: section landing pages tend to be the most useful within a page budget.
+    sitemapUrls.sort((a, b) => new URL(a).pathname.split('/').length - new URL(b).pathname.split('/').length);
+    sitemapUrls.forEach((u) => {
+      discovered.add(u);
+      linkDepth.set(u, 1);
+      queue.push(u);
+    });
+    console.log('crawl: seeded from sitemap', { source: source.id.slice(0, 8), urls: sitemapUrls.length });
+  }
+
   const sourceShort = new URL(firstSeedUrl).pathname?.replace(/^\/wiki\//, '') || firstSeedUrl.slice(0, 40);
   const crawlDepth = (source as { crawl_depth?: string }).crawl_depth ?? 'shallow';
   const isDynamic = crawlDepth === 'dynamic';
 
-  while (queue.length > 0 && newPagesCount < maxPages) {
+  while (queue.length > 0 && pagesChanged + pagesUnchanged < maxPages && (maxTotalBytes == null || totalBytes < maxTotalBytes)) {
     const { data: sourceCheck } = await supabase.from('sources').select('id').eq('id', source.id).single();
     if (!sourceCheck) {
       throw new Error(`Source ${source.id.slice(0, 8)} was deleted during crawl; stopping.`);
     }
+    const stopStatus = await jobStopStatus(job.id);
+    if (stopStatus) {
+      if (stopStatus === 'paused') await saveFrontier(job.id, snapshotFrontier());
+      else await clearFrontier(job.id);
+      console.log(`crawl: ${stopStatus}`, { source: source.id.slice(0, 8), pages: pagesChanged + pagesUnchanged, queued: queue.length });
+      return;
+    }
 
     const url = queue.shift()!;
+    const depth = linkDepth.get(url) ?? 0;
 
     const urlObj = new URL(url);
     urlObj.hash = '';
@@ -123,27 +219,44 @@ async function crawlSourceWithConversationId(
       urlObj.pathname = urlObj.pathname.slice(0, -1);
     }
     const normalizedUrl = urlObj.toString();
-    const urlNormForLookup = normalizeUrlForCrawl(normalizedUrl);
+    const urlNormForLookup = normalizeUrl(normalizedUrl);
+    if (visited.has(normalizedUrl)) continue;
 
     if (robotsParser && !robotsParser.isAllowed(normalizedUrl, 'ScholiaCrawler')) {
       continue;
     }
 
+    const prefix = pathPrefix(normalizedUrl);
+    if (maxPagesPerPrefix != null && !seedSet.has(url) && (pagesPerPrefix.get(prefix) ?? 0) >= maxPagesPerPrefix) {
+      continue;
+    }
+
     try {
       if (!conversationId) throw new Error(`conversationId is null before calling crawlPage!`);
-      const result = await crawlPage(normalizedUrl, source, conversationId, existingInConversation);
+      const result = await crawlPage(normalizedUrl, source, conversationId, existingInConversation, existingInSource);
       if (!result) {
         visited.add(normalizedUrl);
         continue;
       }
 
-      const { page, html, inserted } = result;
+      const { page, html, bytes, inserted, changed, notModified } = result;
+      // The page may be stored under its redirect target or canonical URL rather than the one queued.
+      const pageUrl = page?.url ? normalizeUrl(page.url) : urlNormForLookup;
       visited.add(normalizedUrl);
+      visited.add(pageUrl);
+      totalBytes += bytes;
+      if (page) pagesPerPrefix.set(prefix, (pagesPerPrefix.get(prefix) ?? 0) + 1);
       if (inserted && page) {
         newPagesCount++;
-        const norm = normalizeUrlForCrawl(normalizedUrl);
-        existingInConversation.add(norm);
-        existingPageIdByUrl.set(norm, page.id);
+        existingInConversation.add(pageUrl);
+        existingPageIdByUrl.set(pageUrl, page.id);
+      }
+      if (page && (inserted || existingInSource.has(pageUrl) || existingInSource.has(urlNormForLookup))) {
+        if (changed) pagesChanged++;
+        else pagesUnchanged++;
+        await recordIndexedPage(job.owner_id);
+        existingInSource.delete(pageUrl);
+        existingInSource.delete(urlNormForLookup);
       }
 
       
@@ -165,15 +278,18 @@ async function crawlSourceWithConversationId(
 
       const isDynamic = source.crawl_depth === 'dynamic';
       const isSurface = (source as { suggestion_mode?: string }).suggestion_mode !== 'dive';
-      const links = extractLinks(html, normalizedUrl, source);
-      const linksWithContext = isDynamic && isSurface ? extractLinksWithContext(html, normalizedUrl, source) : [];
+      const linkBase = page?.final_url ?? normalizedUrl;
+      const links = (notModified && page ? await storedOutgoingLinks(page.id) : extractLinks(html, linkBase, source)).filter(pathFilter);
+      const linksWithContext = isDynamic && isSurface ? extractLinksWithContext(html, linkBase, source) : [];
 
       const edgesToInsert: Array<{ from_page_id: string; to_url: string; owner_id: string }> = [];
       const linksToProcess = isDynamic ? links.slice(0, MAX_LINKS_PER_PAGE_DYNAMIC) : links;
 
+      const canGoDeeper = !retryOnly && (maxLinkDepth == null || depth < maxLinkDepth);
       for (const link of linksToProcess) {
-        if (!discovered.has(link) && !visited.has(link)) {
+        if (canGoDeeper && !discovered.has(link) && !visited.has(link)) {
           discovered.add(link);
+          linkDepth.set(link, depth + 1);
           queue.push(link);
         }
         if (fromPageId) {
@@ -211,7 +327,7 @@ async function crawlSourceWithConversationId(
           const { data: updatedEdges, error: backfillErr } = await supabase
             .from('page_edges')
             .update({ to_page_id: page.id })
-            .eq('to_url', normalizedUrl)
+            .in('to_url', pageUrl === normalizedUrl ? [normalizedUrl] : [normalizedUrl, pageUrl])
             .in('from_page_id', fromPageIds)
             .is('to_page_id', null)
             .select('id');
@@ -264,14 +380,21 @@ async function crawlSourceWithConversationId(
       await supabase
         .from('crawl_jobs')
         .update({
+          // Estimate of pages this crawl will end up with: what is done plus what is queued, capped by the budget.
+          total_pages: Math.min(maxPages, pagesChanged + pagesUnchanged + queue.length),
           discovered_count: discovered.size,
-          indexed_count: newPagesCount,
+          indexed_count: pagesChanged + pagesUnchanged,
+          pages_changed: pagesChanged,
+          pages_unchanged: pagesUnchanged,
           last_activity_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         })
         .eq('id', job.id);
 
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+      if (++pagesSinceFrontierSave >= FRONTIER_SAVE_INTERVAL) {
+        await saveFrontier(job.id, snapshotFrontier());
+        pagesSinceFrontierSave = 0;
+      }
     } catch (error) {
       if (error instanceof Error && error.message.includes('was deleted')) throw error;
       console.error('crawl: error on page', url.slice(0, 50), error);
@@ -279,6 +402,13 @@ async function crawlSourceWithConversationId(
     }
   }
 
+  if (maxTotalBytes != null && totalBytes >= maxTotalBytes) {
+    console.log('crawl: byte budget reached', { source: source.id.slice(0, 8), totalBytes, queued: queue.length });
+  }
+
+  // Saved once the crawl loop is done, so a job paused during indexing resumes straight into indexing.
+  await saveFrontier(job.id, snapshotFrontier());
+
   const indexingUpdate: Record<string, unknown> = { status: 'indexing', updated_at: new Date().toISOString() };
   if (source.crawl_depth === 'dynamic') {
     const { data: pages } = await supabase.from('pages').select('id').eq('source_id', source.id);
@@ -306,6 +436,11 @@ async function crawlSourceWithConversationId(
   } catch (err) {
     console.warn('[crawl] RAG indexing failed', err);
   }
+  const stoppedWhileIndexing = await jobStopStatus(job.id);
+  if (stoppedWhileIndexing) {
+    if (stoppedWhileIndexing === 'cancelled') await clearFrontier(job.id);
+    return;
+  }
 
   const { data: sourcePagesAfter } = await supabase.from('pages').select('id').eq('source_id', source.id);
   const totalPagesForSource = sourcePagesAfter?.length ?? newPagesCount;
@@ -315,12 +450,25 @@ async function crawlSourceWithConversationId(
     .update({
       total_pages: totalPagesForSource,
       discovered_count: discovered.size,
-      indexed_count: newPagesCount,
+      indexed_count: pagesChanged + pagesUnchanged,
+      pages_changed: pagesChanged,
+      pages_unchanged: pagesUnchanged,
       status: 'completed',
       completed_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     })
-    .eq('id', job.id);
+    .eq('id', job.id)
+    .not('status', 'in', STOPPED_JOB_STATUSES);
+  await clearFrontier(job.id);
+
+  const finishedAt = new Date().toISOString();
+  await supabase
+    .from('sources')
+    .update({
+      last_refreshed_at: finishedAt,
+      ...(pagesChanged > 0 ? { last_content_changed_at: finishedAt } : {}),
+    })
+    .eq('id', source.id);
 
   const { data: insertedPages, error: verifyError } = await supabase
     .from('pages')
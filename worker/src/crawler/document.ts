@@ -0,0 +1,74 @@
+import * as cheerio from 'cheerio';
+import { DEFAULT_PAGE_TITLE, PDF_CONTENT_TYPE, RENDER_FALLBACK_MIN_CHARS } from './constants';
+import { cleanPageTitle } from './domainRules';
+import { extractPageContent, type ContentBlock } from './structure';
+import { extractPdfContent, isPdfResponse, readPdfBody } from './pdf';
+import { getBrowserFetcher, type FetchedResponse, type FetchStrategy } from './fetchStrategy';
+import { acquireHostSlot } from './hostScheduler';
+
+export type FetchedDocument = {
+  html: string;
+  title: string;
+  content: string;
+  blocks: ContentBlock[];
+  contentType: string | null;
+  /** Size of the response body, counted against a source's byte budget. */
+  bytes: number;
+  /** Raw `<link rel="canonical">` href, unresolved. */
+  canonicalHref: string | null;
+};
+
+/** HTML is parsed with cheerio; PDFs (by Content-Type) are text-extracted and have no `html` to follow links from. */
+export async function readDocument(response: FetchedResponse, url: string): Promise<FetchedDocument> {
+  const header = response.headers.get('content-type');
+  const contentType = header ? header.split(';')[0].trim().toLowerCase() : null;
+  if (isPdfResponse(header, url)) {
+    const data = await readPdfBody(response);
+    const bytes = data.byteLength;
+    const pdf = await extractPdfContent(data, url);
+    return { html: '', title: pdf.title, content: pdf.content, blocks: pdf.blocks, contentType: PDF_CONTENT_TYPE, bytes, canonicalHref: null };
+  }
+
+  const html = await response.text();
+  const $ = cheerio.load(html);
+  const rawTitle = $('title').first().text().trim() ||
+    $('h1').first().text().trim() ||
+    DEFAULT_PAGE_TITLE;
+  const title = cleanPageTitle(rawTitle, url);
+  const canonicalHref = $('link[rel="canonical"]').first().attr('href')?.trim() || null;
+
+  // Main content as structured blocks (headings, paragraphs, list items, tables); flat text is derived from them
+  const { content, blocks } = extractPageContent($, url);
+  return { html, title, content, blocks, contentType, bytes: Buffer.byteLength(html), canonicalHref };
+}
+
+function shouldRender(strategy: FetchStrategy, doc: FetchedDocument): boolean {
+  if (strategy === 'static' || doc.contentType === PDF_CONTENT_TYPE) return false;
+  return strategy === 'browser' || doc.content.trim().length < RENDER_FALLBACK_MIN_CHARS;
+}
+
+/**
+ * Reads the static response, then re-renders the page in the headless browser when the strategy
+ * asks for it (`browser`) or the static HTML is a near-empty client-rendered shell (`auto`). The
+ * static result is kept when no browser is configured, rendering fails, or it yields less text.
+ */
+export async function readDocumentWithStrategy(
+  response: FetchedResponse,
+  url: string,
+  strategy: FetchStrategy = 'auto'
+): Promise<FetchedDocument & { rendered: boolean }> {
+  const doc = await readDocument(response, url);
+  if (!shouldRender(strategy, doc)) return { ...doc, rendered: false };
+  const browser = getBrowserFetcher();
+  if (!browser) return { ...doc, rendered: false };
+  try {
+    await acquireHostSlot(url);
+    const rendered = await readDocument(await browser.fetch(url), url);
+    if (rendered.content.length < doc.content.length) return { ...doc, rendered: false };
+    console.log('[crawl] rendered in browser', { url: url.slice(-60), staticChars: doc.content.length, renderedChars: rendered.content.length });
+    return { ...rendered, contentType: doc.contentType, bytes: doc.bytes, rendered: true };
+  } catch (err) {
+    console.warn('[crawl] browser render failed, keeping static HTML', url.slice(-60), err instanceof Error ? err.message : err);
+    return { ...doc, rendered: false };
+  }
+}
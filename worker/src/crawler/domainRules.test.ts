@@ -0,0 +1,63 @@
+import { readFileSync } from 'fs';
+import * as cheerio from 'cheerio';
+import { describe, expect, it } from 'vitest';
+import { cleanPageTitle, getDomainRule, getDomainRuleForUrl } from './domainRules';
+import { extractPageContent } from './structure';
+
+function loadFixture(name: string) {
+  return cheerio.load(readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf8'));
+}
+
+describe('getDomainRule', () => {
+  it('matches the domain and its subdomains only', () => {
+    expect(getDomainRule('en.wikipedia.org')?.contentSelector).toBe('.mw-parser-output');
+    expect(getDomainRule('GitHub.com')?.contentSelector).toBe('.markdown-body');
+    expect(getDomainRule('notgithub.com')).toBeNull();
+  });
+
+  it('returns null for missing or unparseable URLs', () => {
+    expect(getDomainRuleForUrl(undefined)).toBeNull();
+    expect(getDomainRuleForUrl('not a url')).toBeNull();
+  });
+});
+
+describe('cleanPageTitle', () => {
+  it('strips site suffixes and domain-specific decoration', () => {
+    expect(cleanPageTitle('Bloom filter - Wikipedia', 'https://en.wikipedia.org/wiki/Bloom_filter')).toBe('Bloom filter');
+    expect(cleanPageTitle('Array.prototype.map() - JavaScript | MDN', 'https://developer.mozilla.org/en-US/docs/Web/JavaScript')).toBe(
+      'Array.prototype.map()'
+    );
+    expect(cleanPageTitle('GitHub - acme/tiny-queue: A durable job queue on top of Postgres', 'https://github.com/acme/tiny-queue')).toBe(
+      'acme/tiny-queue: A durable job queue on top of Postgres'
+    );
+  });
+
+  it('never returns an empty title', () => {
+    expect(cleanPageTitle('| MDN', 'https://developer.mozilla.org/')).toBe('| MDN');
+  });
+});
+
+describe('domain rules in extraction', () => {
+  it('uses the Wikipedia content selector and strips edit links, contents, navboxes and references', () => {
+    const { content, blocks } = extractPageContent(loadFixture('wikipedia-article.html'), 'https://en.wikipedia.org/wiki/Bloom_filter');
+    expect(blocks[0]).toEqual({
+      type: 'paragraph',
+      text: expect.stringMatching(/^A Bloom filter is a space-efficient probabilistic data structure/),
+    });
+    expect(blocks.filter((b) => b.type === 'heading')).toEqual([
+      { type: 'heading', level: 2, text: 'Algorithm description' },
+      { type: 'heading', level: 2, text: 'Examples' },
+    ]);
+    for (const chrome of ['[edit]', 'Contents', 'HyperLogLog', 'Space/Time', 'additional citations', 'Jump to content', 'last edited']) {
+      expect(content).not.toContain(chrome);
+    }
+  });
+
+  it('reads only the README on GitHub repository pages', () => {
+    const { content, blocks } = extractPageContent(loadFixture('github-readme.html'), 'https://github.com/acme/tiny-queue');
+    expect(blocks[0]).toEqual({ type: 'heading', level: 1, text: 'tiny-queue' });
+    expect(content).toContain('FOR UPDATE SKIP LOCKED');
+    expect(content).not.toContain('482 commits');
+    expect(content).not.toContain('Handle lease expiry');
+  });
+});
@@ -0,0 +1,68 @@
+import { PAGE_TITLE_SUFFIX_REGEX, WIKI_STYLE_DOMAINS } from './constants';
+
+/** Site-specific extraction hints; anything a rule leaves out falls back to the generic extractor. */
+export type DomainRule = {
+  /** Matched against the hostname and its parent domains (`en.wikipedia.org` matches `wikipedia.org`). */
+  domains: readonly string[];
+  contentSelector?: string;
+  stripSelectors?: string[];
+  /** Applied after PAGE_TITLE_SUFFIX_REGEX. */
+  titleCleanup?: RegExp;
+};
+
+export const DOMAIN_RULES: DomainRule[] = [
+  {
+    domains: WIKI_STYLE_DOMAINS,
+    contentSelector: '.mw-parser-output',
+    stripSelectors: ['.mw-editsection', '.navbox', '.reflist', '.mw-jump-link', '.noprint', '#toc', '.metadata'],
+  },
+  {
+    domains: ['developer.mozilla.org'],
+    contentSelector: '.main-page-content',
+    stripSelectors: ['.bc-data', '.prev-next', '.metadata'],
+    titleCleanup: /\s+-\s+(JavaScript|CSS|HTML|HTTP|Web APIs|WebAssembly|SVG|MathML)$/i,
+  },
+  {
+    domains: ['github.com'],
+    contentSelector: '.markdown-body',
+    titleCleanup: /^GitHub\s+-\s+/i,
+  },
+  {
+    domains: ['stackoverflow.com', 'stackexchange.com', 'superuser.com', 'serverfault.com'],
+    contentSelector: '#mainbar',
+    stripSelectors: ['.js-post-menu', '.comments', '.post-signature', '.js-vote-count', '.bottom-notice'],
+    titleCleanup: /\s+-\s+(Stack Overflow|Super User|Server Fault|[\w ]+ Stack Exchange)$/i,
+  },
+  {
+    domains: ['substack.com'],
+    contentSelector: '.available-content',
+    stripSelectors: ['.subscription-widget-wrap', '.button-wrapper', '.post-ufi'],
+  },
+  {
+    domains: ['medium.com'],
+    contentSelector: 'article',
+    stripSelectors: ['.speechify-ignore'],
+  },
+];
+
+export function getDomainRule(hostname: string): DomainRule | null {
+  const host = hostname.toLowerCase();
+  return DOMAIN_RULES.find((rule) => rule.domains.some((d) => host === d || host.endsWith(`.${d}`))) ?? null;
+}
+
+export function getDomainRuleForUrl(url: string | undefined): DomainRule | null {
+  if (!url) return null;
+  try {
+    return getDomainRule(new URL(url).hostname);
+  } catch {
+    return null;
+  }
+}
+
+/** Strips the site-name suffix and any domain-specific decoration; never returns an empty title. */
+export function cleanPageTitle(rawTitle: string, url?: string): string {
+  const rule = getDomainRuleForUrl(url);
+  let title = rawTitle.replace(PAGE_TITLE_SUFFIX_REGEX, '').trim();
+  if (rule?.titleCleanup) title = title.replace(rule.titleCleanup, '').trim();
+  return title || rawTitle;
+}
@@ -0,0 +1,104 @@
+import fetch from 'node-fetch';
+import type { Browser } from 'puppeteer-core';
+import { CRAWLER_USER_AGENT, FETCH_TIMEOUT_MS, RENDER_TIMEOUT_MS } from './constants';
+
+/**
+ * Per-source choice stored in sources.fetch_strategy. `auto` fetches statically and re-renders in
+ * the browser only when the static HTML yields too little main text.
+ */
+export type FetchStrategy = 'auto' | 'static' | 'browser';
+
+/** The part of a fetch Response the crawler reads; node-fetch responses satisfy it as-is. */
+export interface FetchedResponse {
+  readonly status: number;
+  /** After redirects. */
+  readonly url: string;
+  readonly ok: boolean;
+  readonly headers: { get(name: string): string | null };
+  /** Streamed body, read incrementally where a size cap applies; absent for rendered pages. */
+  readonly body?: AsyncIterable<Uint8Array | string> | null;
+  text(): Promise<string>;
+  arrayBuffer(): Promise<ArrayBuffer>;
+}
+
+export interface PageFetcher {
+  readonly kind: Exclude<FetchStrategy, 'auto'>;
+  fetch(url: string, headers?: Record<string, string>): Promise<FetchedResponse>;
+}
+
+export const staticFetcher: PageFetcher = {
+  kind: 'static',
+  fetch: (url, headers = {}) =>
+    fetch(url, { headers: { 'User-Agent': CRAWLER_USER_AGENT, ...headers }, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) }).catch((err) => {
+      if (err instanceof Error && (err.name === 'AbortError' || err.name === 'TimeoutError')) {
+        throw new Error(`Timed out after ${FETCH_TIMEOUT_MS / 1000}s`);
+      }
+      throw err;
+    }),
+};
+
+let browserPromise: Promise<Browser> | null = null;
+
+async function getBrowser(endpoint: string | undefined, executablePath: string | undefined): Promise<Browser> {
+  if (!browserPromise) {
+    browserPromise = import('puppeteer-core').then(({ default: puppeteer }) =>
+      endpoint
+        ? puppeteer.connect({ browserWSEndpoint: endpoint })
+        : puppeteer.launch({ executablePath, headless: true, args: ['--no-sandbox', '--disable-dev-shm-usage'] })
+    );
+    browserPromise.catch(() => {
+      browserPromise = null;
+    });
+  }
+  return browserPromise;
+}
+
+/** Renders the page in headless Chrome and returns the DOM after network activity settles. */
+function createBrowserFetcher(endpoint: string | undefined, executablePath: string | undefined): PageFetcher {
+  return {
+    kind: 'browser',
+    async fetch(url, headers = {}) {
+      const browser = await getBrowser(endpoint, executablePath);
+      const page = await browser.newPage();
+      try {
+        await page.setUserAgent(CRAWLER_USER_AGENT);
+        if (Object.keys(headers).length > 0) await page.setExtraHTTPHeaders(headers);
+        const response = await page.goto(url, { waitUntil: 'networkidle2', timeout: RENDER_TIMEOUT_MS });
+        const status = response?.status() ?? 0;
+        const responseHeaders = response?.headers() ?? {};
+        const html = await page.content();
+        return {
+          status,
+          url: page.url(),
+          ok: status >= 200 && status < 300,
+          headers: { get: (name: string) => responseHeaders[name.toLowerCase()] ?? null },
+          text: async () => html,
+          arrayBuffer: async () => new TextEncoder().encode(html).buffer as ArrayBuffer,
+        };
+      } finally {
+        await page.close().catch(() => undefined);
+      }
+    },
+  };
+}
+
+/**
+ * BROWSER_WS_ENDPOINT connects to a running Chrome (e.g. browserless); CHROME_EXECUTABLE_PATH
+ * launches a local one. Null when neither is set, in which case every fetch stays static.
+ */
+export function getBrowserFetcher(env: NodeJS.ProcessEnv = process.env): PageFetcher | null {
+  const endpoint = env.BROWSER_WS_ENDPOINT;
+  const executablePath = env.CHROME_EXECUTABLE_PATH;
+  if (!endpoint && !executablePath) return null;
+  return createBrowserFetcher(endpoint, executablePath);
+}
+
+export async function closeBrowserFetcher(): Promise<void> {
+  if (!browserPromise) return;
+  const pending = browserPromise;
+  browserPromise = null;
+  const browser = await pending.catch(() => null);
+  if (!browser) return;
+  if (process.env.BROWSER_WS_ENDPOINT) await browser.disconnect();
+  else await browser.close();
+}
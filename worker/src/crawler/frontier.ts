@@ -0,0 +1,35 @@
+import { supabase } from '../db';
+
+/** A crawl's BFS state, saved per job so a paused, requeued or crashed crawl continues instead of restarting from the seed. */
+export type CrawlFrontier = {
+  queue: string[];
+  visited: string[];
+  discovered: string[];
+  /** Link depth of each queued URL. */
+  linkDepth: Record<string, number>;
+  pagesPerPrefix: Record<string, number>;
+  totalBytes: number;
+  newPagesCount: number;
+  pagesChanged: number;
+  pagesUnchanged: number;
+};
+
+export async function loadFrontier(jobId: string): Promise<CrawlFrontier | null> {
+  const { data, error } = await supabase.from('crawl_frontiers').select('frontier').eq('job_id', jobId).maybeSingle();
+  if (error) {
+    console.warn('crawl: frontier load failed', jobId.slice(0, 8), error.message);
+    return null;
+  }
+  return ((data as { frontier?: CrawlFrontier } | null)?.frontier) ?? null;
+}
+
+export async function saveFrontier(jobId: string, frontier: CrawlFrontier): Promise<void> {
+  const { error } = await supabase
+    .from('crawl_frontiers')
+    .upsert({ job_id: jobId, frontier, updated_at: new Date().toISOString() }, { onConflict: 'job_id' });
+  if (error) console.warn('crawl: frontier save failed', jobId.slice(0, 8), error.message);
+}
+
+export async function clearFrontier(jobId: string): Promise<void> {
+  await supabase.from('crawl_frontiers').delete().eq('job_id', jobId);
+}
@@ -0,0 +1,132 @@
+import { staticFetcher, type FetchedResponse, type PageFetcher } from './fetchStrategy';
+import {
+  HOST_BURST,
+  HOST_REQUESTS_PER_SECOND,
+  MAX_CRAWL_DELAY_SECONDS,
+  MAX_FETCH_ATTEMPTS,
+  MAX_RETRY_DELAY_MS,
+  RETRY_BASE_DELAY_MS,
+} from './constants';
+
+/**
+ * Per-host token bucket shared by every job in this worker process, so concurrent jobs on the same
+ * site share one request budget. `minIntervalMs` comes from robots.txt Crawl-delay and
+ * `pausedUntil` from 429/503 Retry-After.
+ */
+type HostState = {
+  tokens: number;
+  refilledAt: number;
+  lastRequestAt: number;
+  minIntervalMs: number;
+  pausedUntil: number;
+  turn: Promise<void>;
+};
+
+const hosts = new Map<string, HostState>();
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return url;
+  }
+}
+
+function stateFor(url: string): HostState {
+  const host = hostOf(url);
+  let state = hosts.get(host);
+  if (!state) {
+    state = { tokens: HOST_BURST, refilledAt: Date.now(), lastRequestAt: 0, minIntervalMs: 0, pausedUntil: 0, turn: Promise.resolve() };
+    hosts.set(host, state);
+  }
+  return state;
+}
+
+async function takeToken(state: HostState): Promise<void> {
+  for (;;) {
+    const now = Date.now();
+    state.tokens = Math.min(HOST_BURST, state.tokens + ((now - state.refilledAt) / 1000) * HOST_REQUESTS_PER_SECOND);
+    state.refilledAt = now;
+    const wait = Math.max(
+      state.pausedUntil - now,
+      state.lastRequestAt + state.minIntervalMs - now,
+      state.tokens >= 1 ? 0 : ((1 - state.tokens) / HOST_REQUESTS_PER_SECOND) * 1000
+    );
+    if (wait <= 0) {
+      state.tokens -= 1;
+      state.lastRequestAt = now;
+      return;
+    }
+    await sleep(wait);
+  }
+}
+
+/** Resolves when the host may be sent another request; callers for one host are served in order. */
+export function acquireHostSlot(url: string): Promise<void> {
+  const state = stateFor(url);
+  const slot = state.turn.then(() => takeToken(state));
+  state.turn = slot.catch(() => undefined);
+  return slot;
+}
+
+/** Applies a robots.txt Crawl-delay (seconds, capped) as the minimum gap between requests to the host. */
+export function setHostCrawlDelay(url: string, seconds: number | undefined): void {
+  if (!seconds || !(seconds > 0)) return;
+  const state = stateFor(url);
+  state.minIntervalMs = Math.max(state.minIntervalMs, Math.min(seconds, MAX_CRAWL_DELAY_SECONDS) * 1000);
+}
+
+function pauseHost(url: string, ms: number): void {
+  const state = stateFor(url);
+  state.pausedUntil = Math.max(state.pausedUntil, Date.now() + ms);
+}
+
+/** Retry-After as delta-seconds or an HTTP date; null when absent or unparseable. */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+  const at = Date.parse(trimmed);
+  return Number.isNaN(at) ? null : Math.max(0, at - now);
+}
+
+function backoffDelay(attempt: number): number {
+  const exponential = RETRY_BASE_DELAY_MS * 2 ** attempt;
+  return Math.min(MAX_RETRY_DELAY_MS, exponential / 2 + Math.random() * (exponential / 2));
+}
+
+/**
+ * Fetches through the host's rate limit. Network errors, timeouts and 408/429/5xx responses are
+ * retried with exponential backoff (Retry-After wins when the server sends one, and pauses the
+ * whole host); the last response is returned as-is so callers still see the final status.
+ */
+export async function politeFetch(
+  url: string,
+  headers: Record<string, string> = {},
+  fetcher: PageFetcher = staticFetcher
+): Promise<FetchedResponse> {
+  let lastError: unknown = null;
+  for (let attempt = 0; attempt < MAX_FETCH_ATTEMPTS; attempt++) {
+    await acquireHostSlot(url);
+    try {
+      const response = await fetcher.fetch(url, headers);
+      if (!RETRYABLE_STATUSES.has(response.status) || attempt === MAX_FETCH_ATTEMPTS - 1) return response;
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      const delay = Math.min(MAX_RETRY_DELAY_MS, retryAfter ?? backoffDelay(attempt));
+      if (response.status === 429 || response.status === 503) pauseHost(url, delay);
+      console.warn('crawl: retrying', { url: url.slice(-60), status: response.status, attempt: attempt + 1, delayMs: Math.round(delay) });
+      await sleep(delay);
+    } catch (err) {
+      lastError = err;
+      if (attempt === MAX_FETCH_ATTEMPTS - 1) break;
+      const delay = backoffDelay(attempt);
+      console.warn('crawl: retrying', { url: url.slice(-60), error: err instanceof Error ? err.message : String(err), attempt: attempt + 1 });
+      await sleep(delay);
+    }
+  }
+  throw lastError instanceof Error ? lastError : new Error(String(lastError));
+}
@@ -1,6 +1,7 @@
 import { supabase } from '../db';
 import type { CrawlJob, Source } from '../types';
 import { crawlSource } from './crawlSource';
+import { ingestFileSource } from '../fileSource';
 import { updateJobStatus } from './job';
 
 export { claimJob } from './job';
@@ -39,7 +40,11 @@ export async function processCrawlJob(jobId: string): Promise<void> {
       await updateJobStatus(jobId, 'running', null, new Date().toISOString());
     }
 
-    await crawlSource(job as CrawlJob, source as Source);
+    if ((source as Source).kind === 'file') {
+      await ingestFileSource(job as CrawlJob, source as Source);
+    } else {
+      await crawlSource(job as CrawlJob, source as Source);
+    }
 
     await updateJobStatus(jobId, 'completed', null, null, new Date().toISOString());
   } catch (error) {
@@ -1,8 +1,13 @@
 import { supabase } from '../db';
 import type { CrawlJob } from '../types';
+import { crawlQuotaExceeded } from '../quotas';
+import { quotaExceededMessage } from '../../../supabase/functions/_shared/quotas';
 
 let _noQueuedLogCounter = 0;
 
+/** PostgREST list for `.not('status', 'in', …)` guards on job status writes. */
+export const STOPPED_JOB_STATUSES = '(cancelled,paused)';
+
 export async function updateJobStatus(
   jobId: string,
   status: CrawlJob['status'],
@@ -29,7 +34,8 @@ export async function updateJobStatus(
   await supabase
     .from('crawl_jobs')
     .update(updates)
-    .eq('id', jobId);
+    .eq('id', jobId)
+    .not('status', 'in', STOPPED_JOB_STATUSES);
 }
 
 
@@ -40,10 +46,26 @@ export async function updateCrawlJob(
   await supabase
     .from('crawl_jobs')
     .update({ ...updates, updated_at: new Date().toISOString() })
-    .eq('id', jobId);
+    .eq('id', jobId)
+    .not('status', 'in', STOPPED_JOB_STATUSES);
+}
+
+/**
+ * 'cancelled' or 'paused' once the app has stopped the job, else null. Long-running steps poll this
+ * between pages and batches and stop; the status updates above never overwrite either.
+ */
+export async function jobStopStatus(jobId: string): Promise<'cancelled' | 'paused' | null> {
+  const { data } = await supabase.from('crawl_jobs').select('status').eq('id', jobId).maybeSingle();
+  const status = (data as { status?: string } | null)?.status;
+  return status === 'cancelled' || status === 'paused' ? status : null;
 }
 
+export async function isJobStopped(jobId: string): Promise<boolean> {
+  return (await jobStopStatus(jobId)) !== null;
+}
 
+
+/** Claims the oldest queued job. Jobs whose owner is over a crawl quota are failed and skipped. */
 export async function claimJob(): Promise<CrawlJob | null> {
   const staleThreshold = new Date(Date.now() - 5 * 60 * 1000).toISOString();
   const { data: stuckJobs } = await supabase
@@ -95,5 +117,12 @@ export async function claimJob(): Promise<CrawlJob | null> {
     return null;
   }
 
+  const quota = await crawlQuotaExceeded((updated as CrawlJob).owner_id);
+  if (quota) {
+    console.log('crawl: quota exceeded', job.id.slice(0, 8), { kind: quota.kind, limit: quota.limit, used: quota.used });
+    await updateJobStatus(job.id, 'failed', quotaExceededMessage(quota), null, new Date().toISOString());
+    return claimJob();
+  }
+
   return updated as CrawlJob;
 }
\ No newline at end of file
@@ -10,27 +10,11 @@ import {
   MEDIAWIKI_NS_PREFIXES,
 } from './constants';
 import type { Source } from '../types';
-
-function normalizeCurrentUrl(pageUrl: string): string {
-  const u = new URL(pageUrl);
-  u.hash = '';
-  u.search = '';
-  if (u.pathname === '/' || u.pathname === '') u.pathname = '/';
-  else if (u.pathname.endsWith('/')) u.pathname = u.pathname.slice(0, -1);
-  return u.toString();
-}
+import { normalizeUrl, resolveUrl } from './urlUtils';
 
 function normalizeLinkUrl(href: string, baseUrl: string): { url: URL; normalized: string } | null {
-  try {
-    const u = new URL(href, baseUrl);
-    u.hash = '';
-    u.search = '';
-    if (u.pathname === '/' || u.pathname === '') u.pathname = '/';
-    else if (u.pathname.endsWith('/')) u.pathname = u.pathname.slice(0, -1);
-    return { url: u, normalized: u.toString() };
-  } catch {
-    return null;
-  }
+  const normalized = resolveUrl(href, baseUrl);
+  return normalized ? { url: new URL(normalized), normalized } : null;
 }
 
 function shouldSkipLinkUrl(linkUrl: URL, normalizedCurrentUrl: string, source: Source): boolean {
@@ -58,7 +42,6 @@ function shouldSkipLinkUrl(linkUrl: URL, normalizedCurrentUrl: string, source: S
       baseDomain.endsWith('.' + linkDomain);
     if (!isSameDomain) return true;
   }
-  if (linkUrl.pathname.endsWith('.pdf')) return true;
   if (linkUrl.protocol !== 'http:' && linkUrl.protocol !== 'https:') return true;
   return false;
 }
@@ -93,7 +76,7 @@ export function extractLinksWithContext(
   try {
     const $ = cheerio.load(html);
     const seen = new Set<string>();
-    const normalizedCurrentUrl = normalizeCurrentUrl(pageUrl);
+    const normalizedCurrentUrl = normalizeUrl(pageUrl);
     const contentSelector = getContentSelector($);
     const linkElements = markSkipSectionsAndGetLinkElements($, contentSelector);
     const result: Array<{ url: string; snippet: string; anchorText: string }> = [];
@@ -150,7 +133,7 @@ export function extractLinks(html: string, pageUrl: string, source: Source): str
   try {
     const $ = cheerio.load(html);
     const seen = new Set<string>();
-    const normalizedCurrentUrl = normalizeCurrentUrl(pageUrl);
+    const normalizedCurrentUrl = normalizeUrl(pageUrl);
     const contentSelector = getContentSelector($);
     let linkElements = markSkipSectionsAndGetLinkElements($, contentSelector);
     if (linkElements.length === 0) {
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { createPathFilter } from './pathPatterns';
+import { compilePathPattern, splitPathPatterns } from '../../../supabase/functions/_shared/pathRegex';
+
+const url = (path: string) => `https://example.com${path}`;
+
+describe('compilePathPattern', () => {
+  it('compiles globs: * stays in one segment, ** spans segments and matches the directory itself', () => {
+    const single = compilePathPattern('/docs/*')!;
+    expect(single.test('/docs/intro')).toBe(true);
+    expect(single.test('/docs/guides/setup')).toBe(false);
+
+    const deep = compilePathPattern('docs/**')!;
+    expect(deep.test('/docs')).toBe(true);
+    expect(deep.test('/docs/guides/setup')).toBe(true);
+    expect(deep.test('/docsearch')).toBe(false);
+
+    expect(compilePathPattern('/v?/api')!.test('/v2/api')).toBe(true);
+    expect(compilePathPattern('/file.md')!.test('/fileXmd')).toBe(false);
+  });
+
+  it('compiles re: patterns as regexes, even when they contain * or commas', () => {
+    const api = compilePathPattern('re:^/api/.*')!;
+    expect(api.test('/api/users')).toBe(true);
+    expect(api.test('/docs/api')).toBe(false);
+
+    const versioned = compilePathPattern('re:^/v\\d{1,3}/')!;
+    expect(versioned.test('/v12/guide')).toBe(true);
+    expect(versioned.test('/v1234/guide')).toBe(false);
+  });
+
+  it('sets only the i flag, so matching is stateless', () => {
+    const sensitive = compilePathPattern('re:^/Docs')!;
+    expect(sensitive.flags).toBe('');
+    expect(sensitive.test('/docs')).toBe(false);
+
+    const insensitive = compilePathPattern('rei:^/Docs')!;
+    expect(insensitive.flags).toBe('i');
+    expect([1, 2, 3].map(() => insensitive.test('/docs'))).toEqual([true, true, true]);
+  });
+
+  it('rejects empty, invalid and unsafe regexes', () => {
+    expect(compilePathPattern('  ')).toBeNull();
+    expect(compilePathPattern('re:')).toBeNull();
+    expect(compilePathPattern('re:^/api/(')).toBeNull();
+    expect(compilePathPattern('re:^/(a+)+$')).toBeNull();
+    expect(compilePathPattern('re:^/(a|ab)*$')).toBeNull();
+    expect(compilePathPattern('re:^/(\\w+)/\\1$')).toBeNull();
+    expect(compilePathPattern(`re:${'a'.repeat(201)}`)).toBeNull();
+  });
+});
+
+describe('splitPathPatterns', () => {
+  it('splits on newlines only and drops blanks and repeats', () => {
+    expect(splitPathPatterns('/docs/**\n\n re:^/v\\d{1,3}/ \n/docs/**')).toEqual(['/docs/**', 're:^/v\\d{1,3}/']);
+  });
+});
+
+describe('createPathFilter', () => {
+  it('accepts everything without patterns', () => {
+    expect(createPathFilter()(url('/anything'))).toBe(true);
+  });
+
+  it('keeps URLs matching an include and no exclude', () => {
+    const filter = createPathFilter(['/docs/**', 're:^/api/'], ['/docs/legacy/**']);
+    expect(filter(url('/docs/intro'))).toBe(true);
+    expect(filter(url('/api/users'))).toBe(true);
+    expect(filter(url('/docs/legacy/v1'))).toBe(false);
+    expect(filter(url('/blog/post'))).toBe(false);
+    expect(filter('not a url')).toBe(false);
+  });
+
+  it('matches the decoded pathname', () => {
+    expect(createPathFilter(['/docs/getting started'])(url('/docs/getting%20started'))).toBe(true);
+  });
+
+  it('drops every URL when no include pattern compiled', () => {
+    const filter = createPathFilter(['re:^/(a+)+$', 're:^/docs/(']);
+    expect(filter(url('/docs/intro'))).toBe(false);
+    expect(filter(url('/aaa'))).toBe(false);
+  });
+
+  it('ignores unsafe exclude patterns but keeps the valid ones', () => {
+    const filter = createPathFilter([], ['re:^/(a+)+$', '/private/**']);
+    expect(filter(url('/aaa'))).toBe(true);
+    expect(filter(url('/private/key'))).toBe(false);
+  });
+});
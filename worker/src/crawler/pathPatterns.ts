@@ -0,0 +1,24 @@
+import { compilePathPattern } from '../../../supabase/functions/_shared/pathRegex';
+
+/**
+ * True when the URL's path matches at least one include pattern (or there are none) and no exclude
+ * pattern. Patterns that do not compile (see compilePathPattern) are ignored, except that a source
+ * given include patterns never falls back to crawling everything: if none of them compiled, no URL
+ * passes.
+ */
+export function createPathFilter(include: string[] = [], exclude: string[] = []): (url: string) => boolean {
+  const includes = include.map(compilePathPattern).filter((r): r is RegExp => r !== null);
+  const excludes = exclude.map(compilePathPattern).filter((r): r is RegExp => r !== null);
+  const hasIncludes = include.some((p) => p.trim().length > 0);
+  if (!hasIncludes && excludes.length === 0) return () => true;
+  return (url: string) => {
+    let path: string;
+    try {
+      path = decodeURIComponent(new URL(url).pathname);
+    } catch {
+      return false;
+    }
+    if (hasIncludes && !includes.some((r) => r.test(path))) return false;
+    return !excludes.some((r) => r.test(path));
+  };
+}
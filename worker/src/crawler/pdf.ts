@@ -0,0 +1,86 @@
+import { extractText, getDocumentProxy, getMeta } from 'unpdf';
+import { DEFAULT_PAGE_TITLE, MAX_PDF_BYTES, PDF_CONTENT_TYPE } from './constants';
+import { blocksToText, capBlocks, type ContentBlock } from './structure';
+import type { FetchedResponse } from './fetchStrategy';
+
+/** By Content-Type; the .pdf extension only counts when the server sends no useful type. */
+export function isPdfResponse(contentType: string | null, url: string): boolean {
+  const type = (contentType ?? '').split(';')[0].trim().toLowerCase();
+  if (type === PDF_CONTENT_TYPE) return true;
+  if (type && type !== 'application/octet-stream' && type !== 'binary/octet-stream') return false;
+  try {
+    return new URL(url).pathname.toLowerCase().endsWith('.pdf');
+  } catch {
+    return false;
+  }
+}
+
+function pdfTooLarge(bytes: number): Error {
+  return new Error(`PDF too large (${bytes} bytes)`);
+}
+
+/**
+ * Reads a PDF response body, refusing it up front when Content-Length is over MAX_PDF_BYTES and
+ * otherwise stopping the download as soon as the streamed bytes pass the cap.
+ */
+export async function readPdfBody(response: FetchedResponse): Promise<ArrayBuffer> {
+  const declared = Number(response.headers.get('content-length'));
+  if (Number.isFinite(declared) && declared > MAX_PDF_BYTES) throw pdfTooLarge(declared);
+  if (!response.body) {
+    const data = await response.arrayBuffer();
+    if (data.byteLength > MAX_PDF_BYTES) throw pdfTooLarge(data.byteLength);
+    return data;
+  }
+  const parts: Buffer[] = [];
+  let total = 0;
+  for await (const part of response.body) {
+    const buf = typeof part === 'string' ? Buffer.from(part) : Buffer.from(part.buffer, part.byteOffset, part.byteLength);
+    total += buf.byteLength;
+    // Leaving the loop destroys the stream, which aborts the download.
+    if (total > MAX_PDF_BYTES) throw pdfTooLarge(total);
+    parts.push(buf);
+  }
+  const data = Buffer.concat(parts, total);
+  return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+}
+
+function titleFromUrl(url: string): string {
+  try {
+    const name = decodeURIComponent(new URL(url).pathname.split('/').pop() ?? '');
+    return name.replace(/\.pdf$/i, '').replace(/[-_]+/g, ' ').trim();
+  } catch {
+    return '';
+  }
+}
+
+function pageParagraphs(text: string): string[] {
+  return text
+    .replace(/(\w)-\n(\w)/g, '$1$2')
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/\s+/g, ' ').trim())
+    .filter((p) => p.length > 0);
+}
+
+/**
+ * Text of a PDF as paragraph blocks tagged with their page number, so chunks and quotes can cite
+ * "p. N". Title comes from the document info, else the file name.
+ */
+export async function extractPdfContent(
+  data: ArrayBuffer,
+  url: string
+): Promise<{ title: string; content: string; blocks: ContentBlock[] }> {
+  if (data.byteLength > MAX_PDF_BYTES) throw pdfTooLarge(data.byteLength);
+  const pdf = await getDocumentProxy(new Uint8Array(data));
+  const { text: pages } = await extractText(pdf, { mergePages: false });
+  const blocks: ContentBlock[] = [];
+  pages.forEach((pageText, i) => {
+    for (const text of pageParagraphs(pageText)) blocks.push({ type: 'paragraph', text, page: i + 1 });
+  });
+  const kept = capBlocks(blocks);
+
+  const { info } = await getMeta(pdf).catch(() => ({ info: {} as Record<string, unknown> }));
+  const metaTitle = typeof info.Title === 'string' ? info.Title.trim() : '';
+  const title = metaTitle || titleFromUrl(url) || DEFAULT_PAGE_TITLE;
+
+  return { title, content: blocksToText(kept), blocks: kept };
+}
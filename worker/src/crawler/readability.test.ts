@@ -0,0 +1,57 @@
+import { readFileSync } from 'fs';
+import * as cheerio from 'cheerio';
+import { describe, expect, it } from 'vitest';
+import { findMainContent, linkDensity, removeBoilerplate } from './readability';
+
+function loadFixture(name: string) {
+  return cheerio.load(readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf8'));
+}
+
+describe('removeBoilerplate', () => {
+  it('drops scripts, banners, menus, sidebars, share widgets and footers', () => {
+    const $ = loadFixture('blog-post.html');
+    removeBoilerplate($);
+    const text = $('body').text();
+    expect(text).not.toContain('We use cookies');
+    expect(text).not.toContain('Recent posts');
+    expect(text).not.toContain('Share on Twitter');
+    expect(text).not.toContain('All rights reserved');
+    expect($('script, style').length).toBe(0);
+    expect(text).toContain('Autovacuum is one of those features');
+  });
+
+  it('keeps wrappers that hold the protected content selector', () => {
+    const $ = cheerio.load(
+      '<body><div id="page-header-and-body"><div class="content"><p>Body text that must survive.</p></div></div></body>'
+    );
+    removeBoilerplate($);
+    expect($('body').text()).toContain('Body text that must survive.');
+  });
+});
+
+describe('findMainContent', () => {
+  it('picks the post container of a page without main or article', () => {
+    const $ = loadFixture('blog-post.html');
+    removeBoilerplate($);
+    const root = findMainContent($);
+    expect(root?.hasClass('post-body')).toBe(true);
+  });
+
+  it('returns null when nothing looks like prose', () => {
+    const $ = cheerio.load('<body><div><a href="/a">Home</a> <a href="/b">About</a></div></body>');
+    expect(findMainContent($)).toBeNull();
+  });
+});
+
+describe('linkDensity', () => {
+  it('is high for link lists and low for article text', () => {
+    const $ = loadFixture('blog-post.html');
+    expect(linkDensity($, $('.sidebar ul'))).toBeGreaterThan(0.9);
+    expect(linkDensity($, $('.post-body'))).toBeLessThan(0.1);
+  });
+
+  it('is 0 for an empty element', () => {
+    const $ = cheerio.load('<body><div id="empty"></div></body>');
+    expect(linkDensity($, $('#empty'))).toBe(0);
+  });
+});
@@ -0,0 +1,125 @@
+import type { CheerioAPI } from 'cheerio';
+import { MAIN_CONTENT_SELECTOR } from './constants';
+
+/** Page chrome that never holds article text. `header` is only removed outside article/main (it often wraps the h1 there). */
+const BOILERPLATE_SELECTOR =
+  'script, style, noscript, template, svg, iframe, nav, footer, aside, [role="navigation"], [role="banner"], [role="contentinfo"], [role="dialog"], [role="search"], [aria-hidden="true"]';
+
+const UNLIKELY_CANDIDATE =
+  /ad-break|agegate|banner|breadcrumb|combx|comment|community|consent|cookie|disqus|footer|gdpr|header|menu|newsletter|pager|pagination|popup|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+const POSITIVE_CLASS = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+const NEGATIVE_CLASS =
+  /-ad-|hidden|banner|combx|comment|com-|contact|foot|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+
+const SCORED_SELECTOR = 'p, pre, blockquote, td, dd, li';
+const MIN_SCORED_TEXT_LENGTH = 25;
+const MIN_CANDIDATE_SCORE = 20;
+
+/** Text a selector-based root must hold before it is trusted over scoring (`.content` often matches a small widget). */
+export const MIN_SELECTED_ROOT_CHARS = 500;
+
+const select = ($: CheerioAPI, selector: string) => $(selector);
+
+export type ContentRoot = ReturnType<typeof select>;
+
+type Scored = { node: ContentRoot; score: number };
+
+function classAndId(el: unknown): string {
+  const attribs = (el as { attribs?: Record<string, string> }).attribs ?? {};
+  return `${attribs.class ?? ''} ${attribs.id ?? ''}`;
+}
+
+function tagName(el: unknown): string {
+  return (el as { tagName?: string }).tagName?.toLowerCase() ?? '';
+}
+
+function classWeight(el: unknown): number {
+  const names = classAndId(el);
+  let weight = 0;
+  if (POSITIVE_CLASS.test(names)) weight += 25;
+  if (NEGATIVE_CLASS.test(names)) weight -= 25;
+  return weight;
+}
+
+function tagWeight(tag: string): number {
+  if (tag === 'article' || tag === 'main') return 10;
+  if (tag === 'div' || tag === 'section') return 5;
+  if (tag === 'pre' || tag === 'td' || tag === 'blockquote') return 3;
+  if (tag === 'form' || tag === 'ol' || tag === 'ul' || tag === 'dl' || tag === 'th') return -3;
+  return 0;
+}
+
+/** Share of an element's text that sits inside links; menus and link farms score near 1. */
+export function linkDensity($: CheerioAPI, node: ContentRoot): number {
+  const textLength = node.text().replace(/\s+/g, ' ').trim().length;
+  if (textLength === 0) return 0;
+  let linkLength = 0;
+  node.find('a').each((_, a) => {
+    linkLength += $(a).text().replace(/\s+/g, ' ').trim().length;
+  });
+  return Math.min(1, linkLength / textLength);
+}
+
+/**
+ * Removes navigation, banners, cookie notices and similar chrome from `$` in place. Elements that
+ * contain `protectSelector` (the domain's content selector or MAIN_CONTENT_SELECTOR) are kept even
+ * when their class looks like chrome, since wrappers like `#page-header-and-body` are common.
+ */
+export function removeBoilerplate($: CheerioAPI, extraSelectors: string[] = [], protectSelector = MAIN_CONTENT_SELECTOR): void {
+  for (const selector of [BOILERPLATE_SELECTOR, ...extraSelectors]) $(selector).remove();
+  $('header')
+    .filter((_, el) => $(el).closest('article, main').length === 0)
+    .remove();
+  $('body *')
+    .filter((_, el) => {
+      const tag = tagName(el);
+      if (tag === 'article' || tag === 'main' || tag === 'a') return false;
+      const names = classAndId(el);
+      if (!UNLIKELY_CANDIDATE.test(names) || MAYBE_CANDIDATE.test(names)) return false;
+      const $el = $(el);
+      return !$el.is(protectSelector) && $el.find(protectSelector).length === 0 && $el.closest('table, pre, code').length === 0;
+    })
+    .remove();
+}
+
+/**
+ * Readability-style scoring: every paragraph-like element adds points (length, commas) to its
+ * parent and, diminishing, to two further ancestors; each candidate's total is then discounted by
+ * its link density. Returns the best-scoring container, or null when nothing looks like prose.
+ */
+export function findMainContent($: CheerioAPI): ContentRoot | null {
+  const candidates = new Map<unknown, Scored>();
+
+  select($, 'body')
+    .find(SCORED_SELECTOR)
+    .each((_, el) => {
+      const $el = $(el);
+      if (tagName(el) === 'li' && $el.find('p').length > 0) return;
+      const text = $el.text().replace(/\s+/g, ' ').trim();
+      if (text.length < MIN_SCORED_TEXT_LENGTH) return;
+      const points = text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+
+      $el
+        .parents()
+        .slice(0, 3)
+        .each((depth, ancestor) => {
+          const tag = tagName(ancestor);
+          if (tag === 'body' || tag === 'html') return false;
+          let entry = candidates.get(ancestor);
+          if (!entry) {
+            entry = { node: $(ancestor), score: tagWeight(tag) + classWeight(ancestor) };
+            candidates.set(ancestor, entry);
+          }
+          entry.score += depth === 0 ? points : points / (depth * 2);
+          return undefined;
+        });
+    });
+
+  let best: Scored | null = null;
+  for (const entry of candidates.values()) {
+    const score = entry.score * (1 - linkDensity($, entry.node));
+    if (!best || score > best.score) best = { node: entry.node, score };
+  }
+  return best && best.score >= MIN_CANDIDATE_SCORE ? best.node : null;
+}
@@ -0,0 +1,71 @@
+import * as cheerio from 'cheerio';
+import { gunzipSync } from 'zlib';
+import { politeFetch } from './hostScheduler';
+import { MAX_SITEMAP_BYTES, MAX_SITEMAP_FETCHES, MAX_SITEMAP_URLS } from './constants';
+import { normalizeUrl } from './urlUtils';
+
+/** Sitemaps listed in robots.txt, or the conventional /sitemap.xml when it lists none. */
+export function sitemapCandidates(seedUrl: string, robotsSitemaps: string[] = []): string[] {
+  if (robotsSitemaps.length > 0) return robotsSitemaps;
+  return [new URL('/sitemap.xml', seedUrl).toString()];
+}
+
+async function fetchSitemapXml(url: string): Promise<string | null> {
+  const response = await politeFetch(url);
+  if (!response.ok) return null;
+  const type = response.headers.get('content-type') ?? '';
+  if (url.endsWith('.gz') || type.includes('gzip')) {
+    const data = Buffer.from(await response.arrayBuffer());
+    // Servers often send .gz sitemaps with Content-Encoding: gzip, which node-fetch already decoded.
+    return data[0] === 0x1f && data[1] === 0x8b
+      ? gunzipSync(data, { maxOutputLength: MAX_SITEMAP_BYTES }).toString('utf8')
+      : data.toString('utf8');
+  }
+  return response.text();
+}
+
+/**
+ * Page URLs from the given sitemaps, following sitemap indexes breadth-first. Stops after
+ * MAX_SITEMAP_FETCHES documents or once `limit` accepted URLs are collected; `accept` filters
+ * page URLs (host, robots, path patterns) before they count toward the limit.
+ */
+export async function collectSitemapUrls(
+  sitemaps: string[],
+  accept: (url: string) => boolean,
+  limit = MAX_SITEMAP_URLS
+): Promise<string[]> {
+  const queue = [...sitemaps];
+  const fetched = new Set<string>();
+  const urls = new Set<string>();
+
+  while (queue.length > 0 && fetched.size < MAX_SITEMAP_FETCHES && urls.size < limit) {
+    const sitemapUrl = queue.shift()!;
+    if (fetched.has(sitemapUrl)) continue;
+    fetched.add(sitemapUrl);
+
+    let xml: string | null;
+    try {
+      xml = await fetchSitemapXml(sitemapUrl);
+    } catch (err) {
+      console.warn('crawl: sitemap fetch failed', sitemapUrl.slice(0, 80), err instanceof Error ? err.message : err);
+      continue;
+    }
+    if (!xml) continue;
+
+    const $ = cheerio.load(xml, { xml: true });
+    $('sitemapindex > sitemap > loc').each((_, el) => {
+      const loc = $(el).text().trim();
+      if (loc) queue.push(loc);
+    });
+    $('urlset > url > loc').each((_, el) => {
+      if (urls.size >= limit) return false;
+      const loc = $(el).text().trim();
+      if (!loc) return undefined;
+      const normalized = normalizeUrl(loc);
+      if (accept(normalized)) urls.add(normalized);
+      return undefined;
+    });
+  }
+
+  return [...urls];
+}
@@ -0,0 +1,75 @@
+import { readFileSync } from 'fs';
+import * as cheerio from 'cheerio';
+import { describe, expect, it } from 'vitest';
+import { MAX_PAGE_CONTENT_LENGTH } from './constants';
+import { blocksToText, capBlocks, extractContentBlocks, extractPageContent, type ContentBlock } from './structure';
+
+function loadFixture(name: string) {
+  return cheerio.load(readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf8'));
+}
+
+describe('extractPageContent', () => {
+  it('keeps the article as headings, paragraphs, list items and tables', () => {
+    const { content, blocks } = extractPageContent(loadFixture('blog-post.html'), 'https://notes.example.com/posts/autovacuum-tuning');
+    expect(blocks.map((b) => (b.type === 'heading' ? `h${b.level}` : b.type))).toEqual([
+      'h1',
+      'paragraph',
+      'paragraph',
+      'paragraph',
+      'h2',
+      'paragraph',
+      'list_item',
+      'list_item',
+      'list_item',
+      'h2',
+      'paragraph',
+      'table',
+      'paragraph',
+    ]);
+    expect(blocks[0]).toEqual({ type: 'heading', level: 1, text: 'Tuning Postgres autovacuum for busy tables' });
+    expect(blocks[6]).toEqual({ type: 'list_item', text: 'Set autovacuum_vacuum_scale_factor to 0 on the hot table.' });
+    expect(blocks[11]).toEqual({
+      type: 'table',
+      rows: [
+        ['Column', 'Meaning'],
+        ['n_dead_tup', 'Dead tuples waiting for vacuum'],
+        ['last_autovacuum', 'When autovacuum last finished on the table'],
+      ],
+    });
+    expect(content).toBe(blocksToText(blocks));
+    expect(content).not.toContain('Recent posts');
+    expect(content).not.toContain('We use cookies');
+  });
+
+  it('falls back to the root text when the markup has no blocks', () => {
+    const { content, blocks } = extractPageContent(cheerio.load('<body><main><span>Plain   text only</span></main></body>'));
+    expect(blocks).toEqual([]);
+    expect(content).toBe('Plain text only');
+  });
+});
+
+describe('extractContentBlocks', () => {
+  it('does not repeat nested list, list-item paragraph or nested table text', () => {
+    const $ = cheerio.load(`<body><main>
+      <ul><li><p>Outer item</p><ul><li>Inner item</li></ul></li></ul>
+      <table><tr><td>Cell <table><tr><td>Nested</td></tr></table></td></tr></table>
+      <blockquote><p>Quoted line</p></blockquote>
+    </main></body>`);
+    expect(extractContentBlocks($, $('main'))).toEqual([
+      { type: 'list_item', text: 'Outer item' },
+      { type: 'list_item', text: 'Inner item' },
+      { type: 'table', rows: [['Cell Nested']] },
+      { type: 'paragraph', text: 'Quoted line' },
+    ]);
+  });
+});
+
+describe('capBlocks', () => {
+  it('keeps leading blocks whose text fits in MAX_PAGE_CONTENT_LENGTH', () => {
+    const paragraph = 'x'.repeat(MAX_PAGE_CONTENT_LENGTH / 4);
+    const blocks: ContentBlock[] = Array.from({ length: 5 }, () => ({ type: 'paragraph', text: paragraph }));
+    const kept = capBlocks(blocks);
+    expect(kept).toHaveLength(3);
+    expect(blocksToText(kept).length).toBeLessThanOrEqual(MAX_PAGE_CONTENT_LENGTH);
+  });
+});
@@ -0,0 +1,127 @@
+import type { CheerioAPI } from 'cheerio';
+import { MAIN_CONTENT_SELECTOR, MAX_PAGE_CONTENT_LENGTH } from './constants';
+import { getDomainRuleForUrl, type DomainRule } from './domainRules';
+import { findMainContent, MIN_SELECTED_ROOT_CHARS, removeBoilerplate, type ContentRoot } from './readability';
+
+/**
+ * Lightweight structured view of a page's main content, stored as pages.content_blocks. `page` is
+ * the 1-based page number for blocks extracted from PDFs.
+ */
+export type ContentBlock = (
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list_item'; text: string }
+  | { type: 'table'; rows: string[][] }
+) & { page?: number };
+
+const BLOCK_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, li, pre, blockquote, dt, dd, table';
+const NON_CONTENT_ANCESTORS = 'nav, footer, aside, script, style, noscript, .mw-editsection, .navbox, .reflist';
+export const BLOCK_SEPARATOR = '\n\n';
+
+function cleanText(text: string): string {
+  return text.replace(/\[edit\]/gi, '').replace(/\s+/g, ' ').trim();
+}
+
+export function blockToText(block: ContentBlock): string {
+  if (block.type === 'table') return block.rows.map((r) => r.join(' | ')).join('\n');
+  return block.text;
+}
+
+/** Page text as stored in pages.content: blocks separated by blank lines, tables one row per line. */
+export function blocksToText(blocks: ContentBlock[]): string {
+  return blocks.map(blockToText).join(BLOCK_SEPARATOR);
+}
+
+/**
+ * The domain rule's content selector when it matches, then MAIN_CONTENT_SELECTOR when it holds a
+ * real amount of text, then the readability candidate, then whatever main selector or body exists.
+ */
+export function selectContentRoot($: CheerioAPI, rule: DomainRule | null = null): ContentRoot {
+  if (rule?.contentSelector) {
+    const ruled = $(rule.contentSelector).first();
+    if (ruled.length > 0 && ruled.text().trim().length > 0) return ruled;
+  }
+  const main = $(MAIN_CONTENT_SELECTOR).first();
+  if (main.length > 0 && main.text().replace(/\s+/g, ' ').trim().length >= MIN_SELECTED_ROOT_CHARS) return main;
+  const scored = findMainContent($);
+  if (scored) return scored;
+  return main.length > 0 ? main : $('body');
+}
+
+export function extractContentBlocks($: CheerioAPI, root: ContentRoot): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+
+  root.find(BLOCK_SELECTOR).each((_, el) => {
+    const $el = $(el);
+    if ($el.closest(NON_CONTENT_ANCESTORS).length > 0) return;
+    const tag = (el as { tagName?: string }).tagName?.toLowerCase() ?? '';
+
+    if (tag === 'table') {
+      if ($el.parents('table').length > 0) return;
+      const rows: string[][] = [];
+      $el.find('tr').each((__, tr) => {
+        if ($(tr).closest('table')[0] !== el) return;
+        const cells = $(tr)
+          .children('th, td')
+          .map((___, cell) => cleanText($(cell).text()))
+          .get();
+        if (cells.some((c) => c.length > 0)) rows.push(cells);
+      });
+      if (rows.length > 0) blocks.push({ type: 'table', rows });
+      return;
+    }
+
+    if ($el.parents('table').length > 0) return;
+    // Text of p/pre inside a list item or blockquote is already captured by the container.
+    if ((tag === 'p' || tag === 'pre') && $el.parents('li, blockquote, dd').length > 0) return;
+
+    if (/^h[1-6]$/.test(tag)) {
+      const text = cleanText($el.text());
+      if (text) blocks.push({ type: 'heading', level: Number(tag[1]), text });
+      return;
+    }
+
+    if (tag === 'li') {
+      const text = cleanText($el.clone().children('ul, ol').remove().end().text());
+      if (text) blocks.push({ type: 'list_item', text });
+      return;
+    }
+
+    const text = cleanText($el.text());
+    if (text) blocks.push({ type: 'paragraph', text });
+  });
+
+  return blocks;
+}
+
+/** Leading blocks whose text fits in MAX_PAGE_CONTENT_LENGTH. */
+export function capBlocks(blocks: ContentBlock[]): ContentBlock[] {
+  const kept: ContentBlock[] = [];
+  let length = 0;
+  for (const block of blocks) {
+    const add = blockToText(block).length + (kept.length > 0 ? BLOCK_SEPARATOR.length : 0);
+    if (length + add > MAX_PAGE_CONTENT_LENGTH) break;
+    kept.push(block);
+    length += add;
+  }
+  return kept;
+}
+
+/**
+ * Structured content plus the flat text stored in pages.content. Boilerplate is removed from `$`
+ * first, using the page's domain rule when `url` has one. Falls back to the flattened root text
+ * (and no blocks) for pages whose markup yields no recognizable blocks.
+ */
+export function extractPageContent($: CheerioAPI, url?: string): { content: string; blocks: ContentBlock[] } {
+  const rule = getDomainRuleForUrl(url);
+  const protect = rule?.contentSelector ? `${rule.contentSelector}, ${MAIN_CONTENT_SELECTOR}` : MAIN_CONTENT_SELECTOR;
+  removeBoilerplate($, rule?.stripSelectors, protect);
+  const root = selectContentRoot($, rule);
+  const kept = capBlocks(extractContentBlocks($, root));
+  if (kept.length > 0) {
+    return { content: blocksToText(kept), blocks: kept };
+  }
+  const rootText = root.text().replace(/[ \t]+/g, ' ').trim().substring(0, MAX_PAGE_CONTENT_LENGTH);
+  const content = rootText || $('body').text().trim().substring(0, MAX_PAGE_CONTENT_LENGTH);
+  return { content, blocks: [] };
+}
@@ -0,0 +1,117 @@
+/**
+ * Embedding providers. Selected by EMBEDDING_PROVIDER (openai | http | hash) through
+ * supabase/functions/_shared/embeddings.ts, which chat-with-rag resolves its query embedder with too.
+ */
+
+import { recordUsage, type UsageTag } from './usage';
+import { hashEmbed, resolveEmbeddingConfig } from '../../supabase/functions/_shared/embeddings';
+
+const EMBED_REQUEST_MAX_RETRIES = 3;
+
+export interface EmbeddingProvider {
+  /** Recorded on every chunk / encoded_discovered row as embedding_model. */
+  readonly model: string;
+  readonly dimensions: number;
+  /** With a usage tag, the tokens the server reports are written to usage_ledger. */
+  embed(texts: string[], usage?: UsageTag): Promise<number[][]>;
+}
+
+
+function createOpenAICompatibleProvider(opts: {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  dimensions: number;
+}): EmbeddingProvider {
+  const url = `${opts.baseUrl.replace(/\/$/, '')}/embeddings`;
+  return {
+    model: opts.model,
+    dimensions: opts.dimensions,
+    async embed(texts: string[], usage?: UsageTag): Promise<number[][]> {
+      if (texts.length === 0) return [];
+      let lastErr: Error | null = null;
+      let vectors: number[][] | null = null;
+      for (let attempt = 0; attempt < EMBED_REQUEST_MAX_RETRIES; attempt++) {
+        try {
+          const res = await fetch(url, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              ...(opts.apiKey ? { Authorization: `Bearer ${opts.apiKey}` } : {}),
+            },
+            body: JSON.stringify({ model: opts.model, input: texts }),
+          });
+          if (!res.ok) {
+            const errText = await res.text();
+            lastErr = new Error(`Embeddings (${opts.model}): ${res.status} ${errText}`);
+            if ((res.status === 500 || res.status === 502 || res.status === 429) && attempt < EMBED_REQUEST_MAX_RETRIES - 1) {
+              const delayMs = Math.min(1000 * Math.pow(2, attempt), 8000);
+              console.warn('[embeddings] retry', { status: res.status, attempt: attempt + 1, delayMs });
+              await new Promise((r) => setTimeout(r, delayMs));
+              continue;
+            }
+            throw lastErr;
+          }
+          const data = (await res.json()) as { data: { embedding: number[] }[]; usage?: { prompt_tokens?: number } };
+          vectors = data.data.map((d) => d.embedding);
+          if (usage && data.usage) await recordUsage(usage, opts.model, data.usage.prompt_tokens ?? 0);
+          break;
+        } catch (e) {
+          lastErr = e instanceof Error ? e : new Error(String(e));
+          if (attempt < EMBED_REQUEST_MAX_RETRIES - 1) {
+            const delayMs = Math.min(1000 * Math.pow(2, attempt), 8000);
+            console.warn('[embeddings] retry after error', { message: lastErr.message.slice(0, 80), attempt: attempt + 1, delayMs });
+            await new Promise((r) => setTimeout(r, delayMs));
+          } else {
+            throw lastErr;
+          }
+        }
+      }
+      if (!vectors) throw lastErr ?? new Error(`Embeddings (${opts.model}): failed`);
+      assertDimensions(vectors, opts.model, opts.dimensions);
+      return vectors;
+    },
+  };
+}
+
+
+function createHashProvider(model: string, dimensions: number): EmbeddingProvider {
+  return {
+    model,
+    dimensions,
+    async embed(texts: string[]): Promise<number[][]> {
+      return texts.map((t) => hashEmbed(t, dimensions));
+    },
+  };
+}
+
+function assertDimensions(vectors: number[][], model: string, expected: number): void {
+  for (const v of vectors) {
+    if (v.length !== expected) {
+      throw new Error(`Embeddings (${model}): got dimension ${v.length}, expected ${expected}`);
+    }
+  }
+}
+
+/**
+ * Throws on settings that can never work, such as EMBEDDING_DIMENSIONS not matching the vector
+ * columns, so the worker refuses to start instead of failing every indexing run.
+ */
+export function assertEmbeddingConfig(env: NodeJS.ProcessEnv = process.env): void {
+  const config = resolveEmbeddingConfig((name) => env[name]);
+  if ('error' in config && config.fatal) throw new Error(`[embeddings] ${config.error}`);
+}
+
+/**
+ * Resolve the configured provider from env. Returns null when the provider needs a key that
+ * isn't set – callers treat that the same as the old "OPENAI_API_KEY missing" skip.
+ */
+export function getEmbeddingProvider(env: NodeJS.ProcessEnv = process.env): EmbeddingProvider | null {
+  const config = resolveEmbeddingConfig((name) => env[name]);
+  if ('error' in config) {
+    if (config.fatal) throw new Error(`[embeddings] ${config.error}`);
+    return null;
+  }
+  if (config.kind === 'hash') return createHashProvider(config.model, config.dimensions);
+  return createOpenAICompatibleProvider(config);
+}
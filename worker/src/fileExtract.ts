@@ -0,0 +1,161 @@
+import * as cheerio from 'cheerio';
+import mammoth from 'mammoth';
+import { extractPdfContent } from './crawler/pdf';
+import { blocksToText, capBlocks, extractPageContent, type ContentBlock } from './crawler/structure';
+import { PDF_CONTENT_TYPE } from './crawler/constants';
+
+export type UploadedFileKind = 'pdf' | 'docx' | 'html' | 'markdown' | 'text';
+
+const DOCX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const KIND_BY_EXTENSION: Record<string, UploadedFileKind> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  html: 'html',
+  htm: 'html',
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+};
+
+export const CONTENT_TYPE_BY_KIND: Record<UploadedFileKind, string> = {
+  pdf: PDF_CONTENT_TYPE,
+  docx: DOCX_CONTENT_TYPE,
+  html: 'text/html',
+  markdown: 'text/markdown',
+  text: 'text/plain',
+};
+
+/** By extension first (browsers often upload .md as application/octet-stream), then by MIME type. */
+export function uploadedFileKind(name: string, contentType: string | null): UploadedFileKind | null {
+  const ext = name.toLowerCase().split('.').pop() ?? '';
+  if (KIND_BY_EXTENSION[ext]) return KIND_BY_EXTENSION[ext];
+  const type = (contentType ?? '').split(';')[0].trim().toLowerCase();
+  const match = (Object.keys(CONTENT_TYPE_BY_KIND) as UploadedFileKind[]).find((k) => CONTENT_TYPE_BY_KIND[k] === type);
+  return match ?? null;
+}
+
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(\*|_)(.+?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function tableCells(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split('|')
+    .map((c) => stripInlineMarkdown(c));
+}
+
+/** Headings, list items, pipe tables and paragraphs; fenced code is kept verbatim as a paragraph. */
+export function markdownToBlocks(markdown: string): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  let paragraph: string[] = [];
+  let table: string[][] = [];
+  let fence: string[] | null = null;
+
+  const flushParagraph = () => {
+    const text = stripInlineMarkdown(paragraph.join(' '));
+    if (text) blocks.push({ type: 'paragraph', text });
+    paragraph = [];
+  };
+  const flushTable = () => {
+    if (table.length > 0) blocks.push({ type: 'table', rows: table });
+    table = [];
+  };
+
+  for (const line of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    if (fence) {
+      if (/^\s*(```|~~~)/.test(line)) {
+        const text = fence.join('\n').trim();
+        if (text) blocks.push({ type: 'paragraph', text });
+        fence = null;
+      } else {
+        fence.push(line);
+      }
+      continue;
+    }
+    if (/^\s*(```|~~~)/.test(line)) {
+      flushParagraph();
+      flushTable();
+      fence = [];
+      continue;
+    }
+    if (/^\s*\|.*\|\s*$/.test(line)) {
+      flushParagraph();
+      if (!/^\s*\|?[\s:|-]+\|?\s*$/.test(line)) table.push(tableCells(line));
+      continue;
+    }
+    flushTable();
+
+    const heading = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      flushParagraph();
+      const text = stripInlineMarkdown(heading[2]);
+      if (text) blocks.push({ type: 'heading', level: heading[1].length, text });
+      continue;
+    }
+    const item = /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/.exec(line);
+    if (item) {
+      flushParagraph();
+      const text = stripInlineMarkdown(item[1]);
+      if (text) blocks.push({ type: 'list_item', text });
+      continue;
+    }
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+    paragraph.push(line.replace(/^\s*>\s?/, ''));
+  }
+  if (fence) paragraph.push(...fence);
+  flushParagraph();
+  flushTable();
+  return blocks;
+}
+
+export function plainTextToBlocks(text: string): ContentBlock[] {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/\s+/g, ' ').trim())
+    .filter((p) => p.length > 0)
+    .map((p) => ({ type: 'paragraph' as const, text: p }));
+}
+
+function fromBlocks(blocks: ContentBlock[]): { content: string; blocks: ContentBlock[] } {
+  const kept = capBlocks(blocks);
+  return { content: blocksToText(kept), blocks: kept };
+}
+
+/** Text and structured blocks of an uploaded file, in the same shape the crawler stores for web pages. */
+export async function extractUploadedFile(
+  data: ArrayBuffer,
+  kind: UploadedFileKind,
+  name: string
+): Promise<{ content: string; blocks: ContentBlock[] }> {
+  switch (kind) {
+    case 'pdf': {
+      const { content, blocks } = await extractPdfContent(data, `file:///${encodeURIComponent(name)}`);
+      return { content, blocks };
+    }
+    case 'docx': {
+      const { value: html } = await mammoth.convertToHtml({ buffer: Buffer.from(data) });
+      return extractPageContent(cheerio.load(html));
+    }
+    case 'html':
+      return extractPageContent(cheerio.load(Buffer.from(data).toString('utf8')));
+    case 'markdown':
+      return fromBlocks(markdownToBlocks(Buffer.from(data).toString('utf8')));
+    case 'text':
+      return fromBlocks(plainTextToBlocks(Buffer.from(data).toString('utf8')));
+  }
+}
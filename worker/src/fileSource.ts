@@ -0,0 +1,113 @@
+import { supabase } from './db';
+import { indexSourceForRag } from './indexer';
+import { contentHash } from './contentHash';
+import { CONTENT_TYPE_BY_KIND, extractUploadedFile, uploadedFileKind } from './fileExtract';
+import { isJobStopped, updateCrawlJob } from './crawler/job';
+import { recordIndexedPage } from './quotas';
+import type { CrawlJob, Page, Source } from './types';
+
+export const SOURCE_FILES_BUCKET = 'source-files';
+
+type FilePage = Pick<Page, 'id' | 'title' | 'path' | 'content_hash' | 'content_type'> & { storage_path: string | null };
+
+/**
+ * Files must sit in the source's own folder: the download uses the service role, so a page row
+ * pointing elsewhere would otherwise read another user's upload.
+ */
+function isOwnStoragePath(storagePath: string, source: Source): boolean {
+  return storagePath.startsWith(`${source.owner_id}/${source.id}/`) && !storagePath.split('/').includes('..');
+}
+
+async function markPageError(pageId: string, reason: string): Promise<void> {
+  console.warn('[files] extract failed', pageId.slice(0, 8), reason);
+  await supabase.from('pages').update({ status: 'error' as const, error_message: reason.slice(0, 500) }).eq('id', pageId);
+}
+
+/**
+ * Extract every uploaded file of a `file` source into its page row (pages are created by the
+ * client at upload time, pending), then index them like crawled pages. Unchanged files keep
+ * their chunks because the page hash matches.
+ */
+export async function ingestFileSource(job: CrawlJob, source: Source): Promise<void> {
+  const { data: pages, error } = await supabase
+    .from('pages')
+    .select('id, title, path, content_hash, content_type, storage_path')
+    .eq('source_id', source.id);
+  if (error) throw new Error(`Failed to load files: ${error.message}`);
+  await updateCrawlJob(job.id, { total_pages: pages?.length ?? 0, discovered_count: pages?.length ?? 0 });
+
+  let pagesChanged = 0;
+  let pagesUnchanged = 0;
+  for (const page of (pages ?? []) as FilePage[]) {
+    if (await isJobStopped(job.id)) return;
+    if (!page.storage_path) {
+      await markPageError(page.id, 'no storage_path');
+      continue;
+    }
+    if (!isOwnStoragePath(page.storage_path, source)) {
+      await markPageError(page.id, 'storage_path outside the source folder');
+      continue;
+    }
+    const name = page.title || page.path.replace(/^\//, '');
+    const kind = uploadedFileKind(name, page.content_type ?? null);
+    if (!kind) {
+      await markPageError(page.id, `unsupported file type: ${name}`);
+      continue;
+    }
+
+    try {
+      const { data: blob, error: downloadError } = await supabase.storage.from(SOURCE_FILES_BUCKET).download(page.storage_path);
+      if (downloadError || !blob) throw new Error(downloadError?.message ?? 'empty download');
+      const { content, blocks } = await extractUploadedFile(await blob.arrayBuffer(), kind, name);
+      const hash = contentHash(content);
+      const changed = page.content_hash !== hash;
+      await supabase
+        .from('pages')
+        .update({
+          status: 'indexed' as const,
+          error_message: null,
+          content_type: CONTENT_TYPE_BY_KIND[kind],
+          ...(changed ? { content, content_blocks: blocks.length > 0 ? blocks : null, content_hash: hash } : {}),
+        })
+        .eq('id', page.id);
+      if (changed) pagesChanged++;
+      else pagesUnchanged++;
+      await recordIndexedPage(job.owner_id);
+    } catch (err) {
+      await markPageError(page.id, err instanceof Error ? err.message : String(err));
+    }
+
+    await updateCrawlJob(job.id, {
+      indexed_count: pagesChanged + pagesUnchanged,
+      pages_changed: pagesChanged,
+      pages_unchanged: pagesUnchanged,
+      last_activity_at: new Date().toISOString(),
+    });
+  }
+
+  await updateCrawlJob(job.id, { status: 'indexing' });
+  try {
+    await indexSourceForRag(source.id, job.id, source.conversation_id);
+  } catch (err) {
+    console.warn('[files] RAG indexing failed', err);
+  }
+  if (await isJobStopped(job.id)) return;
+
+  const finishedAt = new Date().toISOString();
+  await updateCrawlJob(job.id, {
+    total_pages: pages?.length ?? 0,
+    discovered_count: pages?.length ?? 0,
+    indexed_count: pagesChanged + pagesUnchanged,
+    pages_changed: pagesChanged,
+    pages_unchanged: pagesUnchanged,
+    status: 'completed',
+    completed_at: finishedAt,
+  });
+  await supabase
+    .from('sources')
+    .update({
+      last_refreshed_at: finishedAt,
+      ...(pagesChanged > 0 ? { last_content_changed_at: finishedAt } : {}),
+    })
+    .eq('id', source.id);
+}
@@ -1,9 +1,13 @@
 import { supabase } from './db';
 import { claimJob, processCrawlJob } from './crawler';
 import { processAddPageJob } from './addPageProcessor';
+import { enqueueDueRefreshes } from './scheduler';
+import { closeBrowserFetcher } from './crawler/fetchStrategy';
+import { assertEmbeddingConfig } from './embeddings';
 
 const FALLBACK_POLL_MS = parseInt(process.env.CRAWL_FALLBACK_POLL_MS || '60000', 10); 
 const MAX_CONCURRENT_JOBS = parseInt(process.env.MAX_CONCURRENT_JOBS || '3', 10);
+const REFRESH_CHECK_MS = parseInt(process.env.REFRESH_CHECK_MS || '300000', 10);
 
 const activeJobs = new Set<string>();
 let wakeResolver: (() => void) | null = null;
@@ -16,6 +20,7 @@ const wake = () => {
 };
 
 async function main() {
+  assertEmbeddingConfig();
   console.log('[worker] Started, using Realtime for job discovery (fallback poll every', FALLBACK_POLL_MS / 1000, 's)');
 
   
@@ -28,6 +33,14 @@ async function main() {
         if (payload.new?.status === 'queued') wake();
       }
     )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'crawl_jobs' },
+      (payload: { new?: { status?: string } }) => {
+        // Resuming a paused job puts it back in the queue.
+        if (payload.new?.status === 'queued') wake();
+      }
+    )
     .subscribe((status) => {
       if (status === 'SUBSCRIBED') {
         console.log('[worker] Realtime subscribed to crawl_jobs');
@@ -46,10 +59,15 @@ async function main() {
   };
 
   let hasLoggedIdle = false;
+  let lastRefreshCheck = 0;
 
   while (true) {
     try {
       while (activeJobs.size < MAX_CONCURRENT_JOBS) {
+        if (Date.now() - lastRefreshCheck >= REFRESH_CHECK_MS) {
+          lastRefreshCheck = Date.now();
+          await enqueueDueRefreshes();
+        }
         const job = await claimJob();
 
         if (!job) {
@@ -69,7 +87,7 @@ async function main() {
 
         const sourceShort = (job as { source_id?: string }).source_id?.slice(0, 8) || '?';
         const explicitUrls = (job as { explicit_crawl_urls?: string[] | null }).explicit_crawl_urls;
-        const isAddPage = explicitUrls && explicitUrls.length === 1;
+        const isAddPage = explicitUrls && explicitUrls.length === 1 && !(job as { retry_failed?: boolean }).retry_failed;
         if (isAddPage) {
           console.log('[worker] Claimed add-page crawl job', job.id.slice(0, 8), 'source', sourceShort);
         } else {
@@ -101,8 +119,11 @@ async function main() {
   }
 }
 
-process.on('SIGINT', () => process.exit(0));
-process.on('SIGTERM', () => process.exit(0));
+const shutdown = () => {
+  closeBrowserFetcher().finally(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
 
 main().catch(error => {
   console.error('Fatal error:', error);
@@ -2,52 +2,82 @@
 
 
 
-import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
 import { supabase } from './db';
 import { fetchTargetPageLead } from './targetLead';
+import { getEmbeddingProvider, type EmbeddingProvider } from './embeddings';
+import { chunkContentBlocks, chunkPlainText, type StructuredChunk } from './chunker';
+import type { ContentBlock } from './crawler/structure';
+import { contentHash } from './contentHash';
+import { hammingDistance, NEAR_DUPLICATE_MAX_DISTANCE, simhash } from './simhash';
+import { pageUrlAliases, urlIdentityKey } from './crawler/urlUtils';
+import { isJobStopped, STOPPED_JOB_STATUSES } from './crawler/job';
+import { embeddingQuotaExceeded } from './quotas';
+import { quotaExceededMessage } from '../../supabase/functions/_shared/quotas';
+import type { FetchStrategy } from './crawler/fetchStrategy';
+import type { Source } from './types';
 
 
-const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
-const CHUNK_MAX_CHARS = 600;
-const CHUNK_OVERLAP_CHARS = 100;
 const EMBED_BATCH_SIZE = 10;
-
-const textSplitter = new RecursiveCharacterTextSplitter({
-  chunkSize: CHUNK_MAX_CHARS,
-  chunkOverlap: CHUNK_OVERLAP_CHARS,
-});
 const DISCOVERED_PROGRESS_INTERVAL_MS = 1200;
 const DEFAULT_LINK_SNIPPET = 'Link from page';
-const OPENAI_EMBEDDINGS_URL = 'https://api.openai.com/v1/embeddings';
+const CHUNK_DELETE_BATCH_SIZE = 100;
+const FINGERPRINT_BACKFILL_BATCH_SIZE = 50;
+const FINGERPRINT_PAGE_SIZE = 1000;
+/** Ids per `.in()` filter: they go into the request URL, and a source can have thousands of pages. */
+const PAGE_ID_BATCH_SIZE = 150;
 
 type ChunkSpec = {
   page_id: string;
   content: string;
+  content_hash: string;
   start_index: number | null;
   end_index: number | null;
+  page_number: number | null;
   owner_id: string;
 };
 
+/** True when the owner has used up today's embedding tokens; records the limit on the crawl job so the UI can show it. */
+async function stopForEmbeddingQuota(ownerId: string, crawlJobId?: string): Promise<boolean> {
+  const quota = await embeddingQuotaExceeded(ownerId);
+  if (!quota) return false;
+  console.log('[indexer] embedding quota exceeded', { kind: quota.kind, limit: quota.limit, used: quota.used });
+  if (crawlJobId) {
+    await supabase.from('crawl_jobs').update({ error_message: quotaExceededMessage(quota) }).eq('id', crawlJobId);
+  }
+  return true;
+}
 
 async function embedAndInsertChunks(
   chunkSpecs: ChunkSpec[],
-  apiKey: string,
-  options: { crawlJobId?: string; onProgress?: (inserted: number) => Promise<void> }
+  embedder: EmbeddingProvider,
+  options: { crawlJobId?: string; conversationId?: string; onProgress?: (inserted: number) => Promise<void> }
 ): Promise<number> {
   let inserted = 0;
   for (let i = 0; i < chunkSpecs.length; i += EMBED_BATCH_SIZE) {
+    if (options.crawlJobId && (await isJobStopped(options.crawlJobId))) break;
     const batchSpecs = chunkSpecs.slice(i, i + EMBED_BATCH_SIZE);
+    const ownerId = batchSpecs[0].owner_id;
+    if (await stopForEmbeddingQuota(ownerId, options.crawlJobId)) break;
     const texts = batchSpecs.map((c) => c.content);
-    const embeddings = await embedBatch(apiKey, texts);
+    const embeddings = await embedder.embed(texts, {
+      phase: 'chunk_embedding',
+      crawlJobId: options.crawlJobId,
+      ownerId,
+      conversationId: options.conversationId,
+    });
     if (embeddings.length !== batchSpecs.length) {
       break;
     }
     const rows = batchSpecs.map((c, j) => ({
       page_id: c.page_id,
       content: c.content,
+      content_hash: c.content_hash,
       start_index: c.start_index,
       end_index: c.end_index,
+      page_number: c.page_number,
       embedding: embeddings[j],
+      embedding_model: embedder.model,
+      embedding_dimensions: embedder.dimensions,
       owner_id: c.owner_id,
     }));
     const { error } = await supabase.from('chunks').insert(rows);
@@ -70,10 +100,10 @@ type IndexChunkOptions = {
 
 async function indexChunkSpecsForRag(
   chunkSpecs: ChunkSpec[],
-  apiKey: string,
+  embedder: EmbeddingProvider,
   options: IndexChunkOptions & { pageCount: number; logLabel?: string }
-): Promise<{ chunksCreated: number }> {
-  if (chunkSpecs.length === 0) return { chunksCreated: 0 };
+): Promise<{ chunksCreated: number; complete: boolean }> {
+  if (chunkSpecs.length === 0 && !options.conversationId) return { chunksCreated: 0, complete: true };
 
   const { crawlJobId, conversationId, addPageStyle, pageCount } = options;
   const totalChunks = chunkSpecs.length;
@@ -91,10 +121,13 @@ async function indexChunkSpecsForRag(
             }
           : { encoding_chunks_total: totalChunks, encoding_chunks_done: 0 }
       )
-      .eq('id', crawlJobId);
+      .eq('id', crawlJobId)
+      .not('status', 'in', STOPPED_JOB_STATUSES);
   }
 
-  const inserted = await embedAndInsertChunks(chunkSpecs, apiKey, {
+  const inserted = await embedAndInsertChunks(chunkSpecs, embedder, {
+    crawlJobId,
+    conversationId,
     onProgress: crawlJobId
       ? async (done) => {
           await supabase
@@ -110,26 +143,40 @@ async function indexChunkSpecsForRag(
 
   let discoveredEmbedded = 0;
   if (conversationId) {
-    discoveredEmbedded = await embedDiscoveredLinks(conversationId, apiKey, crawlJobId);
+    discoveredEmbedded = await embedDiscoveredLinks(conversationId, embedder, crawlJobId);
   }
 
-  return { chunksCreated: inserted + discoveredEmbedded };
+  return { chunksCreated: inserted + discoveredEmbedded, complete: inserted === chunkSpecs.length };
 }
 
-async function buildChunkSpecsFromPages(
-  pages: { id: string; content: string | null; owner_id: string }[]
-): Promise<ChunkSpec[]> {
+type PageForChunking = {
+  id: string;
+  content: string | null;
+  owner_id: string;
+  content_blocks?: ContentBlock[] | null;
+  content_hash?: string | null;
+};
+
+type PageHashRow = { id: string; content_hash: string | null; indexed_content_hash: string | null };
+
+const PAGE_CHUNKING_COLUMNS = 'id, content, owner_id, content_blocks, content_hash';
+
+async function chunkPage(page: PageForChunking): Promise<StructuredChunk[]> {
+  if (page.content_blocks?.length) return chunkContentBlocks(page.content_blocks);
+  return chunkPlainText(page.content || '');
+}
+
+async function buildChunkSpecsFromPages(pages: PageForChunking[]): Promise<ChunkSpec[]> {
   const chunkSpecs: ChunkSpec[] = [];
   for (const page of pages) {
-    const text = (page.content || '').trim();
-    if (!text) continue;
-    const pageChunks = await textSplitter.splitText(text);
-    for (const content of pageChunks) {
+    for (const chunk of await chunkPage(page)) {
       chunkSpecs.push({
         page_id: page.id,
-        content,
-        start_index: null,
-        end_index: null,
+        content: chunk.content,
+        content_hash: contentHash(chunk.content),
+        start_index: chunk.start_index,
+        end_index: chunk.end_index,
+        page_number: chunk.page_number,
         owner_id: page.owner_id,
       });
     }
@@ -137,36 +184,238 @@ async function buildChunkSpecsFromPages(
   return chunkSpecs;
 }
 
-async function buildChunkSpecsFromSinglePage(
-  pageId: string,
-  content: string,
-  ownerId: string
-): Promise<ChunkSpec[]> {
-  const text = (content || '').trim();
-  if (!text) return [];
-  const pageChunks = await textSplitter.splitText(text);
-  return pageChunks.map((c) => ({
-    page_id: pageId,
-    content: c,
-    start_index: null as number | null,
-    end_index: null as number | null,
-    owner_id: ownerId,
-  }));
+/** Pages whose chunks were built from different text than they now hold (or were never chunked). */
+async function loadStalePages(rows: PageHashRow[]): Promise<PageForChunking[]> {
+  const staleIds = rows
+    .filter((p) => !p.content_hash || p.content_hash !== p.indexed_content_hash)
+    .map((p) => p.id);
+  const pages: PageForChunking[] = [];
+  for (let i = 0; i < staleIds.length; i += PAGE_ID_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('pages')
+      .select(PAGE_CHUNKING_COLUMNS)
+      .in('id', staleIds.slice(i, i + PAGE_ID_BATCH_SIZE));
+    if (error) return [];
+    pages.push(...((data ?? []) as PageForChunking[]));
+  }
+  return pages;
+}
+
+/**
+ * Match freshly built chunk specs against the pages' stored chunks by text hash. Chunks whose text
+ * and embedding model are unchanged are kept (offsets and page numbers refreshed); the remaining
+ * specs are returned for embedding and the leftovers as orphans, which the caller deletes only once
+ * their replacements are stored.
+ */
+async function reconcileExistingChunks(
+  pageIds: string[],
+  chunkSpecs: ChunkSpec[],
+  embedder: EmbeddingProvider
+): Promise<{ toEmbed: ChunkSpec[]; kept: number; orphanIds: string[] }> {
+  if (pageIds.length === 0) return { toEmbed: chunkSpecs, kept: 0, orphanIds: [] };
+  type ExistingChunk = {
+    id: string;
+    page_id: string;
+    content_hash: string | null;
+    embedding_model: string | null;
+    start_index: number | null;
+    end_index: number | null;
+    page_number: number | null;
+  };
+  const existing: ExistingChunk[] = [];
+  for (let i = 0; i < pageIds.length; i += PAGE_ID_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('chunks')
+      .select('id, page_id, content_hash, embedding_model, start_index, end_index, page_number')
+      .in('page_id', pageIds.slice(i, i + PAGE_ID_BATCH_SIZE));
+    if (error) return { toEmbed: chunkSpecs, kept: 0, orphanIds: [] };
+    existing.push(...((data ?? []) as ExistingChunk[]));
+  }
+
+  const reusable = new Map<string, ExistingChunk[]>();
+  const orphanIds: string[] = [];
+  for (const c of existing) {
+    if (!c.content_hash || c.embedding_model !== embedder.model) {
+      orphanIds.push(c.id);
+      continue;
+    }
+    const key = `${c.page_id}:${c.content_hash}`;
+    reusable.set(key, [...(reusable.get(key) ?? []), c]);
+  }
+
+  const toEmbed: ChunkSpec[] = [];
+  let kept = 0;
+  for (const spec of chunkSpecs) {
+    const match = reusable.get(`${spec.page_id}:${spec.content_hash}`)?.shift();
+    if (!match) {
+      toEmbed.push(spec);
+      continue;
+    }
+    kept++;
+    if (
+      match.start_index !== spec.start_index ||
+      match.end_index !== spec.end_index ||
+      match.page_number !== spec.page_number
+    ) {
+      await supabase
+        .from('chunks')
+        .update({ start_index: spec.start_index, end_index: spec.end_index, page_number: spec.page_number })
+        .eq('id', match.id);
+    }
+  }
+  for (const rows of reusable.values()) orphanIds.push(...rows.map((c) => c.id));
+  return { toEmbed, kept, orphanIds };
+}
+
+async function deleteChunks(ids: string[]): Promise<void> {
+  for (let i = 0; i < ids.length; i += CHUNK_DELETE_BATCH_SIZE) {
+    await supabase.from('chunks').delete().in('id', ids.slice(i, i + CHUNK_DELETE_BATCH_SIZE));
+  }
+}
+
+async function markPagesIndexed(pages: PageForChunking[]): Promise<void> {
+  for (const page of pages) {
+    const hash = page.content_hash ?? contentHash(page.content ?? '');
+    await supabase.from('pages').update({ content_hash: hash, indexed_content_hash: hash }).eq('id', page.id);
+  }
+}
+
+/** Every source in the conversation(s) the given pages belong to. */
+async function conversationSourceIdsForPages(pageIds: string[]): Promise<string[]> {
+  const sourceIdSet = new Set<string>();
+  for (let i = 0; i < pageIds.length; i += PAGE_ID_BATCH_SIZE) {
+    const { data: pageRows } = await supabase.from('pages').select('source_id').in('id', pageIds.slice(i, i + PAGE_ID_BATCH_SIZE));
+    for (const p of (pageRows ?? []) as { source_id: string }[]) sourceIdSet.add(p.source_id);
+  }
+  const sourceIds = [...sourceIdSet];
+  if (sourceIds.length === 0) return [];
+  const { data: sources } = await supabase.from('sources').select('conversation_id').in('id', sourceIds);
+  const conversationIds = [...new Set((sources ?? []).map((s: { conversation_id: string | null }) => s.conversation_id).filter(Boolean))];
+  if (conversationIds.length === 0) return sourceIds;
+  const { data: convSources } = await supabase.from('sources').select('id').in('conversation_id', conversationIds);
+  return (convSources ?? []).map((s: { id: string }) => s.id);
+}
+
+/** Fingerprints of the other, non-duplicate pages in those sources; pages indexed before fingerprints existed get one now. */
+async function loadFingerprints(sourceIds: string[], excludeIds: Set<string>): Promise<{ id: string; simhash: string }[]> {
+  const rows: { id: string; simhash: string | null }[] = [];
+  // PostgREST caps each response at 1000 rows; a conversation can hold more pages than that.
+  for (let offset = 0; ; offset += FINGERPRINT_PAGE_SIZE) {
+    const { data } = await supabase
+      .from('pages')
+      .select('id, simhash')
+      .in('source_id', sourceIds)
+      .eq('status', 'indexed')
+      .is('duplicate_of', null)
+      .not('content', 'is', null)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + FINGERPRINT_PAGE_SIZE - 1);
+    const chunk = (data ?? []) as { id: string; simhash: string | null }[];
+    rows.push(...chunk);
+    if (chunk.length < FINGERPRINT_PAGE_SIZE) break;
+  }
+  const pages = rows.filter((p) => !excludeIds.has(p.id));
+
+  const missing = pages.filter((p) => !p.simhash).map((p) => p.id);
+  for (let i = 0; i < missing.length; i += FINGERPRINT_BACKFILL_BATCH_SIZE) {
+    const { data } = await supabase.from('pages').select('id, content').in('id', missing.slice(i, i + FINGERPRINT_BACKFILL_BATCH_SIZE));
+    for (const row of (data ?? []) as { id: string; content: string | null }[]) {
+      const fingerprint = simhash(row.content ?? '');
+      if (!fingerprint) continue;
+      await supabase.from('pages').update({ simhash: fingerprint }).eq('id', row.id);
+      const page = pages.find((p) => p.id === row.id);
+      if (page) page.simhash = fingerprint;
+    }
+  }
+  return pages.filter((p): p is { id: string; simhash: string } => !!p.simhash);
+}
+
+/**
+ * Fingerprints the pages and marks each one that is a near-duplicate of an earlier page in the same
+ * conversation (`duplicate_of`). Duplicates keep no chunks and stay unindexed
+ * (indexed_content_hash null), so every later indexing run checks them again and embeds them once
+ * the original is gone or the text diverges. Returns the ids of the duplicates.
+ */
+async function markNearDuplicates(pages: PageForChunking[]): Promise<Set<string>> {
+  const duplicates = new Set<string>();
+  if (pages.length === 0) return duplicates;
+  const sourceIds = await conversationSourceIdsForPages(pages.map((p) => p.id));
+  if (sourceIds.length === 0) return duplicates;
+  const originals = await loadFingerprints(sourceIds, new Set(pages.map((p) => p.id)));
+
+  for (const page of pages) {
+    const fingerprint = simhash(page.content ?? '');
+    const original = fingerprint
+      ? originals.find((o) => hammingDistance(o.simhash, fingerprint) <= NEAR_DUPLICATE_MAX_DISTANCE)
+      : undefined;
+    if (original) {
+      duplicates.add(page.id);
+      await supabase
+        .from('pages')
+        .update({ simhash: fingerprint, duplicate_of: original.id, indexed_content_hash: null })
+        .eq('id', page.id);
+      continue;
+    }
+    await supabase.from('pages').update({ simhash: fingerprint, duplicate_of: null }).eq('id', page.id);
+    if (fingerprint) originals.push({ id: page.id, simhash: fingerprint });
+  }
+  if (duplicates.size > 0) console.log('[indexer] near-duplicate pages skipped', { count: duplicates.size });
+  return duplicates;
+}
+
+/**
+ * Re-chunk the given pages, embed only chunks whose text changed, and drop their orphaned chunks.
+ * Near-duplicates of other pages in the conversation are not embedded and lose their chunks.
+ * Orphans are deleted and pages marked indexed (indexed_content_hash) only when every new chunk was
+ * stored, so a stopped job or failed embedding leaves the old chunks searchable.
+ */
+async function reindexPages(
+  pages: PageForChunking[],
+  embedder: EmbeddingProvider,
+  options: IndexChunkOptions & { logLabel?: string }
+): Promise<{ chunksCreated: number }> {
+  const duplicates = await markNearDuplicates(pages);
+  const originals = pages.filter((p) => !duplicates.has(p.id));
+  const chunkSpecs = await buildChunkSpecsFromPages(originals);
+  const { toEmbed, kept, orphanIds } = await reconcileExistingChunks(
+    pages.map((p) => p.id),
+    chunkSpecs,
+    embedder
+  );
+  if (pages.length > 0) {
+    console.log('[indexer] reindex', options.logLabel ?? '', {
+      pages: pages.length,
+      duplicates: duplicates.size,
+      embed: toEmbed.length,
+      kept,
+      orphans: orphanIds.length,
+    });
+  }
+  const result = await indexChunkSpecsForRag(toEmbed, embedder, { ...options, pageCount: pages.length });
+  if (result.complete) {
+    await deleteChunks(orphanIds);
+    await markPagesIndexed(originals);
+  }
+  return { chunksCreated: result.chunksCreated };
 }
 
-/** Index one source's pages for RAG (used after a source crawl). Optionally run discovered-link embedding for the conversation. */
+/**
+ * Index one source's pages for RAG (used after a source crawl). Only pages whose text changed since
+ * they were last chunked are processed. Optionally run discovered-link embedding for the conversation.
+ */
 export async function indexSourceForRag(
   sourceId: string,
   crawlJobId?: string,
   conversationId?: string
 ): Promise<{ chunksCreated: number }> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
+  const embedder = getEmbeddingProvider();
+  if (!embedder) {
     return { chunksCreated: 0 };
   }
   const { data: pages, error: pagesError } = await supabase
     .from('pages')
-    .select('id, content, owner_id')
+    .select('id, content_hash, indexed_content_hash')
     .eq('source_id', sourceId)
     .eq('status', 'indexed')
     .not('content', 'is', null);
@@ -177,11 +426,10 @@ export async function indexSourceForRag(
     return { chunksCreated: 0 };
   }
 
-  const chunkSpecs = await buildChunkSpecsFromPages(pages);
-  return indexChunkSpecsForRag(chunkSpecs, apiKey, {
+  const stalePages = await loadStalePages(pages as PageHashRow[]);
+  return reindexPages(stalePages, embedder, {
     crawlJobId,
     conversationId,
-    pageCount: pages.length,
     logLabel: `(source ${sourceId.slice(0, 8)})`,
   });
 }
@@ -191,8 +439,8 @@ export async function indexConversationForRag(
   conversationId: string,
   crawlJobId?: string
 ): Promise<{ chunksCreated: number }> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
+  const embedder = getEmbeddingProvider();
+  if (!embedder) {
     return { chunksCreated: 0 };
   }
   const { data: sources } = await supabase
@@ -204,7 +452,7 @@ export async function indexConversationForRag(
 
   const { data: pages, error: pagesError } = await supabase
     .from('pages')
-    .select('id, content, owner_id')
+    .select('id, content_hash, indexed_content_hash')
     .in('source_id', sourceIds)
     .eq('status', 'indexed')
     .not('content', 'is', null);
@@ -213,11 +461,10 @@ export async function indexConversationForRag(
   }
   if (!pages?.length) return { chunksCreated: 0 };
 
-  const chunkSpecs = await buildChunkSpecsFromPages(pages);
-  return indexChunkSpecsForRag(chunkSpecs, apiKey, {
+  const stalePages = await loadStalePages(pages as PageHashRow[]);
+  return reindexPages(stalePages, embedder, {
     crawlJobId,
     conversationId,
-    pageCount: pages.length,
     logLabel: '(conversation)',
   });
 }
@@ -227,18 +474,18 @@ export async function indexSinglePageForRag(
   pageId: string,
   content: string,
   ownerId: string,
-  crawlJobId: string
+  crawlJobId: string,
+  contentBlocks?: ContentBlock[]
 ): Promise<{ chunksCreated: number }> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
+  const embedder = getEmbeddingProvider();
+  if (!embedder) {
     return { chunksCreated: 0 };
   }
-  const chunkSpecs = await buildChunkSpecsFromSinglePage(pageId, content, ownerId);
-  return indexChunkSpecsForRag(chunkSpecs, apiKey, {
-    crawlJobId,
-    addPageStyle: true,
-    pageCount: 1,
-  });
+  return reindexPages(
+    [{ id: pageId, content, owner_id: ownerId, content_blocks: contentBlocks, content_hash: contentHash(content) }],
+    embedder,
+    { crawlJobId, addPageStyle: true }
+  );
 }
 
 
@@ -247,7 +494,7 @@ export async function indexSinglePageForRag(
 export async function embedDiscoveredLinksForPage(
   conversationId: string,
   pageId: string,
-  apiKey: string,
+  embedder: EmbeddingProvider,
   crawlJobId: string,
   ownerId: string
 ): Promise<number> {
@@ -278,7 +525,7 @@ export async function embedDiscoveredLinksForPage(
   const edgeIdToUrl = new Map((edgeRows ?? []).map((r) => [r.id, r.to_url]));
   const toEmbed = links.filter((l) => {
     const url = edgeIdToUrl.get(l.page_edge_id) || '';
-    return !indexedUrls.has(normalizeUrlForCompare(url));
+    return !indexedUrls.has(urlIdentityKey(url));
   });
   const total = toEmbed.length;
   if (crawlJobId && total > 0) {
@@ -298,25 +545,30 @@ export async function embedDiscoveredLinksForPage(
   const { data: pageRow } = await supabase.from('pages').select('source_id').eq('id', pageId).single();
   const sourceId = (pageRow as { source_id?: string } | null)?.source_id;
   const { data: sourceRow } = sourceId
-    ? await supabase.from('sources').select('suggestion_mode').eq('id', sourceId).single()
+    ? await supabase.from('sources').select('suggestion_mode, fetch_strategy').eq('id', sourceId).single()
     : { data: null };
   const useDive = (sourceRow as { suggestion_mode?: string } | null)?.suggestion_mode === 'dive';
+  const strategy = (sourceRow as Pick<Source, 'fetch_strategy'> | null)?.fetch_strategy ?? 'auto';
 
   const BATCH_SIZE = useDive ? 1 : EMBED_BATCH_SIZE;
   let updated = 0;
   let lastProgressUpdate = Date.now();
 
   for (let i = 0; i < toEmbed.length; i += BATCH_SIZE) {
+    if (await isJobStopped(crawlJobId)) break;
+    if (await stopForEmbeddingQuota(ownerId, crawlJobId)) break;
     const batch = toEmbed.slice(i, i + BATCH_SIZE);
     const texts: string[] = [];
+    let dived = false;
 
     for (const item of batch) {
       let text = item.snippet;
       if (useDive) {
         const url = edgeIdToUrl.get(item.page_edge_id) || '';
-        const lead = await fetchTargetPageLead(url);
+        const lead = await fetchTargetPageLead(url, strategy);
         if (lead) {
           text = lead;
+          dived = true;
           await supabase
             .from('encoded_discovered')
             .update({ snippet: text })
@@ -326,13 +578,18 @@ export async function embedDiscoveredLinksForPage(
       texts.push(text || DEFAULT_LINK_SNIPPET);
     }
 
-    const embeddings = await embedBatch(apiKey, texts);
+    const embeddings = await embedder.embed(texts, {
+      phase: dived ? 'dive_embedding' : 'link_embedding',
+      crawlJobId,
+      ownerId,
+      conversationId,
+    });
     if (embeddings.length !== batch.length) break;
 
     for (let j = 0; j < batch.length; j++) {
       const { error } = await supabase
         .from('encoded_discovered')
-        .update({ embedding: embeddings[j] })
+        .update({ embedding: embeddings[j], embedding_model: embedder.model })
         .eq('id', batch[j].id);
       if (!error) updated++;
     }
@@ -361,19 +618,6 @@ export async function embedDiscoveredLinksForPage(
 }
 
 
-function normalizeUrlForCompare(url: string): string {
-  try {
-    const u = new URL(url.startsWith('http') ? url : `https://${url}`);
-    u.hash = '';
-    u.search = '';
-    let path = u.pathname;
-    if (path !== '/' && path.endsWith('/')) path = path.slice(0, -1);
-    return (u.origin + path).toLowerCase();
-  } catch {
-    return url.toLowerCase();
-  }
-}
-
 /** Fetch indexed page URLs for a page's source - we never suggest already-indexed pages */
 async function getIndexedPageUrlsForPage(pageId: string): Promise<Set<string>> {
   const { data: page } = await supabase.from('pages').select('source_id').eq('id', pageId).single();
@@ -381,11 +625,11 @@ async function getIndexedPageUrlsForPage(pageId: string): Promise<Set<string>> {
   if (!sourceId) return new Set();
   const { data: pages, error } = await supabase
     .from('pages')
-    .select('url')
+    .select('url, final_url, canonical_url')
     .eq('source_id', sourceId)
     .eq('status', 'indexed');
   if (error || !pages?.length) return new Set();
-  return new Set(pages.map((p) => normalizeUrlForCompare(p.url || '')));
+  return new Set(pages.flatMap((p) => pageUrlAliases(p).map(urlIdentityKey)));
 }
 
 /** Fetch indexed page URLs for a conversation's sources - we never suggest already-indexed pages */
@@ -398,21 +642,22 @@ async function getIndexedPageUrls(conversationId: string): Promise<Set<string>>
   if (sourceIds.length === 0) return new Set();
   const { data: pages, error } = await supabase
     .from('pages')
-    .select('url')
+    .select('url, final_url, canonical_url')
     .in('source_id', sourceIds)
     .eq('status', 'indexed');
   if (error || !pages?.length) return new Set();
-  return new Set(pages.map((p) => normalizeUrlForCompare(p.url || '')));
+  return new Set(pages.flatMap((p) => pageUrlAliases(p).map(urlIdentityKey)));
 }
 
-async function embedDiscoveredLinks(conversationId: string, apiKey: string, crawlJobId?: string): Promise<number> {
+async function embedDiscoveredLinks(conversationId: string, embedder: EmbeddingProvider, crawlJobId?: string): Promise<number> {
   const indexedUrls = await getIndexedPageUrls(conversationId);
   const { data: sources } = await supabase
     .from('sources')
-    .select('id, suggestion_mode')
+    .select('id, suggestion_mode, fetch_strategy')
     .eq('conversation_id', conversationId);
   const sourceIds = (sources ?? []).map((s) => s.id);
   const sourceModeMap = new Map((sources ?? []).map((s) => [s.id, (s as { suggestion_mode?: string }).suggestion_mode]));
+  const sourceStrategyMap = new Map((sources ?? []).map((s) => [s.id, (s as Pick<Source, 'fetch_strategy'>).fetch_strategy ?? 'auto']));
   if (sourceIds.length === 0) return 0;
   const { data: pages } = await supabase
     .from('pages')
@@ -444,15 +689,17 @@ async function embedDiscoveredLinks(conversationId: string, apiKey: string, craw
     .in('id', fromPageIds);
   const pageToSource = new Map((pagesWithSource ?? []).map((p) => [p.id, p.source_id]));
   const edgeIdToUseDive = new Map<string, boolean>();
+  const edgeIdToStrategy = new Map<string, FetchStrategy>();
   for (const r of edgeRows ?? []) {
     const fromPageId = (r as { from_page_id?: string }).from_page_id;
     const sourceId = fromPageId ? pageToSource.get(fromPageId) : undefined;
     const mode = sourceId ? sourceModeMap.get(sourceId) : undefined;
     edgeIdToUseDive.set(r.id, mode === 'dive');
+    edgeIdToStrategy.set(r.id, (sourceId && sourceStrategyMap.get(sourceId)) || 'auto');
   }
   const toEmbed = links.filter((l) => {
     const url = edgeIdToUrl.get(l.page_edge_id) || '';
-    return !indexedUrls.has(normalizeUrlForCompare(url));
+    return !indexedUrls.has(urlIdentityKey(url));
   });
   const total = toEmbed.length;
   if (crawlJobId && total > 0) {
@@ -481,17 +728,21 @@ async function embedDiscoveredLinks(conversationId: string, apiKey: string, craw
   let lastProgressUpdate = Date.now();
 
   for (let i = 0; i < toEmbed.length; i += BATCH_SIZE) {
+    if (crawlJobId && (await isJobStopped(crawlJobId))) break;
     const batch = toEmbed.slice(i, i + BATCH_SIZE);
+    if (await stopForEmbeddingQuota(batch[0].owner_id, crawlJobId)) break;
     const texts: string[] = [];
+    let dived = false;
 
     for (const item of batch) {
       let text = item.snippet;
       const useDive = edgeIdToUseDive.get(item.page_edge_id);
       if (useDive) {
         const url = edgeIdToUrl.get(item.page_edge_id) || '';
-        const lead = await fetchTargetPageLead(url);
+        const lead = await fetchTargetPageLead(url, edgeIdToStrategy.get(item.page_edge_id));
         if (lead) {
           text = lead;
+          dived = true;
           await supabase
             .from('encoded_discovered')
             .update({ snippet: text })
@@ -504,13 +755,18 @@ async function embedDiscoveredLinks(conversationId: string, apiKey: string, craw
       texts.push(text || DEFAULT_LINK_SNIPPET);
     }
 
-    const embeddings = await embedBatch(apiKey, texts);
+    const embeddings = await embedder.embed(texts, {
+      phase: dived ? 'dive_embedding' : 'link_embedding',
+      crawlJobId,
+      ownerId: batch[0].owner_id,
+      conversationId,
+    });
     if (embeddings.length !== batch.length) break;
 
     for (let j = 0; j < batch.length; j++) {
       const { error } = await supabase
         .from('encoded_discovered')
-        .update({ embedding: embeddings[j] })
+        .update({ embedding: embeddings[j], embedding_model: embedder.model })
         .eq('id', batch[j].id);
       if (!error) updated++;
     }
@@ -535,55 +791,3 @@ async function embedDiscoveredLinks(conversationId: string, apiKey: string, craw
   }
   return 0; // encoded_discovered rows updated; not counted in chunksCreated
 }
-
-async function embedBatch(apiKey: string, texts: string[]): Promise<number[][]> {
-  const out: number[][] = [];
-  const maxRetries = 3;
-  for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
-    const batch = texts.slice(i, i + EMBED_BATCH_SIZE);
-    let lastErr: Error | null = null;
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        const res = await fetch(OPENAI_EMBEDDINGS_URL, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${apiKey}`,
-          },
-          body: JSON.stringify({
-            model: OPENAI_EMBEDDING_MODEL,
-            input: batch,
-          }),
-        });
-        if (!res.ok) {
-          const errText = await res.text();
-          lastErr = new Error(`OpenAI embeddings: ${res.status} ${errText}`);
-          if ((res.status === 500 || res.status === 502 || res.status === 429) && attempt < maxRetries - 1) {
-            const delayMs = Math.min(1000 * Math.pow(2, attempt), 8000);
-            console.warn('[indexer] OpenAI embeddings retry', { status: res.status, attempt: attempt + 1, delayMs });
-            await new Promise((r) => setTimeout(r, delayMs));
-            continue;
-          }
-          throw lastErr;
-        }
-        const data = (await res.json()) as { data: { embedding: number[] }[] };
-        for (const item of data.data) {
-          out.push(item.embedding);
-        }
-        lastErr = null;
-        break;
-      } catch (e) {
-        lastErr = e instanceof Error ? e : new Error(String(e));
-        if (attempt < maxRetries - 1) {
-          const delayMs = Math.min(1000 * Math.pow(2, attempt), 8000);
-          console.warn('[indexer] OpenAI embeddings retry after error', { message: lastErr.message.slice(0, 80), attempt: attempt + 1, delayMs });
-          await new Promise((r) => setTimeout(r, delayMs));
-        } else {
-          throw lastErr;
-        }
-      }
-    }
-    if (lastErr) throw lastErr;
-  }
-  return out;
-}
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { supabase } from './db';
+import {
+  checkQuota,
+  quotaLimit,
+  quotaUsed,
+  type QuotaExceeded,
+  type QuotaStatusRow,
+} from '../../supabase/functions/_shared/quotas';
+
+const env = (name: string) => process.env[name];
+
+async function quotaStatus(ownerId: string): Promise<QuotaStatusRow | null> {
+  const { data, error } = await supabase.rpc('user_quota_status', { p_owner_id: ownerId });
+  if (error) {
+    console.warn('[quotas] status lookup failed', error.message);
+    return null;
+  }
+  return ((Array.isArray(data) ? data[0] : data) as QuotaStatusRow | null) ?? null;
+}
+
+/** The first crawl limit the owner has used up, or null when a crawl job may start. */
+export async function crawlQuotaExceeded(ownerId: string): Promise<QuotaExceeded | null> {
+  const row = await quotaStatus(ownerId);
+  return checkQuota('pages_per_day', row, env) ?? checkQuota('embedding_tokens_per_day', row, env);
+}
+
+/** Pages the owner may still crawl in the rolling day; null when unlimited. */
+export async function remainingPagesToday(ownerId: string): Promise<number | null> {
+  const row = await quotaStatus(ownerId);
+  const limit = quotaLimit('pages_per_day', row, env);
+  if (limit == null) return null;
+  return Math.max(0, limit - quotaUsed('pages_per_day', row));
+}
+
+/** Re-checked before every embedding batch: one job can embed far more than a day's allowance. */
+export async function embeddingQuotaExceeded(ownerId: string): Promise<QuotaExceeded | null> {
+  return checkQuota('embedding_tokens_per_day', await quotaStatus(ownerId), env);
+}
+
+/** Counts an indexed page toward pages_per_day in quota_ledger, which only the service role can write. Never throws. */
+export async function recordIndexedPage(ownerId: string): Promise<void> {
+  const { error } = await supabase.from('quota_ledger').insert({ owner_id: ownerId, kind: 'page' });
+  if (error) console.warn('[quotas] page count insert failed', error.message);
+}
@@ -0,0 +1,77 @@
+import { supabase } from './db';
+import type { Source } from './types';
+
+export type RefreshInterval = NonNullable<Source['refresh_interval']>;
+
+const REFRESH_INTERVAL_MS: Record<Exclude<RefreshInterval, 'off'>, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+const ACTIVE_JOB_STATUSES = ['queued', 'running', 'indexing', 'encoding'];
+const DUE_SOURCES_LIMIT = 20;
+
+export function nextRefreshAt(interval: RefreshInterval, from: Date = new Date()): string | null {
+  if (interval === 'off') return null;
+  return new Date(from.getTime() + REFRESH_INTERVAL_MS[interval]).toISOString();
+}
+
+/**
+ * Queue a recrawl for every source whose scheduled refresh is due. Sources with a job already in
+ * flight are pushed to their next slot instead. Returns the number of jobs queued.
+ */
+export async function enqueueDueRefreshes(): Promise<number> {
+  const now = new Date();
+  const { data: dueSources, error } = await supabase
+    .from('sources')
+    .select('id, owner_id, crawl_depth, refresh_interval')
+    .neq('refresh_interval', 'off')
+    .neq('kind', 'file')
+    .lte('next_refresh_at', now.toISOString())
+    .order('next_refresh_at', { ascending: true })
+    .limit(DUE_SOURCES_LIMIT);
+  if (error) {
+    console.warn('[scheduler] failed to load due sources', error.message);
+    return 0;
+  }
+
+  let queued = 0;
+  for (const source of (dueSources ?? []) as { id: string; owner_id: string; crawl_depth: string; refresh_interval: RefreshInterval }[]) {
+    await supabase
+      .from('sources')
+      .update({ next_refresh_at: nextRefreshAt(source.refresh_interval, now) })
+      .eq('id', source.id);
+
+    const { count: activeCount } = await supabase
+      .from('crawl_jobs')
+      .select('id', { count: 'exact', head: true })
+      .eq('source_id', source.id)
+      .in('status', ACTIVE_JOB_STATUSES);
+    if ((activeCount ?? 0) > 0) continue;
+
+    let explicitUrls: string[] | null = null;
+    if (source.crawl_depth === 'dynamic') {
+      const { data: pages } = await supabase.from('pages').select('url').eq('source_id', source.id);
+      explicitUrls = pages?.length ? pages.map((p: { url: string }) => p.url) : null;
+    }
+
+    const { error: insertError } = await supabase.from('crawl_jobs').insert({
+      source_id: source.id,
+      owner_id: source.owner_id,
+      status: 'queued',
+      indexed_count: 0,
+      discovered_count: 0,
+      explicit_crawl_urls: explicitUrls,
+      encoding_chunks_done: 0,
+      encoding_chunks_total: 0,
+      encoding_discovered_done: 0,
+      encoding_discovered_total: 0,
+    });
+    if (insertError) {
+      console.warn('[scheduler] failed to queue refresh', source.id.slice(0, 8), insertError.message);
+      continue;
+    }
+    queued++;
+  }
+  if (queued > 0) console.log('[scheduler] queued', queued, 'scheduled refresh job(s)');
+  return queued;
+}
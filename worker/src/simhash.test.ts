@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { hammingDistance, NEAR_DUPLICATE_MAX_DISTANCE, simhash } from './simhash';
+
+const WORDS = [
+  'autovacuum', 'starts', 'on', 'a', 'table', 'once', 'its', 'dead', 'tuples', 'pass', 'the', 'vacuum',
+  'threshold', 'which', 'is', 'the', 'base', 'threshold', 'plus', 'the', 'scale', 'factor', 'times',
+  'the', 'number', 'of', 'live', 'tuples', 'in', 'that', 'table', 'so', 'large', 'tables', 'wait',
+  'far', 'longer', 'between', 'runs', 'than', 'small', 'ones', 'unless', 'the', 'settings', 'are',
+  'tuned', 'per', 'table', 'with', 'storage', 'parameters', 'and', 'monitored', 'closely', 'over', 'time',
+];
+const ARTICLE = Array.from({ length: 20 }, (_, i) => WORDS.map((w) => `${w}${i}`).join(' ')).join(' ');
+
+describe('simhash', () => {
+  it('returns 16 hex characters, the same for the same text regardless of case and punctuation', () => {
+    const fingerprint = simhash(ARTICLE);
+    expect(fingerprint).toMatch(/^[0-9a-f]{16}$/);
+    expect(simhash(`${ARTICLE.toUpperCase()}!`)).toBe(fingerprint);
+  });
+
+  it('returns null for pages with too few words to fingerprint', () => {
+    expect(simhash('')).toBeNull();
+    expect(simhash(WORDS.slice(0, 40).join(' '))).toBeNull();
+  });
+
+  it('keeps near-duplicates within NEAR_DUPLICATE_MAX_DISTANCE and different pages far apart', () => {
+    const original = simhash(ARTICLE)!;
+    const edited = simhash(`Printed from the archive: ${ARTICLE}`)!;
+    const other = simhash(Array.from({ length: 240 }, (_, i) => `word${i}`).join(' '))!;
+    expect(hammingDistance(original, edited)).toBeLessThanOrEqual(NEAR_DUPLICATE_MAX_DISTANCE);
+    expect(hammingDistance(original, other)).toBeGreaterThan(NEAR_DUPLICATE_MAX_DISTANCE * 4);
+  });
+});
+
+describe('hammingDistance', () => {
+  it('counts differing bits across both 32-bit halves', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+    expect(hammingDistance('8000000000000001', '0000000000000000')).toBe(2);
+    expect(hammingDistance('00000000f0000000', '000000000000000f')).toBe(8);
+  });
+
+  it('is symmetric', () => {
+    expect(hammingDistance('0123456789abcdef', 'fedcba9876543210')).toBe(hammingDistance('fedcba9876543210', '0123456789abcdef'));
+  });
+});
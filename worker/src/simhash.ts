@@ -0,0 +1,57 @@
+/**
+ * 64-bit SimHash over word shingles: pages whose fingerprints differ in only a few bits share almost
+ * all of their text (mirrors, printable versions, syndicated copies). Fingerprints are stored as
+ * 16 hex characters.
+ */
+
+const SHINGLE_WORDS = 3;
+
+/** Below this many words a page has too few shingles for the fingerprint to mean anything. */
+const MIN_FINGERPRINT_WORDS = 50;
+
+/** Bits two fingerprints may differ in and still count as the same text (~95% shared shingles). */
+export const NEAR_DUPLICATE_MAX_DISTANCE = 3;
+
+function fnv1a32(text: string, seed: number): number {
+  let hash = seed >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function simhash(text: string): string | null {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (words.length < MIN_FINGERPRINT_WORDS) return null;
+
+  const weights = new Array<number>(64).fill(0);
+  for (let i = 0; i + SHINGLE_WORDS <= words.length; i++) {
+    const shingle = words.slice(i, i + SHINGLE_WORDS).join(' ');
+    const halves = [fnv1a32(shingle, 0x811c9dc5), fnv1a32(shingle, 0x9747b28c)];
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (halves[bit >> 5] >>> (bit & 31)) & 1 ? 1 : -1;
+    }
+  }
+
+  const halves = [0, 0];
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) halves[bit >> 5] |= 1 << (bit & 31);
+  }
+  return halves.map((h) => (h >>> 0).toString(16).padStart(8, '0')).join('');
+}
+
+function popcount32(n: number): number {
+  let v = n >>> 0;
+  v -= (v >>> 1) & 0x55555555;
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (Math.imul((v + (v >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24) & 0xff;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < 16; i += 8) {
+    distance += popcount32(parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16));
+  }
+  return distance;
+}
@@ -2,13 +2,12 @@
 
 
 
-import * as cheerio from 'cheerio';
-import fetch from 'node-fetch';
-import { CONTEXT_SNIPPET_LENGTH, CRAWLER_USER_AGENT, MAIN_CONTENT_SELECTOR } from './crawler/constants';
+import { CONTEXT_SNIPPET_LENGTH } from './crawler/constants';
+import { readDocumentWithStrategy } from './crawler/document';
+import type { FetchStrategy } from './crawler/fetchStrategy';
+import { politeFetch } from './crawler/hostScheduler';
 
 
-const FETCH_DELAY_MS = 400;
-
 
 export function stripLeadFluff(text: string): string {
   let s = text.trim();
@@ -40,17 +39,16 @@ export function stripLeadFluff(text: string): string {
 }
 
 
-export async function fetchTargetPageLead(url: string): Promise<string> {
+/**
+ * The opening text of a linked page, used in place of its anchor snippet for dive suggestions.
+ * Fetched and read like a crawled page: through the host's rate limit and retries, with client-rendered
+ * shells falling back to the headless browser per `strategy`.
+ */
+export async function fetchTargetPageLead(url: string, strategy: FetchStrategy = 'auto'): Promise<string> {
   try {
-    const res = await fetch(url, {
-      headers: { 'User-Agent': CRAWLER_USER_AGENT },
-      redirect: 'follow',
-    });
+    const res = await politeFetch(url);
     if (!res.ok) return '';
-    const html = await res.text();
-    const $ = cheerio.load(html);
-    const mainContent =
-      $(MAIN_CONTENT_SELECTOR).first().text().trim() || $('body').text().trim();
+    const { content: mainContent } = await readDocumentWithStrategy(res, url, strategy);
     const cleaned = stripLeadFluff(mainContent);
     return cleaned.substring(0, CONTEXT_SNIPPET_LENGTH).trim() || cleaned.substring(0, CONTEXT_SNIPPET_LENGTH);
   } catch {
@@ -61,18 +59,16 @@ export async function fetchTargetPageLead(url: string): Promise<string> {
 
 export async function fetchTargetLeadsBatch(
   urls: string[],
+  strategy: FetchStrategy = 'auto',
   onProgress?: (done: number, total: number) => void
 ): Promise<Map<string, string>> {
   const result = new Map<string, string>();
   const total = urls.length;
   for (let i = 0; i < urls.length; i++) {
     const url = urls[i];
-    const lead = await fetchTargetPageLead(url);
+    const lead = await fetchTargetPageLead(url, strategy);
     if (lead) result.set(url, lead);
     onProgress?.(i + 1, total);
-    if (i < urls.length - 1) {
-      await new Promise((r) => setTimeout(r, FETCH_DELAY_MS));
-    }
   }
   return result;
 }
\ No newline at end of file
@@ -1,7 +1,10 @@
+import type { ContentBlock } from './crawler/structure';
+import type { FetchStrategy } from './crawler/fetchStrategy';
+
 export interface CrawlJob {
   id: string;
   source_id: string;
-  status: 'queued' | 'running' | 'indexing' | 'completed' | 'failed' | 'cancelled';
+  status: 'queued' | 'running' | 'indexing' | 'completed' | 'failed' | 'cancelled' | 'paused';
   indexed_count?: number;
   discovered_count?: number;
   total_pages: number | null;
@@ -10,20 +13,43 @@ export interface CrawlJob {
   completed_at: string | null;
   last_activity_at?: string | null;
   explicit_crawl_urls?: string[] | null;
+  /** Re-fetch exactly the explicit_crawl_urls (the source's failed pages) without following links. */
+  retry_failed?: boolean;
+  pages_changed?: number | null;
+  pages_unchanged?: number | null;
   created_at: string;
   updated_at: string;
   owner_id: string;
 }
 
+/** Custom crawl profile (sources.crawl_budget); unset fields fall back to the depth preset or no limit. */
+export interface CrawlBudget {
+  max_pages?: number | null;
+  /** Link hops from the seed; the seed is 0 and sitemap-seeded URLs are 1, so 0 crawls only the seeds. */
+  max_link_depth?: number | null;
+  max_pages_per_prefix?: number | null;
+  max_total_bytes?: number | null;
+}
+
 export interface Source {
   id: string;
   owner_id: string;
   conversation_id: string;
   initial_url: string;
   domain: string;
+  kind?: 'web' | 'file';
+  fetch_strategy?: FetchStrategy;
   crawl_depth: 'shallow' | 'medium' | 'deep' | 'singular' | 'dynamic';
   suggestion_mode?: 'surface' | 'dive';
   same_domain_only: boolean;
+  include_patterns?: string[];
+  exclude_patterns?: string[];
+  use_sitemap?: boolean;
+  crawl_budget?: CrawlBudget | null;
+  refresh_interval?: 'off' | 'daily' | 'weekly';
+  next_refresh_at?: string | null;
+  last_refreshed_at?: string | null;
+  last_content_changed_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -35,7 +61,26 @@ export interface Page {
   title: string | null;
   path: string;
   content: string | null;
+  content_blocks?: ContentBlock[] | null;
+  content_hash?: string | null;
+  indexed_content_hash?: string | null;
+  /** SimHash of `content` (see simhash.ts); null for pages too short to fingerprint. */
+  simhash?: string | null;
+  /** Earlier page in the conversation with near-identical text; duplicates are not embedded. */
+  duplicate_of?: string | null;
+  etag?: string | null;
+  last_modified?: string | null;
+  content_type?: string | null;
+  storage_path?: string | null;
   status: 'pending' | 'crawling' | 'indexed' | 'error';
+  /** Why the last fetch or extraction failed; null once the page indexes again. */
+  error_message?: string | null;
+  http_status?: number | null;
+  last_error_at?: string | null;
+  /** Where redirects ended, when that differs from the URL the crawler requested. */
+  final_url?: string | null;
+  /** From `<link rel="canonical">`; when set it is also the page's `url`. */
+  canonical_url?: string | null;
   created_at: string;
   updated_at: string;
   owner_id: string;
@@ -0,0 +1,47 @@
+import { supabase } from './db';
+import { estimateCostUsd, type UsagePhase } from '../../supabase/functions/_shared/usagePricing';
+
+/** What an embedding call is billed to. Owner and source are looked up from the crawl job when omitted. */
+export type UsageTag = {
+  phase: UsagePhase;
+  crawlJobId?: string;
+  ownerId?: string;
+  sourceId?: string;
+  conversationId?: string;
+};
+
+const crawlJobOwners = new Map<string, { owner_id: string; source_id: string } | null>();
+
+async function crawlJobOwner(crawlJobId: string): Promise<{ owner_id: string; source_id: string } | null> {
+  if (!crawlJobOwners.has(crawlJobId)) {
+    const { data } = await supabase.from('crawl_jobs').select('owner_id, source_id').eq('id', crawlJobId).maybeSingle();
+    crawlJobOwners.set(crawlJobId, (data as { owner_id: string; source_id: string } | null) ?? null);
+  }
+  return crawlJobOwners.get(crawlJobId) ?? null;
+}
+
+/** Appends a row to usage_ledger. Never throws: a lost ledger row must not fail the crawl. */
+export async function recordUsage(tag: UsageTag, model: string, promptTokens: number, completionTokens = 0): Promise<void> {
+  try {
+    const job = tag.crawlJobId && (!tag.ownerId || !tag.sourceId) ? await crawlJobOwner(tag.crawlJobId) : null;
+    const ownerId = tag.ownerId ?? job?.owner_id;
+    if (!ownerId) {
+      console.warn('[usage] no owner for usage row', { phase: tag.phase, crawlJobId: tag.crawlJobId });
+      return;
+    }
+    const { error } = await supabase.from('usage_ledger').insert({
+      owner_id: ownerId,
+      conversation_id: tag.conversationId ?? null,
+      source_id: tag.sourceId ?? job?.source_id ?? null,
+      crawl_job_id: tag.crawlJobId ?? null,
+      phase: tag.phase,
+      model,
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      cost_usd: estimateCostUsd(model, promptTokens, completionTokens),
+    });
+    if (error) console.warn('[usage] insert failed', error.message);
+  } catch (err) {
+    console.warn('[usage] insert failed', err instanceof Error ? err.message : err);
+  }
+}